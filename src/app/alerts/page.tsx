@@ -0,0 +1,308 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+
+// --- 型定義 ---
+type AlertChannel = "webhook" | "email";
+
+interface AlertSubscription {
+  id: string;
+  token?: string;
+  station_id: string;
+  station_name: string;
+  min_scale: number;
+  days_ahead: number;
+  channel: AlertChannel;
+  target: string;
+}
+
+const DAYS_AHEAD_LABELS: Record<number, string> = {
+  0: "当日",
+  1: "翌日",
+  2: "2日後",
+};
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  email: "メール",
+  webhook: "Webhook (チャットツールなど)",
+};
+
+const inputClassName =
+  "w-full bg-pink-100 text-gray-900 rounded-lg px-4 py-2 outline-none border border-transparent focus:ring-2 focus:ring-pink-300";
+
+// 通知メールの解除リンク (?id=&token=) から開いたときの表示
+function ManageSubscription({ id, token }: { id: string; token: string }) {
+  const [subscription, setSubscription] = useState<AlertSubscription | null>(
+    null,
+  );
+  const [status, setStatus] = useState<
+    "loading" | "loaded" | "deleted" | "error"
+  >("loading");
+
+  useEffect(() => {
+    const fetchSubscription = async () => {
+      const res = await fetch(
+        `/api/alerts/${encodeURIComponent(id)}?token=${encodeURIComponent(token)}`,
+      );
+      if (!res.ok) {
+        setStatus("error");
+        return;
+      }
+      setSubscription(await res.json());
+      setStatus("loaded");
+    };
+    fetchSubscription();
+  }, [id, token]);
+
+  const handleUnsubscribe = async () => {
+    const res = await fetch(
+      `/api/alerts/${encodeURIComponent(id)}?token=${encodeURIComponent(token)}`,
+      { method: "DELETE" },
+    );
+    setStatus(res.ok ? "deleted" : "error");
+  };
+
+  if (status === "loading") {
+    return <p className="text-sm text-gray-600">読み込み中...</p>;
+  }
+  if (status === "deleted") {
+    return <p className="text-sm text-gray-700">通知を解除しました。</p>;
+  }
+  if (status === "error" || !subscription) {
+    return (
+      <p className="text-red-500">
+        通知の設定が見つかりません。すでに解除されている可能性があります。
+      </p>
+    );
+  }
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-700">
+        {subscription.station_name}駅で
+        {DAYS_AHEAD_LABELS[subscription.days_ahead] ??
+          `${subscription.days_ahead}日後`}
+        に混雑度{subscription.min_scale}以上の混雑が予測されたら、
+        {CHANNEL_LABELS[subscription.channel]} ({subscription.target})
+        に通知します。
+      </p>
+      <button
+        type="button"
+        onClick={handleUnsubscribe}
+        className="w-full bg-pink-200 hover:bg-pink-300 text-gray-800 font-medium py-3 rounded-lg transition-colors"
+      >
+        通知を解除する
+      </button>
+    </div>
+  );
+}
+
+function SubscribeForm({
+  stationId,
+  stationName,
+}: {
+  stationId: string;
+  stationName: string;
+}) {
+  // ログイン中のアカウントのメールアドレス。未ログインなら null
+  const [accountEmail, setAccountEmail] = useState<string | null | undefined>(
+    undefined,
+  );
+  const [minScale, setMinScale] = useState(8);
+  const [daysAhead, setDaysAhead] = useState(1);
+  const [channel, setChannel] = useState<AlertChannel>("email");
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [created, setCreated] = useState<AlertSubscription | null>(null);
+
+  useEffect(() => {
+    const fetchAccount = async () => {
+      const res = await fetch("/api/auth/me");
+      setAccountEmail(res.ok ? (await res.json()).email : null);
+    };
+    fetchAccount();
+  }, []);
+
+  // メールはアカウントのアドレスにだけ送れる
+  const target = channel === "email" ? (accountEmail ?? "") : webhookUrl;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          station_id: stationId,
+          station_name: stationName,
+          min_scale: minScale,
+          days_ahead: daysAhead,
+          channel,
+          target,
+        }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.detail || "登録に失敗しました。");
+      }
+      setCreated(await res.json());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "登録に失敗しました。");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (accountEmail === undefined) {
+    return <p className="text-sm text-gray-600">読み込み中...</p>;
+  }
+  if (accountEmail === null) {
+    return (
+      <p className="text-sm text-gray-700">
+        通知の登録には
+        <Link href="/login" className="text-pink-500 hover:text-pink-700">
+          ログイン
+        </Link>
+        が必要です。
+      </p>
+    );
+  }
+
+  if (created) {
+    return (
+      <div className="space-y-2 text-sm text-gray-700">
+        <p>
+          通知を登録しました。毎晩、予測を確認して条件を満たせば通知します。
+        </p>
+        <p>
+          解除用のリンク:{" "}
+          <Link
+            href={`/alerts?id=${created.id}&token=${created.token}`}
+            className="text-pink-500 hover:text-pink-700 break-all"
+          >
+            このページ
+          </Link>{" "}
+          (通知にも記載されます)
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-800">いつの予測</span>
+        <select
+          value={daysAhead}
+          onChange={(e) => setDaysAhead(Number(e.target.value))}
+          className={inputClassName}
+        >
+          {Object.entries(DAYS_AHEAD_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-800">
+          混雑度がいくつ以上で通知するか
+        </span>
+        <select
+          value={minScale}
+          onChange={(e) => setMinScale(Number(e.target.value))}
+          className={inputClassName}
+        >
+          {[10, 9, 8, 7, 6, 5, 4, 3].map((scale) => (
+            <option key={scale} value={scale}>
+              {scale}/10 以上
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-800">通知先</span>
+        <select
+          value={channel}
+          onChange={(e) => setChannel(e.target.value as AlertChannel)}
+          className={inputClassName}
+        >
+          {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {channel === "email" ? (
+        <p className="text-sm text-gray-600">
+          ログイン中のメールアドレス ({accountEmail}) に送ります。
+        </p>
+      ) : (
+        <input
+          type="url"
+          required
+          value={webhookUrl}
+          onChange={(e) => setWebhookUrl(e.target.value)}
+          placeholder="https://hooks.example.com/..."
+          className={inputClassName}
+        />
+      )}
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+      <button
+        type="submit"
+        disabled={isSubmitting || !target}
+        className="w-full bg-pink-200 hover:bg-pink-300 text-gray-800 font-medium py-3 rounded-lg transition-colors disabled:opacity-50"
+      >
+        {isSubmitting ? "登録中..." : "通知を登録"}
+      </button>
+    </form>
+  );
+}
+
+function AlertsView() {
+  const searchParams = useSearchParams();
+  const id = searchParams.get("id");
+  const token = searchParams.get("token");
+  const stationId = searchParams.get("stationId");
+  const stationName = searchParams.get("stationName");
+
+  const renderContent = () => {
+    if (id && token) {
+      return <ManageSubscription id={id} token={token} />;
+    }
+    if (stationId && stationName) {
+      return <SubscribeForm stationId={stationId} stationName={stationName} />;
+    }
+    return <p className="text-red-500">駅が指定されていません。</p>;
+  };
+
+  return (
+    <div className="min-h-screen bg-white px-4 py-6">
+      <Link
+        href="/"
+        className="text-pink-500 hover:text-pink-700 mb-4 inline-block"
+      >
+        ← 戻る
+      </Link>
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-xl font-bold text-gray-700">
+          {stationName ? `${stationName}駅の混雑通知` : "混雑通知"}
+        </h1>
+        {renderContent()}
+      </div>
+    </div>
+  );
+}
+
+export default function AlertsPage() {
+  return (
+    <Suspense>
+      <AlertsView />
+    </Suspense>
+  );
+}
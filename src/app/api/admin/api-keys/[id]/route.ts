@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/adminAuth";
+import { deleteApiKey } from "@/lib/apiKeys";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** API キーを失効させる */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  const { id } = await params;
+  if (!(await deleteApiKey(id))) {
+    return NextResponse.json({ detail: "API key not found." }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/adminAuth";
+import {
+  createApiKey,
+  DEFAULT_RATE_LIMIT_PER_MINUTE,
+  listApiKeys,
+  toPublicApiKey,
+} from "@/lib/apiKeys";
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  return NextResponse.json((await listApiKeys()).map(toPublicApiKey));
+}
+
+/**
+ * 公開API のキーを発行する。ボディは { name, rate_limit_per_minute? }。
+ * レスポンスの key は再表示できないので、発行時に控えておく。
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  const { name } = body;
+  const rateLimit = body.rate_limit_per_minute ?? DEFAULT_RATE_LIMIT_PER_MINUTE;
+  if (typeof name !== "string" || !name) {
+    return NextResponse.json({ detail: "name is required." }, { status: 400 });
+  }
+  if (
+    typeof rateLimit !== "number" ||
+    !Number.isInteger(rateLimit) ||
+    rateLimit < 1
+  ) {
+    return NextResponse.json(
+      { detail: "rate_limit_per_minute must be a positive integer." },
+      { status: 400 },
+    );
+  }
+
+  const { apiKey, key } = await createApiKey(name, rateLimit);
+  return NextResponse.json({ ...toPublicApiKey(apiKey), key }, { status: 201 });
+}
@@ -0,0 +1,14 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/adminAuth";
+import { getUpstreamMetrics } from "@/lib/httpClient";
+
+/**
+ * 外部APIごとの呼び出し回数・失敗回数と、サーキットブレーカーの状態を返す。
+ * 集計はサーバーのプロセスごとで、再起動すると0に戻る。
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  return NextResponse.json(getUpstreamMetrics());
+}
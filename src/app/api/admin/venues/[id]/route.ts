@@ -0,0 +1,58 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/adminAuth";
+import {
+  deleteVenue,
+  listVenues,
+  parseVenueCatalogEntry,
+  upsertVenue,
+} from "@/lib/venueCatalog";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  const { id } = await params;
+  const venue = (await listVenues()).find((v) => v.id === id);
+  if (!venue) {
+    return NextResponse.json({ detail: "Venue not found." }, { status: 404 });
+  }
+  return NextResponse.json(venue);
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  const { id } = await params;
+
+  let entry: ReturnType<typeof parseVenueCatalogEntry>;
+  try {
+    // パスの id を正とする
+    entry = parseVenueCatalogEntry({ ...(await request.json()), id });
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  if (typeof entry === "string") {
+    return NextResponse.json({ detail: entry }, { status: 400 });
+  }
+
+  await upsertVenue(entry);
+  return NextResponse.json(entry);
+}
+
+/** 管理APIでの登録・変更を取り消す。初期データにある施設は初期データの値に戻る */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  const { id } = await params;
+  if (!(await deleteVenue(id))) {
+    return NextResponse.json({ detail: "Venue not found." }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/adminAuth";
+import {
+  listVenues,
+  parseVenueCatalogEntry,
+  upsertVenue,
+} from "@/lib/venueCatalog";
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  return NextResponse.json(await listVenues());
+}
+
+/** 施設を登録する。同じ id があれば上書きする */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+
+  let entry: ReturnType<typeof parseVenueCatalogEntry>;
+  try {
+    entry = parseVenueCatalogEntry(await request.json());
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  if (typeof entry === "string") {
+    return NextResponse.json({ detail: entry }, { status: 400 });
+  }
+
+  await upsertVenue(entry);
+  return NextResponse.json(entry);
+}
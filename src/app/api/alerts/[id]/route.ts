@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  deleteAlertSubscription,
+  findAlertSubscription,
+  matchesSubscriptionToken,
+  toPublicSubscription,
+} from "@/lib/alertSubscriptions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 購読時に返した token を `?token=` で渡す
+async function authorizedSubscription(
+  request: NextRequest,
+  context: RouteContext,
+) {
+  const { id } = await context.params;
+  const subscription = await findAlertSubscription(id);
+  const token = request.nextUrl.searchParams.get("token");
+  return subscription && matchesSubscriptionToken(subscription, token)
+    ? subscription
+    : null;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const subscription = await authorizedSubscription(request, context);
+  if (!subscription) {
+    return NextResponse.json(
+      { detail: "Subscription not found." },
+      { status: 404 },
+    );
+  }
+  return NextResponse.json(toPublicSubscription(subscription));
+}
+
+/** 購読を解除する */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const subscription = await authorizedSubscription(request, context);
+  if (!subscription) {
+    return NextResponse.json(
+      { detail: "Subscription not found." },
+      { status: 404 },
+    );
+  }
+  await deleteAlertSubscription(subscription.id);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,78 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { normalizeEmail, userFromRequest } from "@/lib/accounts";
+import { isAdminRequest } from "@/lib/adminAuth";
+import {
+  createAlertSubscription,
+  listAlertSubscriptions,
+  MAX_SUBSCRIPTIONS_PER_USER,
+  parseAlertSubscriptionInput,
+  toPublicSubscription,
+} from "@/lib/alertSubscriptions";
+import { getNotifier, resolveWebhookTarget } from "@/lib/notifier";
+
+/** 購読の一覧。管理者のみ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  const subscriptions = await listAlertSubscriptions();
+  return NextResponse.json(subscriptions.map(toPublicSubscription));
+}
+
+/**
+ * 混雑アラートを購読する。ログインが必要で、メールはアカウントのアドレスにだけ送れる。
+ * 1つのアカウントで持てる購読は MAX_SUBSCRIPTIONS_PER_USER 件まで。
+ * Webhook の送信先は、DNS で解決したアドレスがサーバー内部のネットワークなら受け付けない。
+ * レスポンスの token は確認・解除に必要なので控えておく。
+ */
+export async function POST(request: NextRequest) {
+  const user = await userFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+
+  let input: ReturnType<typeof parseAlertSubscriptionInput>;
+  try {
+    input = parseAlertSubscriptionInput(await request.json());
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  if (typeof input === "string") {
+    return NextResponse.json({ detail: input }, { status: 400 });
+  }
+  if (!getNotifier(input.channel)) {
+    return NextResponse.json(
+      { detail: `${input.channel} alerts are not available on this server.` },
+      { status: 400 },
+    );
+  }
+  if (
+    input.channel === "email" &&
+    normalizeEmail(input.target) !== user.email
+  ) {
+    return NextResponse.json(
+      { detail: "target must be the email address of your account." },
+      { status: 400 },
+    );
+  }
+  if (input.channel === "webhook") {
+    const webhookTarget = await resolveWebhookTarget(input.target);
+    if (typeof webhookTarget === "string") {
+      return NextResponse.json({ detail: webhookTarget }, { status: 400 });
+    }
+  }
+
+  const subscription = await createAlertSubscription(user.id, input);
+  if (!subscription) {
+    return NextResponse.json(
+      {
+        detail: `You can have at most ${MAX_SUBSCRIPTIONS_PER_USER} alert subscriptions.`,
+      },
+      { status: 409 },
+    );
+  }
+  return NextResponse.json(subscription, { status: 201 });
+}
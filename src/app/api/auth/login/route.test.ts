@@ -0,0 +1,130 @@
+import { rm } from "node:fs/promises";
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mailer = vi.hoisted(() => ({
+  isMailerConfigured: () => true,
+  sendMail: vi.fn(),
+}));
+vi.mock("@/lib/mailer", () => mailer);
+
+const SESSIONS_PATH = ".cache/test/login-sessions.json";
+
+// レート制限はモジュール内のメモリで数えるので、テストごとに読み込み直す
+async function loadRoutes() {
+  vi.resetModules();
+  vi.stubEnv("SESSIONS_PATH", SESSIONS_PATH);
+  vi.stubEnv("USERS_PATH", ".cache/test/login-users.json");
+  vi.stubEnv("SITE_URL", "https://example.com");
+  const login = await import("./route");
+  const verify = await import("../verify/route");
+  return { login, verify };
+}
+
+function loginRequest(email: string, ip = "203.0.113.1") {
+  return new NextRequest("http://localhost/api/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Forwarded-For": ip },
+    body: JSON.stringify({ email }),
+  });
+}
+
+/** 送ったログインメールの本文からトークンを取り出す */
+function sentToken(): string {
+  const [[{ text }]] = mailer.sendMail.mock.calls.slice(-1);
+  const link = new URL(text.match(/https:\/\/\S+/)[0]);
+  expect(link.pathname).toBe("/login/verify");
+  return link.searchParams.get("token") ?? "";
+}
+
+describe("POST /api/auth/login", () => {
+  beforeEach(async () => {
+    mailer.sendMail.mockReset();
+    await rm(SESSIONS_PATH, { force: true });
+  });
+
+  it("limits login mails per address", async () => {
+    const { login } = await loadRoutes();
+
+    const statuses = [];
+    for (const ip of [
+      "203.0.113.1",
+      "203.0.113.2",
+      "203.0.113.3",
+      "203.0.113.4",
+    ]) {
+      statuses.push(
+        (await login.POST(loginRequest("User@Example.com", ip))).status,
+      );
+    }
+    const limited = await login.POST(
+      loginRequest("user@example.com", "203.0.113.5"),
+    );
+
+    expect(statuses).toEqual([202, 202, 202, 429]);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("Retry-After")).toMatch(/^\d+$/);
+    expect(mailer.sendMail).toHaveBeenCalledTimes(3);
+  });
+
+  it("limits login mails per client address", async () => {
+    const { login } = await loadRoutes();
+
+    const statuses = [];
+    for (let i = 0; i < 11; i += 1) {
+      statuses.push(
+        (await login.POST(loginRequest(`user${i}@example.com`))).status,
+      );
+    }
+
+    expect(statuses.slice(0, 10).every((status) => status === 202)).toBe(true);
+    expect(statuses[10]).toBe(429);
+    expect(mailer.sendMail).toHaveBeenCalledTimes(10);
+  });
+});
+
+describe("/api/auth/verify", () => {
+  beforeEach(async () => {
+    mailer.sendMail.mockReset();
+    await rm(SESSIONS_PATH, { force: true });
+  });
+
+  it("does not redeem the token on GET", async () => {
+    const { login, verify } = await loadRoutes();
+    await login.POST(loginRequest("user@example.com"));
+    const token = sentToken();
+
+    const response = await verify.GET(
+      new NextRequest(`http://localhost/api/auth/verify?token=${token}`),
+    );
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe(
+      `http://localhost/login/verify?token=${token}`,
+    );
+    expect(response.cookies.getAll()).toEqual([]);
+  });
+
+  it("redeems the token once on POST", async () => {
+    const { login, verify } = await loadRoutes();
+    await login.POST(loginRequest("user@example.com"));
+    const token = sentToken();
+    const confirm = () =>
+      verify.POST(
+        new NextRequest("http://localhost/api/auth/verify", {
+          method: "POST",
+          body: new URLSearchParams({ token }),
+        }),
+      );
+
+    const first = await confirm();
+    const second = await confirm();
+
+    expect(first.status).toBe(303);
+    expect(first.headers.get("location")).toBe("http://localhost/");
+    expect(first.cookies.getAll()).toHaveLength(1);
+    expect(second.headers.get("location")).toBe(
+      "http://localhost/login?error=expired",
+    );
+  });
+});
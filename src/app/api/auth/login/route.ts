@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  createLoginToken,
+  isEmailAddress,
+  normalizeEmail,
+} from "@/lib/accounts";
+import { isMailerConfigured, sendMail } from "@/lib/mailer";
+import { clientAddress, consumeRateLimit } from "@/lib/rateLimit";
+
+// ログインメールを他人のアドレスに大量に送らせないための上限
+const MAILS_PER_ADDRESS = { limit: 3, windowMs: 15 * 60 * 1000 };
+const MAILS_PER_CLIENT = { limit: 10, windowMs: 60 * 60 * 1000 };
+
+/**
+ * メールアドレスにログインリンクを送る。リンクを開いて確認するとログインできる。
+ * 初めてのメールアドレスなら、ログイン時にアカウントを作成する。
+ * 送信回数はメールアドレスごと・クライアントのIPアドレスごとに制限する。
+ */
+export async function POST(request: NextRequest) {
+  if (!isMailerConfigured()) {
+    console.error("SMTP_HOST is not configured.");
+    return NextResponse.json({ detail: "サーバー設定エラー" }, { status: 500 });
+  }
+
+  let email: unknown;
+  try {
+    ({ email } = await request.json());
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  if (!isEmailAddress(email)) {
+    return NextResponse.json(
+      { detail: "A valid email is required." },
+      { status: 400 },
+    );
+  }
+
+  for (const [key, { limit, windowMs }] of [
+    [`login-mail:ip:${clientAddress(request)}`, MAILS_PER_CLIENT],
+    [`login-mail:email:${normalizeEmail(email)}`, MAILS_PER_ADDRESS],
+  ] as const) {
+    const result = consumeRateLimit(key, limit, { windowMs });
+    if (!result.allowed) {
+      return NextResponse.json(
+        {
+          detail:
+            "ログインリンクの送信回数が上限に達しました。しばらくしてから再度お試しください。",
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(
+              Math.max(1, result.resetAt - Math.floor(Date.now() / 1000)),
+            ),
+          },
+        },
+      );
+    }
+  }
+
+  const token = await createLoginToken(email);
+  const origin = process.env.SITE_URL ?? request.nextUrl.origin;
+  // メールのセキュリティ製品などがリンクを先読みしてもトークンを使わないよう、
+  // リンク先は確認ページにし、ボタンを押したときに POST で使う
+  const link = new URL(
+    `/login/verify?token=${encodeURIComponent(token)}`,
+    origin,
+  ).toString();
+  try {
+    await sendMail({
+      to: email,
+      subject: "いつ空いてる? ログインリンク",
+      text: [
+        "以下のリンクを開き、「ログインする」を押すとログインできます。リンクの有効期限は15分です。",
+        "",
+        link,
+        "",
+        "このメールに心当たりがない場合は破棄してください。",
+      ].join("\n"),
+    });
+  } catch (error) {
+    console.error("Failed to send login mail:", error);
+    return NextResponse.json(
+      { detail: "ログインリンクを送信できませんでした。" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ detail: "sent" }, { status: 202 });
+}
@@ -0,0 +1,9 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { clearSessionCookie, deleteSession } from "@/lib/accounts";
+
+export async function POST(request: NextRequest) {
+  await deleteSession(request);
+  const response = new NextResponse(null, { status: 204 });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,11 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { userFromRequest } from "@/lib/accounts";
+
+/** ログイン中のユーザー。未ログインなら 401 */
+export async function GET(request: NextRequest) {
+  const user = await userFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  return NextResponse.json({ id: user.id, email: user.email });
+}
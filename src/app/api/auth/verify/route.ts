@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { redeemLoginToken, setSessionCookie } from "@/lib/accounts";
+
+/**
+ * 以前のログインメールのリンク。トークンは使わずに確認ページへ送る。
+ * GET はリンクの先読みでも呼ばれるので、ここでトークンを使ってはいけない。
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token") ?? "";
+  return NextResponse.redirect(
+    new URL(`/login/verify?token=${encodeURIComponent(token)}`, request.url),
+  );
+}
+
+/**
+ * 確認ページのフォームの送信先。トークンを使ってセッション Cookie を発行し、トップに戻す。
+ * トップでは localStorage のお気に入りをアカウントに取り込む。
+ */
+export async function POST(request: NextRequest) {
+  let token: FormDataEntryValue | null = null;
+  try {
+    token = (await request.formData()).get("token");
+  } catch (_error) {
+    // フォーム以外の本文は無効なリンクとして扱う
+  }
+  const result =
+    typeof token === "string" && token ? await redeemLoginToken(token) : null;
+  // フォームの POST の後は GET で遷移させる
+  if (!result) {
+    return NextResponse.redirect(new URL("/login?error=expired", request.url), {
+      status: 303,
+    });
+  }
+
+  const response = NextResponse.redirect(new URL("/", request.url), {
+    status: 303,
+  });
+  setSessionCookie(response, result.sessionToken);
+  return response;
+}
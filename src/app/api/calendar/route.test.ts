@@ -0,0 +1,104 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { StationForecast } from "@/lib/stationForecast";
+
+const STATION_ID = "odpt.Station:TokyoMetro.Chiyoda.Yoyogikoen";
+
+const stationForecast = vi.hoisted(() => ({
+  loadCachedStationForecasts: vi.fn(),
+  loadStationForecasts: vi.fn(),
+}));
+vi.mock("@/lib/stationForecast", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/stationForecast")>()),
+  ...stationForecast,
+}));
+
+// 予定に使う項目だけを持つ予測
+const forecast = (targetDate: string) =>
+  ({
+    stationId: STATION_ID,
+    stationName: "代々木公園",
+    targetDate,
+    facilities: [
+      {
+        facility_name: "国立代々木競技場",
+        events: [
+          {
+            event_name: "コンサート",
+            scale: 9,
+            congestion_predictions: [
+              { start_hour: 17, end_hour: 18, label: "入場" },
+            ],
+          },
+        ],
+      },
+    ],
+  }) as unknown as StationForecast;
+
+async function getCalendar(query: string) {
+  const { GET } = await import("./route");
+  return GET(
+    new NextRequest(
+      `http://localhost/api/calendar?stationId=${encodeURIComponent(STATION_ID)}${query}`,
+    ),
+  );
+}
+
+describe("GET /api/calendar", () => {
+  beforeEach(() => {
+    // 日本時間の 2026-11-01 朝
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-31T23:00:00Z"));
+    stationForecast.loadCachedStationForecasts.mockReset();
+    stationForecast.loadStationForecasts.mockReset();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("builds the feed from cached predictions only", async () => {
+    stationForecast.loadCachedStationForecasts.mockResolvedValue({
+      stationName: "代々木公園",
+      forecasts: [forecast("2026-11-03")],
+    });
+
+    const response = await getCalendar("");
+
+    expect(response.status).toBe(200);
+    expect(stationForecast.loadCachedStationForecasts).toHaveBeenCalledWith(
+      STATION_ID,
+      [
+        "2026-11-01",
+        "2026-11-02",
+        "2026-11-03",
+        "2026-11-04",
+        "2026-11-05",
+        "2026-11-06",
+        "2026-11-07",
+      ],
+    );
+    expect(stationForecast.loadStationForecasts).not.toHaveBeenCalled();
+    const calendar = await response.text();
+    expect(calendar).toContain("X-WR-CALNAME:代々木公園駅の混雑予測");
+    expect(calendar).toContain("DTSTART:20261103T080000Z");
+  });
+
+  it.each([
+    ["a past start_date", "&start_date=2026-10-31"],
+    ["an end_date after the next 7 days", "&end_date=2026-11-08"],
+    ["a far future start_date", "&start_date=2027-01-01"],
+  ])("rejects %s", async (_name, query) => {
+    const response = await getCalendar(query);
+
+    expect(response.status).toBe(400);
+    expect(stationForecast.loadCachedStationForecasts).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for an unknown station", async () => {
+    stationForecast.loadCachedStationForecasts.mockResolvedValue(null);
+
+    const response = await getCalendar("&start_date=2026-11-07");
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,114 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  addDays,
+  enumerateDates,
+  isDateString,
+  todayInJapan,
+} from "@/lib/calendar";
+import { MAX_BATCH_DAYS } from "@/lib/eventPipeline";
+import { CROWDED_SCALE } from "@/lib/eventTimeline";
+import { buildCrowdCalendar } from "@/lib/icalendar";
+import {
+  loadCachedStationForecasts,
+  stationForecastPath,
+} from "@/lib/stationForecast";
+import { UpstreamError, upstreamErrorResponse } from "@/lib/upstream";
+
+/**
+ * 駅の混雑が予測される時間帯を iCalendar (.ics) で返す。
+ * 購読URLは誰でも取りに来られるので、キャッシュ済みの予測だけを使い、
+ * まだ予測のない日は含めない (予測プロバイダは呼ばない)。
+ *
+ * - stationId: 駅ID (必須)
+ * - start_date / end_date: 期間。今日から7日以内に限る。省略すると今日から days 日分になるので、
+ *   このURLをカレンダーアプリに購読させると常に直近の予測が表示される
+ * - days: start_date を省略したときの日数 (デフォルト7)
+ * - min_scale: この混雑度以上の時間帯だけを含める (デフォルト CROWDED_SCALE)
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const stationId = searchParams.get("stationId");
+  if (!stationId) {
+    return NextResponse.json(
+      { detail: "stationId is required." },
+      { status: 400 },
+    );
+  }
+
+  const days = Number(searchParams.get("days") ?? MAX_BATCH_DAYS);
+  const today = todayInJapan();
+  const startDate = searchParams.get("start_date") ?? today;
+  const endDate =
+    searchParams.get("end_date") ??
+    (searchParams.get("start_date") ? startDate : addDays(startDate, days - 1));
+  if (
+    !Number.isInteger(days) ||
+    days < 1 ||
+    !isDateString(startDate) ||
+    !isDateString(endDate) ||
+    endDate < startDate
+  ) {
+    return NextResponse.json(
+      { detail: "Invalid date range." },
+      { status: 400 },
+    );
+  }
+  if (startDate < today || endDate > addDays(today, MAX_BATCH_DAYS - 1)) {
+    return NextResponse.json(
+      {
+        detail: `The date range must be within ${MAX_BATCH_DAYS} days from today.`,
+      },
+      { status: 400 },
+    );
+  }
+  const dates = enumerateDates(startDate, endDate);
+  const minScale = Number(searchParams.get("min_scale") ?? CROWDED_SCALE);
+  if (!Number.isFinite(minScale)) {
+    return NextResponse.json(
+      { detail: "min_scale must be a number." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await loadCachedStationForecasts(stationId, dates);
+    if (!result) {
+      return NextResponse.json(
+        { detail: `Station not found: ${stationId}` },
+        { status: 404 },
+      );
+    }
+
+    const { stationName, forecasts } = result;
+    const calendar = buildCrowdCalendar(forecasts, {
+      name: `${stationName}駅の混雑予測`,
+      minScale,
+      pageUrl: (forecast) =>
+        new URL(
+          stationForecastPath(forecast.stationId, forecast.targetDate),
+          request.nextUrl.origin,
+        ).toString(),
+    });
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="crowd-forecast-${startDate}.ics"`,
+        // カレンダーアプリは定期的に取りに来るので1時間使い回す。
+        // その間に誰かが予測した日は、次に取りに来たときに加わる
+        "Cache-Control": "public, max-age=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Error in GET /api/calendar:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(error);
+    }
+    return NextResponse.json(
+      {
+        detail:
+          error instanceof Error ? error.message : "An unknown error occurred.",
+      },
+      { status: 500 },
+    );
+  }
+}
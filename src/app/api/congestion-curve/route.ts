@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { buildCongestionCurve } from "@/lib/congestionCurve";
+import {
+  baselineSummary,
+  type EventPipelineInput,
+  parseEventPipelineInput,
+  passengerSummary,
+  runEventPipeline,
+} from "@/lib/eventPipeline";
+import { getEventPredictor } from "@/lib/eventPredictor";
+import { UpstreamError, upstreamErrorResponse } from "@/lib/upstream";
+
+/**
+ * 駅と日付を指定して、1時間ごとの混雑指数 (24区間) を返す。
+ * リクエストボディは `/api/events` と同じ。曲線の元になったイベント一覧も併せて返す。
+ */
+export async function POST(request: NextRequest) {
+  const predictor = getEventPredictor();
+  if (!predictor) {
+    console.error("Event predictor is not configured.");
+    return NextResponse.json(
+      { detail: "サーバー側でAPIキーが設定されていません。" },
+      { status: 500 },
+    );
+  }
+
+  let input: EventPipelineInput | null;
+  try {
+    input = parseEventPipelineInput(await request.json());
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  if (!input) {
+    return NextResponse.json(
+      {
+        detail:
+          "target_date (YYYY-MM-DD), facility_list, station_name, and station_id are required.",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await runEventPipeline(predictor, input, {
+      refresh: request.nextUrl.searchParams.get("refresh") === "1",
+    });
+    const curve = buildCongestionCurve(
+      result.baseline.passengers,
+      result.baseline.timeZones,
+      result.facilities,
+    );
+
+    return NextResponse.json({
+      station_id: input.stationId,
+      target_date: input.targetDate,
+      ...curve,
+      facilities: result.facilities,
+      warnings: result.warnings,
+      cached: result.cached,
+      passengers: passengerSummary(result),
+      baseline: baselineSummary(result.baseline),
+      degraded: result.degraded,
+    });
+  } catch (error) {
+    console.error("Error in POST /api/congestion-curve:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(error);
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { detail: "イベント予測の応答からJSONを復元できませんでした。" },
+        { status: 500 },
+      );
+    }
+    return NextResponse.json(
+      {
+        detail:
+          error instanceof Error ? error.message : "An unknown error occurred.",
+        error: String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { runCrowdAlerts } from "@/lib/alertJob";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * 混雑アラートの定期実行。購読などはローカルの JSON ファイルに保存するので、
+ * 同じファイルを読み書きできるサーバー上の cron などから毎晩呼ぶ (README の Deployment を参照)。
+ * `Authorization: Bearer <CRON_SECRET>` で認証する。
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+
+  const origin = process.env.SITE_URL ?? request.nextUrl.origin;
+  const summary = await runCrowdAlerts(origin);
+  console.log("Crowd alert job finished:", summary);
+  return NextResponse.json(summary);
+}
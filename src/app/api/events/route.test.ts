@@ -0,0 +1,93 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { replayUpstream, type UpstreamScenario } from "@/test/upstreamReplay";
+
+const REQUEST_BODY = {
+  station_id: "odpt.Station:TokyoMetro.Marunouchi.Korakuen",
+  station_name: "後楽園",
+  target_date: "2026-11-03",
+  facility_list: ["文京シビックホール", "後楽園ホール"],
+};
+
+async function postEvents(
+  scenario?: UpstreamScenario,
+  body: unknown = REQUEST_BODY,
+) {
+  replayUpstream(scenario);
+  const { POST } = await import("./route");
+  const response = await POST(
+    new NextRequest("http://localhost/api/events", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+describe("POST /api/events", () => {
+  it("predicts the events and scores them against the station's holiday baseline", async () => {
+    const { status, body } = await postEvents();
+
+    expect(status).toBe(200);
+    expect(body.cached).toBe(false);
+    expect(body.degraded).toEqual([]);
+    // 丸ノ内線と南北線の後楽園駅でまとめられた乗降人員
+    expect(body.passengers).toEqual({
+      daily: 100329,
+      source: "survey",
+      matched_station_id: REQUEST_BODY.station_id,
+    });
+    expect(body.baseline).toMatchObject({
+      day_type: "holiday",
+      source: "timetable",
+    });
+    expect(
+      body.facilities.map((f: { facility_name: string }) => f.facility_name),
+    ).toEqual(REQUEST_BODY.facility_list);
+    for (const facility of body.facilities) {
+      for (const event of facility.events) {
+        expect(event.scale).toBeGreaterThanOrEqual(1);
+        expect(event.scale).toBeLessThanOrEqual(10);
+      }
+    }
+  });
+
+  it("rejects a request without target_date", async () => {
+    const { target_date: _, ...withoutDate } = REQUEST_BODY;
+    const { status } = await postEvents(undefined, withoutDate);
+
+    expect(status).toBe(400);
+  });
+
+  it("rejects a target_date that is not a date", async () => {
+    for (const target_date of ["../../package", "2026-02-30", "20261103"]) {
+      const { status, body } = await postEvents(undefined, {
+        ...REQUEST_BODY,
+        target_date,
+      });
+
+      expect(status).toBe(400);
+      expect(body.detail).toMatch(/YYYY-MM-DD/);
+    }
+  });
+
+  it("returns 502 when Gemini is rate-limited", async () => {
+    const { status, body } = await postEvents("rate-limited");
+
+    expect(status).toBe(502);
+    expect(body.upstream).toMatchObject({
+      source: "gemini",
+      status: 429,
+      retryable: true,
+    });
+  });
+
+  it("returns 500 when the model response has no JSON", async () => {
+    const { status, body } = await postEvents("malformed");
+
+    expect(status).toBe(500);
+    expect(body.detail).toBe(
+      "イベント予測の応答からJSONを復元できませんでした。",
+    );
+  });
+});
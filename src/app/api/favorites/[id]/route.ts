@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { userFromRequest } from "@/lib/accounts";
+import { deleteFavorite, renameFavorite } from "@/lib/favorites";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** 表示名を変える。ボディは { name } (null または空文字で「路線・駅」表示に戻す) */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = await userFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  const { id } = await params;
+
+  let name: unknown;
+  try {
+    ({ name } = await request.json());
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  if (name !== null && typeof name !== "string") {
+    return NextResponse.json(
+      { detail: "name must be a string or null." },
+      { status: 400 },
+    );
+  }
+
+  const favorite = await renameFavorite(user.id, id, name);
+  if (!favorite) {
+    return NextResponse.json(
+      { detail: "Favorite not found." },
+      { status: 404 },
+    );
+  }
+  return NextResponse.json(favorite);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await userFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  const { id } = await params;
+  if (!(await deleteFavorite(user.id, id))) {
+    return NextResponse.json(
+      { detail: "Favorite not found." },
+      { status: 404 },
+    );
+  }
+  return new NextResponse(null, { status: 204 });
+}
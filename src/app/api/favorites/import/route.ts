@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { userFromRequest } from "@/lib/accounts";
+import {
+  type FavoriteInput,
+  importFavorites,
+  parseFavoriteInput,
+} from "@/lib/favorites";
+
+/**
+ * localStorage (imaaiteru-kun-favorites) に保存していたお気に入りを取り込む。
+ * ボディは { favorites: [{ railwayId, stationId, railwayLabel, stationLabel, count }] }。
+ * 不正な項目は読み飛ばす。
+ */
+export async function POST(request: NextRequest) {
+  const user = await userFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+
+  let favorites: unknown;
+  try {
+    ({ favorites } = await request.json());
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  if (!Array.isArray(favorites)) {
+    return NextResponse.json(
+      { detail: "favorites must be an array." },
+      { status: 400 },
+    );
+  }
+
+  const inputs = favorites
+    .map((item) =>
+      parseFavoriteInput({
+        railway_id: item?.railwayId,
+        station_id: item?.stationId,
+        railway_label: item?.railwayLabel,
+        station_label: item?.stationLabel,
+        count: item?.count,
+      }),
+    )
+    .filter((input): input is FavoriteInput => typeof input !== "string");
+  return NextResponse.json(await importFavorites(user.id, inputs));
+}
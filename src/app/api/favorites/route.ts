@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { userFromRequest } from "@/lib/accounts";
+import {
+  addFavorite,
+  listFavorites,
+  parseFavoriteInput,
+  reorderFavorites,
+} from "@/lib/favorites";
+
+/** ログイン中のユーザーのお気に入りを並び順で返す */
+export async function GET(request: NextRequest) {
+  const user = await userFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  return NextResponse.json(await listFavorites(user.id));
+}
+
+/** お気に入りを追加する。同じ路線・駅がすでにあれば検索回数を加算する */
+export async function POST(request: NextRequest) {
+  const user = await userFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+
+  let input: ReturnType<typeof parseFavoriteInput>;
+  try {
+    input = parseFavoriteInput(await request.json());
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  if (typeof input === "string") {
+    return NextResponse.json({ detail: input }, { status: 400 });
+  }
+  return NextResponse.json(await addFavorite(user.id, input));
+}
+
+/** 並べ替える。ボディは { ids: [...] } (先頭から順に並べる) */
+export async function PUT(request: NextRequest) {
+  const user = await userFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+
+  let ids: unknown;
+  try {
+    ({ ids } = await request.json());
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  if (!Array.isArray(ids) || !ids.every((id) => typeof id === "string")) {
+    return NextResponse.json(
+      { detail: "ids must be an array of strings." },
+      { status: 400 },
+    );
+  }
+  return NextResponse.json(await reorderFavorites(user.id, ids));
+}
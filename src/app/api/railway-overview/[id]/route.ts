@@ -0,0 +1,24 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import {
+  drainRailwayOverviewQueue,
+  getRailwayOverviewJob,
+  isRailwayOverviewPending,
+} from "@/lib/railwayOverview";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * 路線の混雑予測ジョブの進み具合。終わった駅から順に結果が入る。
+ * 終わっていなければ待ち行列の処理を促すので、処理していたプロセスが止まっていても再開する。
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const job = await getRailwayOverviewJob(id);
+  if (!job) {
+    return NextResponse.json({ detail: "Job not found." }, { status: 404 });
+  }
+  if (isRailwayOverviewPending(job)) {
+    after(drainRailwayOverviewQueue);
+  }
+  return NextResponse.json(job);
+}
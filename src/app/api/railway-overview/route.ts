@@ -0,0 +1,86 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import { isDateString } from "@/lib/calendar";
+import { getEventPredictor } from "@/lib/eventPredictor";
+import {
+  drainRailwayOverviewQueue,
+  enqueueRailwayOverview,
+  isRailwayOverviewPending,
+} from "@/lib/railwayOverview";
+import { clientAddress } from "@/lib/rateLimit";
+import { UpstreamError, upstreamErrorResponse } from "@/lib/upstream";
+
+/**
+ * 路線の全駅の混雑予測ジョブを始める。{ railway_id, date } を受け取り、ジョブを返す。
+ * 予測は待ち行列で順に進むので、`/api/railway-overview/<id>` で進み具合を取得する。
+ * 新しく積めるジョブの数はクライアントのIPアドレスごとに制限する。
+ */
+export async function POST(request: NextRequest) {
+  if (!process.env.YAHOO_CLIENT_ID || !getEventPredictor()) {
+    console.error("YAHOO_CLIENT_ID or event predictor is not configured.");
+    return NextResponse.json(
+      { detail: "サーバー側でAPIキーが設定されていません。" },
+      { status: 500 },
+    );
+  }
+
+  let body: { railway_id?: unknown; date?: unknown };
+  try {
+    body = await request.json();
+  } catch (_error) {
+    return NextResponse.json(
+      { detail: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+  const { railway_id: railwayId, date } = body;
+  if (typeof railwayId !== "string" || !railwayId || !isDateString(date)) {
+    return NextResponse.json(
+      { detail: "railway_id and date (YYYY-MM-DD) are required." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const job = await enqueueRailwayOverview(railwayId, date, {
+      client: clientAddress(request),
+    });
+    if (job === null) {
+      return NextResponse.json(
+        { detail: "Railway not found." },
+        { status: 404 },
+      );
+    }
+    if (job === "queue_full") {
+      return NextResponse.json(
+        {
+          detail:
+            "混雑予測の待ち行列が混み合っています。時間をおいてお試しください。",
+        },
+        { status: 503, headers: { "Retry-After": "60" } },
+      );
+    }
+    if (job === "rate_limited") {
+      return NextResponse.json(
+        {
+          detail: "混雑予測の依頼が多すぎます。時間をおいてお試しください。",
+        },
+        { status: 429, headers: { "Retry-After": "600" } },
+      );
+    }
+    if (!isRailwayOverviewPending(job)) {
+      return NextResponse.json(job);
+    }
+    // レスポンスを返したあとで待ち行列を進める
+    after(drainRailwayOverviewQueue);
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error("Failed to start railway overview:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(error);
+    }
+    return NextResponse.json(
+      { detail: "Failed to start railway overview." },
+      { status: 500 },
+    );
+  }
+}
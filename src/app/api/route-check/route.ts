@@ -0,0 +1,107 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import { isDateString } from "@/lib/calendar";
+import { getEventPredictor } from "@/lib/eventPredictor";
+import {
+  drainRailwayOverviewQueue,
+  isRailwayOverviewPending,
+} from "@/lib/railwayOverview";
+import { clientAddress } from "@/lib/rateLimit";
+import { checkRoute } from "@/lib/routeCheck";
+import { UpstreamError, upstreamErrorResponse } from "@/lib/upstream";
+
+/**
+ * 乗車駅から降車駅までの区間の混雑。
+ * `?railwayId=&originStationId=&destinationStationId=&date=&hour=` (hour は任意)。
+ * 駅の予測は待ち行列で順に進むので、status が done になるまで同じURLを呼び直す。
+ */
+export async function GET(request: NextRequest) {
+  if (!process.env.YAHOO_CLIENT_ID || !getEventPredictor()) {
+    console.error("YAHOO_CLIENT_ID or event predictor is not configured.");
+    return NextResponse.json(
+      { detail: "サーバー側でAPIキーが設定されていません。" },
+      { status: 500 },
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const railwayId = searchParams.get("railwayId");
+  const originStationId = searchParams.get("originStationId");
+  const destinationStationId = searchParams.get("destinationStationId");
+  const date = searchParams.get("date");
+  const hourParam = searchParams.get("hour");
+  const hour =
+    hourParam === null || hourParam === "" ? null : Number(hourParam);
+  if (
+    !railwayId ||
+    !originStationId ||
+    !destinationStationId ||
+    !isDateString(date)
+  ) {
+    return NextResponse.json(
+      {
+        detail:
+          "railwayId, originStationId, destinationStationId and date (YYYY-MM-DD) are required.",
+      },
+      { status: 400 },
+    );
+  }
+  if (hour !== null && !(Number.isInteger(hour) && hour >= 0 && hour < 24)) {
+    return NextResponse.json(
+      { detail: "hour must be an integer between 0 and 23." },
+      { status: 400 },
+    );
+  }
+  if (originStationId === destinationStationId) {
+    return NextResponse.json(
+      { detail: "Origin and destination must be different stations." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await checkRoute({
+      railwayId,
+      originStationId,
+      destinationStationId,
+      targetDate: date,
+      hour,
+      client: clientAddress(request),
+    });
+    if (result === null) {
+      return NextResponse.json(
+        { detail: "Origin and destination must be stations on the railway." },
+        { status: 404 },
+      );
+    }
+    if (result === "queue_full") {
+      return NextResponse.json(
+        {
+          detail:
+            "混雑予測の待ち行列が混み合っています。時間をおいてお試しください。",
+        },
+        { status: 503, headers: { "Retry-After": "60" } },
+      );
+    }
+    if (result === "rate_limited") {
+      return NextResponse.json(
+        {
+          detail: "混雑予測の依頼が多すぎます。時間をおいてお試しください。",
+        },
+        { status: 429, headers: { "Retry-After": "600" } },
+      );
+    }
+    if (isRailwayOverviewPending(result)) {
+      after(drainRailwayOverviewQueue);
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to check route congestion:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(error);
+    }
+    return NextResponse.json(
+      { detail: "Failed to check route congestion." },
+      { status: 500 },
+    );
+  }
+}
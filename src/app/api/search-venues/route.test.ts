@@ -0,0 +1,65 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { replayUpstream, type UpstreamScenario } from "@/test/upstreamReplay";
+
+const KORAKUEN = "odpt.Station:TokyoMetro.Marunouchi.Korakuen";
+
+async function searchVenues(scenario?: UpstreamScenario) {
+  replayUpstream(scenario);
+  const { GET } = await import("./route");
+  const params = new URLSearchParams({
+    stationId: KORAKUEN,
+    stationName: "後楽園",
+  });
+  const response = await GET(
+    new NextRequest(`http://localhost/api/search-venues?${params}`),
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+describe("GET /api/search-venues", () => {
+  it("locates the station with ODPT and filters the venues around it", async () => {
+    const { status, body } = await searchVenues();
+
+    expect(status).toBe(200);
+    expect(body.search_station).toBe("後楽園");
+    expect(body.coordinates).toEqual({ lat: "35.707898", lon: "139.751891" });
+    expect(body.coordinates_source).toBe("odpt");
+    expect(body.degraded).toEqual([]);
+    // 入口の重複・チケット売場・教室を除いた施設
+    const names = body.venue_results.Feature.map(
+      (f: { Name: string }) => f.Name,
+    );
+    expect(names).toEqual([
+      "東京ドーム",
+      "後楽園ホール",
+      "東京ドームシティホール",
+      "東京ドームホテル",
+      "文京シビックホール",
+    ]);
+    expect(body.venue_results.ResultInfo.Count).toBe(names.length);
+    expect(body.venue_results.Feature[0].Category).toBe("スタジアム、競技場");
+  });
+
+  it("falls back to geocoding and returns 502 when ODPT and Yahoo! are rate-limited", async () => {
+    const { status, body } = await searchVenues("rate-limited");
+
+    expect(status).toBe(502);
+    expect(body.upstream).toMatchObject({
+      source: "yahoo",
+      status: 429,
+      retryable: true,
+    });
+  });
+
+  it("returns 502 when Yahoo! returns a malformed body", async () => {
+    const { status, body } = await searchVenues("malformed");
+
+    expect(status).toBe(502);
+    expect(body.upstream).toMatchObject({
+      source: "yahoo",
+      retryable: false,
+      message: "Invalid JSON in venues",
+    });
+  });
+});
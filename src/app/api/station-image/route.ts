@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getStationImage } from "@/lib/stationImage";
+import { UpstreamError, upstreamErrorResponse } from "@/lib/upstream";
+
+/**
+ * 駅の Wikipedia 記事の画像と、そのクレジット (作者・ライセンス) を返す。
+ * 駅名と座標は ODPT から引く。画像がなければ image は null。
+ */
+export async function GET(request: NextRequest) {
+  const stationId = request.nextUrl.searchParams.get("stationId");
+  if (!stationId) {
+    return NextResponse.json(
+      { detail: "stationId is required." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await getStationImage(stationId);
+    if (!result) {
+      return NextResponse.json(
+        { detail: `Station not found: ${stationId}` },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ station_id: stationId, image: result.image });
+  } catch (error) {
+    if (error instanceof UpstreamError) {
+      console.error("Upstream error in GET /api/station-image:", error);
+      return upstreamErrorResponse(error);
+    }
+    console.error("Error in GET /api/station-image:", error);
+    return NextResponse.json(
+      { detail: "駅の画像の取得に失敗しました。" },
+      { status: 500 },
+    );
+  }
+}
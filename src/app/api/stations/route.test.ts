@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { replayUpstream, type UpstreamScenario } from "@/test/upstreamReplay";
+
+const RAILWAY_ID = "odpt.Railway:TokyoMetro.MarunouchiBranch";
+
+async function getStations(
+  scenario?: UpstreamScenario,
+  railwayId = RAILWAY_ID,
+) {
+  replayUpstream(scenario);
+  const { GET } = await import("./route");
+  const { getUpstreamMetrics } = await import("@/lib/httpClient");
+  const query = railwayId ? `?railwayId=${encodeURIComponent(railwayId)}` : "";
+  const response = await GET(
+    new NextRequest(`http://localhost/api/stations${query}`),
+  );
+  return {
+    status: response.status,
+    body: await response.json(),
+    metrics: getUpstreamMetrics(),
+  };
+}
+
+describe("GET /api/stations", () => {
+  it("returns the stations of the railway with coordinates", async () => {
+    const { status, body } = await getStations();
+
+    expect(status).toBe(200);
+    expect(body.map((s: { label: string }) => s.label)).toEqual([
+      "中野坂上",
+      "中野新橋",
+      "中野富士見町",
+      "方南町",
+    ]);
+    expect(body[3]).toEqual({
+      label: "方南町",
+      value: "odpt.Station:TokyoMetro.MarunouchiBranch.Honancho",
+      lat: 35.682709,
+      lon: 139.656342,
+    });
+  });
+
+  it("requires railwayId", async () => {
+    const { status, body } = await getStations(undefined, "");
+
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: "railwayId is required" });
+  });
+
+  it("retries a rate-limited ODPT and then returns 502", async () => {
+    const { status, body, metrics } = await getStations("rate-limited");
+
+    expect(status).toBe(502);
+    expect(body.upstream).toMatchObject({
+      source: "odpt",
+      status: 429,
+      retryable: true,
+    });
+    expect(metrics.odpt).toMatchObject({ requests: 3, retries: 2 });
+  });
+
+  it("returns 502 without retrying when ODPT returns a malformed body", async () => {
+    const { status, body, metrics } = await getStations("malformed");
+
+    expect(status).toBe(502);
+    expect(body.upstream).toMatchObject({
+      source: "odpt",
+      retryable: false,
+      message: "Invalid JSON in stations",
+    });
+    expect(metrics.odpt).toMatchObject({ requests: 1, retries: 0 });
+  });
+});
@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { fetchStationsByRailway } from "@/lib/odpt";
+import { UpstreamError, upstreamErrorResponse } from "@/lib/upstream";
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -17,6 +18,9 @@ export async function GET(request: NextRequest) {
     return NextResponse.json(stations);
   } catch (error) {
     console.error("Failed to fetch stations via API route:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(error);
+    }
     return NextResponse.json(
       { error: "Failed to fetch stations" },
       { status: 500 },
@@ -0,0 +1,6 @@
+import { openApiDocument } from "@/lib/openapi";
+
+/** API キーなしで取得できる OpenAPI ドキュメント */
+export async function GET() {
+  return Response.json(openApiDocument);
+}
@@ -0,0 +1,17 @@
+import { withApiKey } from "@/lib/apiV1";
+import { fetchRailwayOptions } from "@/lib/odpt";
+
+/** 全事業者の路線 */
+export const GET = withApiKey(async () => {
+  const railways = await fetchRailwayOptions();
+  return Response.json({
+    railways: railways.map((railway) => ({
+      id: railway.value,
+      name: railway.label,
+      operator_id: railway.operator ?? null,
+      operator_name: railway.operatorLabel ?? null,
+      code: railway.code ?? null,
+      color: railway.color ?? null,
+    })),
+  });
+});
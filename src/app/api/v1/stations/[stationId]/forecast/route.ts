@@ -0,0 +1,64 @@
+import type { NextRequest } from "next/server";
+import { apiError, toV1Forecast, withApiKey } from "@/lib/apiV1";
+import { enumerateDates, isDateString } from "@/lib/calendar";
+import { MAX_BATCH_DAYS } from "@/lib/eventPipeline";
+import {
+  loadStationForecast,
+  loadStationForecasts,
+} from "@/lib/stationForecast";
+
+type RouteContext = { params: Promise<{ stationId: string }> };
+
+// ?date= なら1日、?start_date=&end_date= なら期間内の日付
+function requestedDates(request: NextRequest): string[] | string {
+  const { searchParams } = request.nextUrl;
+  const date = searchParams.get("date");
+  if (date) {
+    return isDateString(date) ? [date] : "date must be in YYYY-MM-DD format.";
+  }
+  const startDate = searchParams.get("start_date");
+  const endDate = searchParams.get("end_date") ?? startDate;
+  if (!isDateString(startDate) || !isDateString(endDate)) {
+    return "date, or start_date and end_date, must be given in YYYY-MM-DD format.";
+  }
+  if (endDate < startDate) {
+    return "end_date must not be before start_date.";
+  }
+  const dates = enumerateDates(startDate, endDate);
+  return dates.length > MAX_BATCH_DAYS
+    ? `The date range must be at most ${MAX_BATCH_DAYS} days.`
+    : dates;
+}
+
+/**
+ * 駅の1時間ごとの混雑指数と、混雑が予測される時間帯。
+ * 日付ごとに予測するので、レート制限は日数分を消費する。
+ */
+export const GET = withApiKey(
+  async (request, { params }: RouteContext) => {
+    const dates = requestedDates(request);
+    if (typeof dates === "string") {
+      return apiError(400, "bad_request", dates);
+    }
+    const stationId = decodeURIComponent((await params).stationId);
+
+    if (dates.length === 1) {
+      const forecast = await loadStationForecast(stationId, dates[0]);
+      if (!forecast) {
+        return apiError(404, "not_found", `Station not found: ${stationId}`);
+      }
+      return Response.json({ forecasts: [toV1Forecast(forecast)] });
+    }
+    const forecasts = await loadStationForecasts(stationId, dates);
+    if (!forecasts) {
+      return apiError(404, "not_found", `Station not found: ${stationId}`);
+    }
+    return Response.json({ forecasts: forecasts.map(toV1Forecast) });
+  },
+  {
+    cost: (request) => {
+      const dates = requestedDates(request);
+      return typeof dates === "string" ? 1 : dates.length;
+    },
+  },
+);
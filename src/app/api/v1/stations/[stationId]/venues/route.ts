@@ -0,0 +1,32 @@
+import { apiError, toV1Venue, withApiKey } from "@/lib/apiV1";
+import { fetchStationById } from "@/lib/odpt";
+import { findVenuesNearStation, locateStation } from "@/lib/venueSearch";
+
+type RouteContext = { params: Promise<{ stationId: string }> };
+
+/** 駅の周辺でイベント会場として扱う施設 */
+export const GET = withApiKey(async (_request, { params }: RouteContext) => {
+  const clientId = process.env.YAHOO_CLIENT_ID;
+  if (!clientId) {
+    console.error("YAHOO_CLIENT_ID is not configured.");
+    return apiError(500, "internal_error", "Venue search is not configured.");
+  }
+
+  const stationId = decodeURIComponent((await params).stationId);
+  const station = await fetchStationById(stationId);
+  const location = station
+    ? await locateStation({ stationId, stationName: station.label })
+    : null;
+  if (!station || !location) {
+    return apiError(404, "not_found", `Station not found: ${stationId}`);
+  }
+
+  const venueResults = await findVenuesNearStation(clientId, location);
+  return Response.json({
+    station_id: stationId,
+    station_name: station.label,
+    coordinates: { lat: Number(location.lat), lon: Number(location.lon) },
+    venues: venueResults.Feature.map(toV1Venue),
+    degraded: location.degraded,
+  });
+});
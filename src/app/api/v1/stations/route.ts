@@ -0,0 +1,19 @@
+import { apiError, withApiKey } from "@/lib/apiV1";
+import { fetchStationsByRailway } from "@/lib/odpt";
+
+/** 路線の駅 (?railway_id=) */
+export const GET = withApiKey(async (request) => {
+  const railwayId = request.nextUrl.searchParams.get("railway_id");
+  if (!railwayId) {
+    return apiError(400, "bad_request", "railway_id is required.");
+  }
+  const stations = await fetchStationsByRailway(railwayId);
+  return Response.json({
+    stations: stations.map((station) => ({
+      id: station.value,
+      name: station.label,
+      lat: station.lat ?? null,
+      lon: station.lon ?? null,
+    })),
+  });
+});
@@ -0,0 +1,196 @@
+import type { NextRequest } from "next/server";
+import { isDateString } from "@/lib/calendar";
+import { buildCongestionCurve } from "@/lib/congestionCurve";
+import {
+  baselineSummary,
+  passengerSummary,
+  runEventPipeline,
+} from "@/lib/eventPipeline";
+import { getEventPredictor } from "@/lib/eventPredictor";
+import { UpstreamError } from "@/lib/upstream";
+import { findVenuesNearStation, locateStation } from "@/lib/venueSearch";
+
+export const dynamic = "force-dynamic";
+
+// 進捗 (%) の目安。イベント予測は全施設をまとめて1回だけ問い合わせ、
+// 応答から施設が読めるたびに events から scoring まで進める
+const PROGRESS = {
+  geocode: 5,
+  venues: 15,
+  passengers: 30,
+  events: 35,
+  scoring: 95,
+  done: 100,
+};
+
+/**
+ * 駅周辺の会場検索からイベント予測・混雑度の算出までを実行し、
+ * 各段階の進捗と結果を Server-Sent Events で順に返す。
+ *
+ * イベント:
+ * - stage: { stage, progress, message } 処理の段階が進んだ
+ * - venues: `/api/search-venues` と同じ形式の会場検索結果
+ * - facility: 予測できた施設1件 (result の facilities の要素と同じ形式)。
+ *   予測プロバイダの応答をストリーミングで読み、全施設の予測を待たずに送る。
+ *   キャッシュ済みの予測を使う場合は送らない
+ * - result: `/api/congestion-curve` と同じ形式の最終結果。degraded は駅の位置の分も含む
+ * - pipeline-error: { detail, upstream? } エラーで処理を中断した。
+ *   外部APIの障害なら upstream に発生元と再試行の可否を入れる
+ *
+ * クライアントが切断したら、予測プロバイダへの問い合わせも中断する。
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const stationName = searchParams.get("stationName");
+  const stationId = searchParams.get("stationId");
+  const date = searchParams.get("date");
+  const refresh = searchParams.get("refresh") === "1";
+
+  if (!stationName || !stationId || !isDateString(date)) {
+    return Response.json(
+      { detail: "stationName, stationId, and date (YYYY-MM-DD) are required." },
+      { status: 400 },
+    );
+  }
+
+  const clientId = process.env.YAHOO_CLIENT_ID;
+  const predictor = getEventPredictor();
+  if (!clientId || !predictor) {
+    console.error("YAHOO_CLIENT_ID or event predictor is not configured.");
+    return Response.json({ detail: "サーバー設定エラー" }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      request.signal.addEventListener("abort", () => {
+        closed = true;
+      });
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+        );
+      };
+      const stage = (name: string, progress: number, message: string) =>
+        send("stage", { stage: name, progress, message });
+
+      try {
+        // 1. 駅の位置を求める
+        stage("geocode", PROGRESS.geocode, "駅の位置を調べています...");
+        const location = await locateStation({ stationId, stationName });
+        if (!location) {
+          send("pipeline-error", {
+            detail: `「${stationName}」の座標が見つかりません。`,
+          });
+          return;
+        }
+
+        // 2. 周辺の会場を検索する
+        stage("venues", PROGRESS.venues, "周辺の施設を検索しています...");
+        const venueResults = await findVenuesNearStation(clientId, location);
+        send("venues", {
+          search_station: location.displayName,
+          coordinates: { lat: location.lat, lon: location.lon },
+          coordinates_source: location.source,
+          venue_results: venueResults,
+          degraded: location.degraded,
+        });
+
+        // 3. 乗降者数を調べ、施設ごとのイベントを予測する
+        stage(
+          "passengers",
+          PROGRESS.passengers,
+          "駅の利用者数を調べています...",
+        );
+        const venues = venueResults.Feature;
+        let predicted = 0;
+        const result = await runEventPipeline(
+          predictor,
+          {
+            stationId,
+            stationName,
+            targetDate: date,
+            facilityList: venues.map((venue) => venue.Name),
+            facilityIds: Object.fromEntries(
+              venues.map((venue) => [venue.Name, venue.Id]),
+            ),
+          },
+          {
+            refresh,
+            signal: request.signal,
+            onStationLoad: () =>
+              stage(
+                "events",
+                PROGRESS.events,
+                `イベント情報を分析し、混雑を予測しています... (AI・${venues.length}施設)`,
+              ),
+            onFacility: (facility) => {
+              predicted += 1;
+              send("facility", facility);
+              const done = Math.min(predicted, venues.length);
+              stage(
+                "events",
+                PROGRESS.events +
+                  Math.floor(
+                    ((PROGRESS.scoring - PROGRESS.events) * done) /
+                      venues.length,
+                  ),
+                `イベント情報を分析し、混雑を予測しています... (AI・${done}/${venues.length}施設)`,
+              );
+            },
+          },
+        );
+
+        // 4. 1時間ごとの混雑指数を求める
+        stage("scoring", PROGRESS.scoring, "混雑度を計算しています...");
+        send("result", {
+          station_id: stationId,
+          target_date: date,
+          ...buildCongestionCurve(
+            result.baseline.passengers,
+            result.baseline.timeZones,
+            result.facilities,
+          ),
+          facilities: result.facilities,
+          warnings: result.warnings,
+          cached: result.cached,
+          passengers: passengerSummary(result),
+          baseline: baselineSummary(result.baseline),
+          degraded: [...location.degraded, ...result.degraded],
+        });
+        stage("done", PROGRESS.done, "完了！");
+      } catch (error) {
+        // 切断で中断した場合は送り先がない
+        if (closed) return;
+        console.error("Error in GET /api/venues/stream:", error);
+        if (error instanceof UpstreamError) {
+          send("pipeline-error", {
+            detail: error.message,
+            upstream: error.toJSON(),
+          });
+          return;
+        }
+        send("pipeline-error", {
+          detail:
+            error instanceof SyntaxError
+              ? "イベント予測の応答からJSONを復元できませんでした。"
+              : error instanceof Error
+                ? error.message
+                : "An unknown error occurred.",
+        });
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
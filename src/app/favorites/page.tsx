@@ -0,0 +1,160 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+// --- 型定義 ---
+interface Favorite {
+  id: string;
+  railway_label: string;
+  station_label: string;
+  name: string | null;
+  count: number;
+}
+
+const defaultLabel = (fav: Favorite) =>
+  `${fav.railway_label}・${fav.station_label}`;
+
+export default function FavoritesPage() {
+  const [favorites, setFavorites] = useState<Favorite[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchFavorites = async () => {
+      const res = await fetch("/api/favorites");
+      if (res.status === 401) {
+        setError("ログインが必要です。");
+        return;
+      }
+      if (!res.ok) {
+        setError("お気に入りの取得に失敗しました。");
+        return;
+      }
+      setFavorites(await res.json());
+    };
+    fetchFavorites();
+  }, []);
+
+  const handleRename = async (fav: Favorite, name: string) => {
+    if ((fav.name ?? "") === name.trim()) return;
+    const res = await fetch(`/api/favorites/${fav.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    if (res.ok) {
+      const updated: Favorite = await res.json();
+      setFavorites((prev) =>
+        (prev ?? []).map((f) => (f.id === updated.id ? updated : f)),
+      );
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    if (!favorites) return;
+    const ids = favorites.map((f) => f.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    const res = await fetch("/api/favorites", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids }),
+    });
+    if (res.ok) {
+      setFavorites(await res.json());
+    }
+  };
+
+  const handleDelete = async (fav: Favorite) => {
+    const res = await fetch(`/api/favorites/${fav.id}`, { method: "DELETE" });
+    if (res.ok) {
+      setFavorites((prev) => (prev ?? []).filter((f) => f.id !== fav.id));
+    }
+  };
+
+  const renderContent = () => {
+    if (error) {
+      return (
+        <p className="text-red-500">
+          {error}{" "}
+          <Link href="/login" className="text-pink-500 hover:text-pink-700">
+            ログイン
+          </Link>
+        </p>
+      );
+    }
+    if (!favorites) {
+      return <p className="text-sm text-gray-600">読み込み中...</p>;
+    }
+    if (favorites.length === 0) {
+      return (
+        <p className="text-sm text-gray-600">
+          お気に入りはまだありません。駅を検索すると追加されます。
+        </p>
+      );
+    }
+    return (
+      <ul className="space-y-2">
+        {favorites.map((fav, index) => (
+          <li
+            key={fav.id}
+            className="flex items-center gap-2 border border-pink-200 rounded-lg p-2"
+          >
+            <div className="flex flex-col">
+              <button
+                type="button"
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+                aria-label="上へ"
+                className="text-xs text-gray-500 hover:text-pink-600 disabled:opacity-30"
+              >
+                ▲
+              </button>
+              <button
+                type="button"
+                onClick={() => handleMove(index, 1)}
+                disabled={index === favorites.length - 1}
+                aria-label="下へ"
+                className="text-xs text-gray-500 hover:text-pink-600 disabled:opacity-30"
+              >
+                ▼
+              </button>
+            </div>
+            <input
+              type="text"
+              defaultValue={fav.name ?? ""}
+              placeholder={defaultLabel(fav)}
+              onBlur={(e) => handleRename(fav, e.target.value)}
+              className="flex-1 bg-pink-50 text-gray-900 text-sm rounded px-2 py-1 outline-none focus:ring-2 focus:ring-pink-300"
+            />
+            <button
+              type="button"
+              onClick={() => handleDelete(fav)}
+              className="text-xs text-gray-500 hover:text-red-600"
+            >
+              削除
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white px-4 py-6">
+      <Link
+        href="/"
+        className="text-pink-500 hover:text-pink-700 mb-4 inline-block"
+      >
+        ← 戻る
+      </Link>
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-xl font-bold text-gray-700">お気に入りの編集</h1>
+        <p className="text-xs text-gray-500">
+          名前を空にすると「路線・駅」で表示します。
+        </p>
+        {renderContent()}
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  // 共有用ページの OpenGraph 画像などを絶対URLにするための公開URL
+  metadataBase: new URL(process.env.SITE_URL ?? "http://localhost:3000"),
   title: "いつ空いてる?",
   description: "電車の空き状況を検索",
 };
@@ -0,0 +1,92 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useState } from "react";
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const [email, setEmail] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(
+    searchParams.get("error") === "expired"
+      ? "ログインリンクが無効か、有効期限が切れています。もう一度お試しください。"
+      : null,
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.detail || "送信に失敗しました。");
+      }
+      setSent(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "送信に失敗しました。");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <p className="text-sm text-gray-700">
+        {email}{" "}
+        にログインリンクを送りました。メールのリンクを開くとログインできます。
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        ログインすると、お気に入りの駅を他の端末やブラウザでも使えます。
+        この端末のお気に入りはログイン時にアカウントへ引き継がれます。
+      </p>
+      <input
+        type="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="you@example.com"
+        className="w-full bg-pink-100 text-gray-900 rounded-lg px-4 py-3 outline-none border border-transparent focus:ring-2 focus:ring-pink-300"
+      />
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+      <button
+        type="submit"
+        disabled={isSubmitting || !email}
+        className="w-full bg-pink-200 hover:bg-pink-300 text-gray-800 font-medium py-3 rounded-lg transition-colors disabled:opacity-50"
+      >
+        {isSubmitting ? "送信中..." : "ログインリンクを送る"}
+      </button>
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-white px-4 py-6">
+      <Link
+        href="/"
+        className="text-pink-500 hover:text-pink-700 mb-4 inline-block"
+      >
+        ← 戻る
+      </Link>
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-xl font-bold text-gray-700">ログイン</h1>
+        <Suspense>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
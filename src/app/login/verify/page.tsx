@@ -0,0 +1,48 @@
+import Link from "next/link";
+
+type PageProps = {
+  searchParams: Promise<{ token?: string | string[] }>;
+};
+
+/**
+ * ログインメールのリンクの遷移先。開いただけではログインせず、
+ * ボタンを押したときにトークンを POST してログインする。
+ */
+export default async function VerifyLoginPage({ searchParams }: PageProps) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-white px-4 py-6">
+      <Link
+        href="/"
+        className="text-pink-500 hover:text-pink-700 mb-4 inline-block"
+      >
+        ← 戻る
+      </Link>
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-xl font-bold text-gray-700">ログイン</h1>
+        {typeof token === "string" && token ? (
+          <form method="post" action="/api/auth/verify" className="space-y-4">
+            <input type="hidden" name="token" value={token} />
+            <p className="text-sm text-gray-600">
+              このブラウザでログインします。よろしければボタンを押してください。
+            </p>
+            <button
+              type="submit"
+              className="w-full bg-pink-200 hover:bg-pink-300 text-gray-800 font-medium py-3 rounded-lg transition-colors"
+            >
+              ログインする
+            </button>
+          </form>
+        ) : (
+          <p className="text-red-500 text-sm">
+            ログインリンクが正しくありません。
+            <Link href="/login" className="text-pink-500 hover:text-pink-700">
+              もう一度ログインリンクを送ってください。
+            </Link>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import Truck from "@/components/Truck";
+import { dayLabel, isDateString } from "@/lib/calendar";
+
+// --- 型定義 ---
+interface OverviewStation {
+  station_id: string;
+  station_name: string;
+  status: "pending" | "done" | "failed";
+  hours: number[] | null;
+  quietest_hour: number | null;
+  busiest_hour: number | null;
+  error: string | null;
+}
+interface OverviewJob {
+  id: string;
+  railway_name: string;
+  color: string | null;
+  target_date: string;
+  status: "queued" | "running" | "done" | "failed";
+  queue_position: number;
+  stations: OverviewStation[];
+  error: string | null;
+}
+
+const POLL_INTERVAL_MS = 3000;
+const START_HOUR = 5;
+const END_HOUR = 23;
+const DEFAULT_LINE_COLOR = "#f472b6"; // pink-400
+
+// --- ヘルパー関数 ---
+const formatDate = (date: string) =>
+  `${date.replaceAll("-", "/")} (${dayLabel(date)})`;
+
+const getIndexCellColor = (index: number) => {
+  if (index >= 100) return "bg-red-300";
+  if (index >= 70) return "bg-yellow-200";
+  if (index >= 40) return "bg-blue-100";
+  return "bg-gray-50";
+};
+
+const describeProgress = (job: OverviewJob) => {
+  if (job.status === "queued") {
+    return job.queue_position > 0
+      ? `順番待ちです (前に${job.queue_position}件)`
+      : "まもなく開始します";
+  }
+  const finished = job.stations.filter((s) => s.status !== "pending").length;
+  return `${finished} / ${job.stations.length} 駅を分析しました`;
+};
+
+function RailwayOverview() {
+  const searchParams = useSearchParams();
+  const railwayId = searchParams.get("railwayId");
+  const date = searchParams.get("date");
+
+  const [job, setJob] = useState<OverviewJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!railwayId || !date) {
+      setError("路線または日付が指定されていません。");
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const readJob = async (res: Response): Promise<OverviewJob> => {
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(
+          errorData.detail || `路線の分析に失敗しました (HTTP ${res.status})`,
+        );
+      }
+      return res.json();
+    };
+
+    // 終わるまでジョブの状態を取得し直す
+    const poll = async (jobId: string) => {
+      try {
+        const next = await readJob(
+          await fetch(`/api/railway-overview/${jobId}`),
+        );
+        if (cancelled) return;
+        setJob(next);
+        if (next.status === "queued" || next.status === "running") {
+          timer = setTimeout(() => poll(jobId), POLL_INTERVAL_MS);
+        }
+      } catch (e) {
+        if (!cancelled) {
+          setError(e instanceof Error ? e.message : String(e));
+        }
+      }
+    };
+
+    const start = async () => {
+      setJob(null);
+      setError(null);
+      try {
+        const started = await readJob(
+          await fetch("/api/railway-overview", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ railway_id: railwayId, date }),
+          }),
+        );
+        if (cancelled) return;
+        setJob(started);
+        if (started.status === "queued" || started.status === "running") {
+          timer = setTimeout(() => poll(started.id), POLL_INTERVAL_MS);
+        }
+      } catch (e) {
+        if (!cancelled) {
+          setError(
+            e instanceof Error
+              ? e.message
+              : "データの取得中に不明なエラーが発生しました。",
+          );
+        }
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [railwayId, date]);
+
+  const stationLink = (station: OverviewStation) =>
+    `/venues?stationName=${encodeURIComponent(station.station_name)}&date=${date}&stationId=${encodeURIComponent(station.station_id)}`;
+
+  const renderContent = () => {
+    if (error || job?.status === "failed") {
+      return (
+        <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
+          <div className="font-bold mb-2">❌ エラーが発生しました</div>
+          <pre className="text-sm whitespace-pre-wrap">
+            {error ?? job?.error}
+          </pre>
+        </div>
+      );
+    }
+    if (!job) {
+      return (
+        <div className="py-10">
+          <Truck compact />
+        </div>
+      );
+    }
+    const hours = Array.from(
+      { length: END_HOUR - START_HOUR + 1 },
+      (_, i) => START_HOUR + i,
+    );
+    const lineColor = job.color ?? DEFAULT_LINE_COLOR;
+    return (
+      <>
+        {job.status !== "done" && (
+          <p className="text-sm text-gray-600 mb-3">
+            {describeProgress(job)} (AI)
+          </p>
+        )}
+        <div className="overflow-x-auto border border-pink-200 rounded-lg bg-white shadow-sm">
+          <table className="text-xs text-center border-collapse">
+            <thead>
+              <tr>
+                <th className="sticky left-0 bg-white" />
+                {hours.map((hour) => (
+                  <th
+                    key={hour}
+                    className="py-2 px-0.5 font-medium text-gray-500"
+                  >
+                    {hour}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {job.stations.map((station) => (
+                <tr key={station.station_id}>
+                  <td
+                    className="sticky left-0 bg-white text-left whitespace-nowrap pl-2 pr-2 border-l-4"
+                    style={{ borderLeftColor: lineColor }}
+                  >
+                    <Link
+                      href={stationLink(station)}
+                      className="text-gray-700 hover:text-pink-500"
+                    >
+                      {station.station_name}
+                    </Link>
+                  </td>
+                  {hours.map((hour) => {
+                    if (station.status !== "done" || !station.hours) {
+                      return (
+                        <td
+                          key={hour}
+                          title={station.error ?? "分析中"}
+                          className={`border border-white h-6 w-6 ${station.status === "failed" ? "bg-gray-200" : "bg-white animate-pulse"}`}
+                        />
+                      );
+                    }
+                    const index = station.hours[hour] ?? 0;
+                    return (
+                      <td
+                        key={hour}
+                        title={`${station.station_name} ${hour}時 混雑指数 ${index}`}
+                        className={`border border-white h-6 w-6 ${getIndexCellColor(index)} ${station.busiest_hour === hour ? "ring-2 ring-inset ring-red-400" : ""}`}
+                      />
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          色が濃いほど、その駅のふだんより混雑します。枠線はその駅がいちばん混む時間です。灰色は予測できなかった駅です。
+        </p>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      <div className="px-4 pt-6">
+        <Link
+          href="/"
+          className="text-pink-500 hover:text-pink-700 mb-4 inline-block"
+        >
+          ← 戻る
+        </Link>
+        <div
+          className="max-w-2xl mx-auto pt-2 px-2 text-2xl font-bold text-gray-700 border-b-4"
+          style={{ borderBottomColor: job?.color ?? DEFAULT_LINE_COLOR }}
+        >
+          {job?.railway_name ?? "路線"}
+        </div>
+      </div>
+      <main className="flex-1 px-6 py-2">
+        <div className="max-w-2xl mx-auto pt-3">
+          <h1 className="text-black text-xl font-bold mb-1">
+            路線全体の混雑予測
+          </h1>
+          {isDateString(date) && (
+            <p className="text-sm text-gray-600 mb-3">{formatDate(date)}</p>
+          )}
+          {renderContent()}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default function RailwayOverviewPage() {
+  return (
+    <Suspense>
+      <RailwayOverview />
+    </Suspense>
+  );
+}
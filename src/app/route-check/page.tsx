@@ -0,0 +1,278 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import Truck from "@/components/Truck";
+import { dayLabel, isDateString } from "@/lib/calendar";
+
+// --- 型定義 ---
+interface RouteStation {
+  station_id: string;
+  station_name: string;
+  status: "pending" | "done" | "failed";
+  hours: number[] | null;
+  error: string | null;
+}
+interface RouteHour {
+  hour: number;
+  average_index: number;
+  max_index: number;
+  busiest_station: string | null;
+}
+interface RouteCheck {
+  status: "queued" | "running" | "done" | "failed";
+  queue_position: number;
+  railway_name: string;
+  color: string | null;
+  stations: RouteStation[];
+  hours: RouteHour[];
+  requested_hour: number | null;
+  recommended_hour: number | null;
+}
+
+const POLL_INTERVAL_MS = 3000;
+const START_HOUR = 5;
+const END_HOUR = 23;
+const DEFAULT_LINE_COLOR = "#f472b6"; // pink-400
+
+// --- ヘルパー関数 ---
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+const getIndexCellColor = (index: number) => {
+  if (index >= 100) return "bg-red-300";
+  if (index >= 70) return "bg-yellow-200";
+  if (index >= 40) return "bg-blue-100";
+  return "bg-gray-50";
+};
+
+const describeProgress = (route: RouteCheck) => {
+  if (route.status === "queued" && route.queue_position > 0) {
+    return `順番待ちです (前に${route.queue_position}件)`;
+  }
+  const finished = route.stations.filter((s) => s.status !== "pending").length;
+  return `${finished} / ${route.stations.length} 駅を分析しました`;
+};
+
+function RouteCheckView() {
+  const searchParams = useSearchParams();
+  const query = searchParams.toString();
+  const date = searchParams.get("date");
+
+  const [route, setRoute] = useState<RouteCheck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // 区間のすべての駅の予測が終わるまで、同じURLを呼び直す
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/route-check?${query}`);
+        if (!res.ok) {
+          const errorData = await res.json();
+          throw new Error(
+            errorData.detail ||
+              `区間の混雑の取得に失敗しました (HTTP ${res.status})`,
+          );
+        }
+        const next: RouteCheck = await res.json();
+        if (cancelled) return;
+        setRoute(next);
+        if (next.status === "queued" || next.status === "running") {
+          timer = setTimeout(poll, POLL_INTERVAL_MS);
+        }
+      } catch (e) {
+        if (!cancelled) {
+          setError(
+            e instanceof Error
+              ? e.message
+              : "データの取得中に不明なエラーが発生しました。",
+          );
+        }
+      }
+    };
+
+    setRoute(null);
+    setError(null);
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const renderSummary = (route: RouteCheck) => {
+    const requested =
+      route.requested_hour === null
+        ? null
+        : route.hours.find((h) => h.hour === route.requested_hour);
+    return (
+      <div className="border border-pink-200 rounded-lg bg-white shadow-sm p-3 mb-4 text-sm text-gray-700 space-y-1">
+        {requested && (
+          <p>
+            {formatHour(requested.hour)}ごろの区間の混雑指数: 平均{" "}
+            <span className="font-bold">{requested.average_index}</span>
+            {requested.busiest_station &&
+              ` (最も混む駅: ${requested.busiest_station} ${requested.max_index})`}
+          </p>
+        )}
+        {route.recommended_hour !== null ? (
+          <p>
+            おすすめの出発時刻:{" "}
+            <span className="font-bold text-pink-500">
+              {formatHour(route.recommended_hour)}ごろ
+            </span>
+          </p>
+        ) : (
+          <p className="text-gray-500">{describeProgress(route)} (AI)</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (error || route?.status === "failed") {
+      return (
+        <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
+          <div className="font-bold mb-2">❌ エラーが発生しました</div>
+          <pre className="text-sm whitespace-pre-wrap">
+            {error ?? "区間のすべての駅で予測に失敗しました"}
+          </pre>
+        </div>
+      );
+    }
+    if (!route) {
+      return (
+        <div className="py-10">
+          <Truck compact />
+        </div>
+      );
+    }
+    const hours = Array.from(
+      { length: END_HOUR - START_HOUR + 1 },
+      (_, i) => START_HOUR + i,
+    );
+    const lineColor = route.color ?? DEFAULT_LINE_COLOR;
+    const highlight = (hour: number) =>
+      hour === route.recommended_hour
+        ? "ring-2 ring-inset ring-pink-400"
+        : hour === route.requested_hour
+          ? "ring-2 ring-inset ring-gray-400"
+          : "";
+    return (
+      <>
+        {renderSummary(route)}
+        <div className="overflow-x-auto border border-pink-200 rounded-lg bg-white shadow-sm">
+          <table className="text-xs text-center border-collapse">
+            <thead>
+              <tr>
+                <th className="sticky left-0 bg-white" />
+                {hours.map((hour) => (
+                  <th
+                    key={hour}
+                    className="py-2 px-0.5 font-medium text-gray-500"
+                  >
+                    {hour}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {route.hours.length > 0 && (
+                <tr>
+                  <td className="sticky left-0 bg-white text-left whitespace-nowrap pl-2 pr-2 font-bold text-gray-700">
+                    区間平均
+                  </td>
+                  {hours.map((hour) => {
+                    const index = route.hours[hour]?.average_index ?? 0;
+                    return (
+                      <td
+                        key={hour}
+                        title={`区間平均 ${hour}時 混雑指数 ${index}`}
+                        className={`border border-white h-7 w-6 ${getIndexCellColor(index)} ${highlight(hour)}`}
+                      />
+                    );
+                  })}
+                </tr>
+              )}
+              {route.stations.map((station) => (
+                <tr key={station.station_id}>
+                  <td
+                    className="sticky left-0 bg-white text-left whitespace-nowrap pl-2 pr-2 border-l-4 text-gray-700"
+                    style={{ borderLeftColor: lineColor }}
+                  >
+                    {station.station_name}
+                  </td>
+                  {hours.map((hour) => {
+                    if (station.status !== "done" || !station.hours) {
+                      return (
+                        <td
+                          key={hour}
+                          title={station.error ?? "分析中"}
+                          className={`border border-white h-6 w-6 ${station.status === "failed" ? "bg-gray-200" : "bg-white animate-pulse"}`}
+                        />
+                      );
+                    }
+                    const index = station.hours[hour] ?? 0;
+                    return (
+                      <td
+                        key={hour}
+                        title={`${station.station_name} ${hour}時 混雑指数 ${index}`}
+                        className={`border border-white h-6 w-6 ${getIndexCellColor(index)}`}
+                      />
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          色が濃いほど、その駅のふだんより混雑します。ピンクの枠はおすすめの出発時刻、灰色の枠は指定した時刻です。乗車中の移動時間は考慮していません。
+        </p>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      <div className="px-4 pt-6">
+        <Link
+          href="/"
+          className="text-pink-500 hover:text-pink-700 mb-4 inline-block"
+        >
+          ← 戻る
+        </Link>
+        <div
+          className="max-w-2xl mx-auto pt-2 px-2 text-2xl font-bold text-gray-700 border-b-4"
+          style={{ borderBottomColor: route?.color ?? DEFAULT_LINE_COLOR }}
+        >
+          {route && route.stations.length > 0
+            ? `${route.stations[0].station_name} → ${route.stations[route.stations.length - 1].station_name}`
+            : "区間"}
+        </div>
+      </div>
+      <main className="flex-1 px-6 py-2">
+        <div className="max-w-2xl mx-auto pt-3">
+          <h1 className="text-black text-xl font-bold mb-1">区間の混雑予測</h1>
+          <p className="text-sm text-gray-600 mb-3">
+            {route?.railway_name}
+            {isDateString(date) &&
+              ` ${date.replaceAll("-", "/")} (${dayLabel(date)})`}
+          </p>
+          {renderContent()}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default function RouteCheckPage() {
+  return (
+    <Suspense>
+      <RouteCheckView />
+    </Suspense>
+  );
+}
@@ -0,0 +1,137 @@
+import { ImageResponse } from "next/og";
+import { loadCachedStationForecast } from "@/lib/stationForecast";
+
+export const alt = "時間ごとの混雑予測";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+const START_HOUR = 5;
+const END_HOUR = 23;
+const CHART_HEIGHT = 320;
+
+const getIndexColor = (index: number) => {
+  if (index >= 100) return "#f87171"; // red-400
+  if (index >= 70) return "#facc15"; // yellow-400
+  if (index >= 40) return "#60a5fa"; // blue-400
+  return "#d1d5db"; // gray-300
+};
+
+/**
+ * 画像内の日本語を描画するため、使う文字だけを含む Noto Sans JP を Google Fonts から取得する。
+ * 取得できなければ既定のフォントで描画する (日本語は表示されない)。
+ */
+async function loadJapaneseFont(text: string): Promise<ArrayBuffer | null> {
+  try {
+    const css = await fetch(
+      `https://fonts.googleapis.com/css2?family=Noto+Sans+JP:wght@700&text=${encodeURIComponent(text)}`,
+    ).then((res) => res.text());
+    const fontUrl = css.match(
+      /src: url\((.+?)\) format\('(?:opentype|truetype)'\)/,
+    )?.[1];
+    if (!fontUrl) return null;
+    const res = await fetch(fontUrl);
+    return res.ok ? res.arrayBuffer() : null;
+  } catch (error) {
+    console.error("Failed to load font for OG image:", error);
+    return null;
+  }
+}
+
+type ImageProps = {
+  params: Promise<{ stationId: string; date: string }>;
+};
+
+/**
+ * 共有リンクのプレビュー用に、1時間ごとの混雑指数を棒グラフにした画像。
+ * キャッシュ済みの予測だけを使い、まだ予測されていなければグラフのない画像にする。
+ */
+export default async function Image({ params }: ImageProps) {
+  const { stationId, date } = await params;
+  const preview = await loadCachedStationForecast(
+    decodeURIComponent(stationId),
+    date,
+  ).catch((error) => {
+    console.error("Failed to load forecast for OG image:", error);
+    return null;
+  });
+  const forecast = preview?.forecast;
+
+  const title = preview ? `${preview.stationName}駅` : "いつ空いてる?";
+  const subtitle = forecast
+    ? `${forecast.targetDate} いちばん空いている時間 ${forecast.quietest_hour}:00〜`
+    : preview
+      ? `${preview.targetDate} の混雑予測`
+      : "駅の混雑予測";
+  const hours = (forecast?.hours ?? []).filter(
+    (h) => h.hour >= START_HOUR && h.hour <= END_HOUR,
+  );
+  const maxIndex = Math.max(100, ...hours.map((h) => h.index));
+
+  const font = await loadJapaneseFont(`${title}${subtitle}0123456789時`);
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        padding: "56px 64px",
+        background: "#fdf2f8",
+        fontFamily: font ? "Noto Sans JP" : undefined,
+      }}
+    >
+      <div style={{ fontSize: 64, fontWeight: 700, color: "#374151" }}>
+        {title}
+      </div>
+      <div style={{ fontSize: 32, color: "#ec4899", marginTop: 8 }}>
+        {subtitle}
+      </div>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "flex-end",
+          gap: 12,
+          height: CHART_HEIGHT,
+          marginTop: "auto",
+        }}
+      >
+        {hours.map((h) => (
+          <div
+            key={h.hour}
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              justifyContent: "flex-end",
+              flex: 1,
+              height: "100%",
+            }}
+          >
+            <div
+              style={{
+                width: "100%",
+                height: Math.max(4, (h.index / maxIndex) * (CHART_HEIGHT - 40)),
+                borderRadius: 6,
+                background: getIndexColor(h.index),
+                border:
+                  h.hour === forecast?.quietest_hour
+                    ? "4px solid #ec4899"
+                    : "none",
+              }}
+            />
+            <div style={{ fontSize: 22, color: "#6b7280", marginTop: 8 }}>
+              {h.hour % 3 === 0 ? `${h.hour}時` : " "}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>,
+    {
+      ...size,
+      fonts: font
+        ? [{ name: "Noto Sans JP", data: font, weight: 700, style: "normal" }]
+        : undefined,
+    },
+  );
+}
@@ -0,0 +1,201 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import CongestionCurve from "@/components/CongestionCurve";
+import { groupCongestionWindows } from "@/lib/eventTimeline";
+import {
+  loadCachedStationForecast,
+  type StationForecast,
+  stationForecastPath,
+} from "@/lib/stationForecast";
+
+// キャッシュ済みの予測だけを表示する。まだ予測されていない駅・日付も、
+// 誰かが予測すれば表示できるよう、使い回す時間は短めにする
+export const revalidate = 300;
+
+type PageProps = {
+  params: Promise<{ stationId: string; date: string }>;
+};
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+const getScaleColor = (scale: number) => {
+  if (scale >= 8) return "bg-red-100 text-red-800 border-red-200";
+  if (scale >= 5) return "bg-yellow-100 text-yellow-800 border-yellow-200";
+  if (scale >= 3) return "bg-blue-100 text-blue-800 border-blue-200";
+  return "bg-gray-100 text-gray-800 border-gray-200";
+};
+
+async function loadForecast(params: PageProps["params"]) {
+  const { stationId, date } = await params;
+  return loadCachedStationForecast(decodeURIComponent(stationId), date);
+}
+
+/** リンクのプレビューに出す一文 */
+function summarize(forecast: StationForecast): string {
+  const windows = groupCongestionWindows(forecast.facilities);
+  const crowded =
+    windows.length > 0
+      ? `混雑が予測される時間帯は${windows.length}件`
+      : "混雑が予測されるイベントはありません";
+  return `いちばん空いている時間は${formatHour(forecast.quietest_hour)}〜、最も混むのは${formatHour(forecast.busiest_hour)}〜。${crowded}。`;
+}
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const preview = await loadForecast(params);
+  if (!preview) {
+    return { title: "いつ空いてる?" };
+  }
+  const title = `${preview.stationName}駅 ${preview.targetDate} の混雑予測 | いつ空いてる?`;
+  const description = preview.forecast
+    ? summarize(preview.forecast)
+    : "この日の混雑はまだ予測されていません。";
+  const url = stationForecastPath(preview.stationId, preview.targetDate);
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: { title, description, url, type: "article" },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+/** キャッシュ済みの予測から描く混雑曲線と混雑する時間帯 */
+function ForecastDetails({ forecast }: { forecast: StationForecast }) {
+  const windows = groupCongestionWindows(forecast.facilities);
+  return (
+    <>
+      <div>
+        <CongestionCurve
+          hours={forecast.hours}
+          quietestHour={forecast.quietest_hour}
+        />
+        {forecast.passengers.source === "fallback" && (
+          <p className="text-xs text-gray-500 mt-1">
+            ※この駅の乗降者数データがないため、推定値で計算しています
+          </p>
+        )}
+      </div>
+      <section>
+        <h2 className="text-sm font-medium text-gray-700 mb-3">
+          混雑が予測される時間帯
+        </h2>
+        {windows.length === 0 ? (
+          <div className="bg-pink-50 rounded-lg p-6 border border-pink-200 text-center text-gray-600">
+            <p className="mb-2">
+              🎉 混雑が予測されるイベントは見つかりませんでした
+            </p>
+            <p className="text-sm">この日は比較的空いている可能性があります</p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {windows.map((group) => (
+              <li
+                key={`${group.start_hour}-${group.end_hour}-${group.label}`}
+                className={`p-3 rounded-md border ${getScaleColor(group.totalScale)}`}
+              >
+                <div className="flex justify-between text-sm font-bold">
+                  <span>
+                    {formatHour(group.start_hour)} -{" "}
+                    {formatHour(group.end_hour)} {group.label}
+                  </span>
+                  <span>混雑度: {group.totalScale}/10</span>
+                </div>
+                <ul className="mt-1 text-xs space-y-0.5">
+                  {group.events.map((event) => (
+                    <li key={`${event.venue_name}-${event.event_name}`}>
+                      {event.venue_name} - {event.event_name ?? "名称不明"}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+      {forecast.warnings.length > 0 && (
+        <details className="text-xs text-gray-500">
+          <summary className="cursor-pointer">
+            AIの応答の一部を補正・除外しました ({forecast.warnings.length}
+            件)
+          </summary>
+          <ul className="list-disc list-inside mt-2 space-y-1">
+            {forecast.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </>
+  );
+}
+
+export default async function StationForecastPage({ params }: PageProps) {
+  const preview = await loadForecast(params);
+  if (!preview) {
+    notFound();
+  }
+  const { forecast } = preview;
+  const query = new URLSearchParams({
+    stationName: preview.stationName,
+    date: preview.targetDate,
+    stationId: preview.stationId,
+  }).toString();
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      <div className="px-4 pt-6">
+        <Link
+          href="/"
+          className="text-pink-500 hover:text-pink-700 mb-4 inline-block"
+        >
+          ← トップへ
+        </Link>
+        <div className="max-w-md mx-auto">
+          <h1 className="pt-2 px-2 text-2xl font-bold text-gray-700">
+            {preview.stationName}駅
+          </h1>
+          <p className="px-2 text-sm text-gray-500">
+            {preview.targetDate} の混雑予測
+          </p>
+        </div>
+      </div>
+      <main className="flex-1 px-6 py-4">
+        <div className="max-w-md mx-auto space-y-4">
+          {forecast ? (
+            <ForecastDetails forecast={forecast} />
+          ) : (
+            <div className="bg-pink-50 rounded-lg p-6 border border-pink-200 text-center text-gray-600">
+              <p className="mb-2">この日の混雑はまだ予測されていません</p>
+              <Link
+                href={`/venues?${query}`}
+                className="text-sm text-pink-500 hover:text-pink-700"
+              >
+                混雑を予測する →
+              </Link>
+            </div>
+          )}
+          <div className="flex flex-col gap-2 text-sm">
+            <Link
+              href={`/venues?${query}`}
+              className="text-pink-500 hover:text-pink-700"
+            >
+              詳しく見る・日付を変える →
+            </Link>
+            <Link
+              href={`/venues/week?${query}`}
+              className="text-pink-500 hover:text-pink-700"
+            >
+              1週間の混雑を見る →
+            </Link>
+          </div>
+          <p className="p-4 text-xs text-gray-500 bg-gray-50 rounded-lg border border-gray-200">
+            この情報はAIによる予測を含みます。あくまで参考情報としてご利用ください。
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -4,7 +4,9 @@ import Image from "next/image";
 import Link from "next/link";
 import { useSearchParams, useRouter } from "next/navigation";
 import { useEffect, useState, useRef } from "react";
+import CongestionCurve from "@/components/CongestionCurve";
 import Truck from "@/components/Truck";
+import { type GroupedEvent, groupCongestionWindows } from "@/lib/eventTimeline";
 
 // --- ヘルパー関数 (日付) ---
 const getTodayDateString = () => {
@@ -36,13 +38,57 @@ interface FacilityWithEvents {
   facility_name: string;
   events: EventInfo[];
 }
-interface GroupedEvent {
-  start_hour: number;
-  end_hour: number;
-  label: string;
-  events: { venue_name: string; event_name: string | null; scale: number; }[];
-  totalScale: number;
-  eventCount: number;
+interface HourlyCongestion {
+  hour: number;
+  baseline: number;
+  event_load: number;
+  index: number;
+}
+type UpstreamSource = "odpt" | "yahoo" | "nominatim" | "gemini" | "wikipedia";
+interface PassengerSummary {
+  daily: number;
+  source: "survey" | "same-station" | "fallback";
+  matched_station_id: string | null;
+}
+interface UpstreamErrorInfo {
+  source: UpstreamSource;
+  status: number | null;
+  retryable: boolean;
+  message: string;
+}
+interface DegradedInput {
+  input: "passengers" | "station_identity" | "coordinates" | "hourly_baseline";
+  fallback: string;
+  upstream: UpstreamErrorInfo | null;
+}
+interface DayBaseline {
+  day_type: "weekday" | "saturday" | "holiday";
+  daily_passengers: number;
+  source: "timetable" | "profile";
+}
+interface CongestionCurveResponse {
+  hours: HourlyCongestion[];
+  passengers: PassengerSummary;
+  baseline: DayBaseline;
+  degraded: DegradedInput[];
+  quietest_hour: number;
+  busiest_hour: number;
+  facilities: FacilityWithEvents[];
+  warnings: string[];
+}
+interface StationImage {
+  article_title: string;
+  article_url: string;
+  thumbnail_url: string;
+  file_page_url: string | null;
+  artist: string | null;
+  license: string | null;
+  license_url: string | null;
+}
+interface StreamStage {
+  stage: string;
+  progress: number;
+  message: string;
 }
 interface VenueData {
   search_station: string;
@@ -51,6 +97,32 @@ interface VenueData {
 }
 
 // --- ヘルパー関数 ---
+const UPSTREAM_LABELS: Record<UpstreamSource, string> = {
+  odpt: "公共交通オープンデータ (ODPT)",
+  yahoo: "Yahoo!ローカルサーチ",
+  nominatim: "OpenStreetMap (Nominatim)",
+  gemini: "イベント予測 (Gemini)",
+  wikipedia: "Wikipedia",
+};
+
+const DEGRADED_INPUT_LABELS: Record<DegradedInput["input"], string> = {
+  passengers: "駅の乗降者数",
+  station_identity: "乗換駅の照合",
+  coordinates: "駅の位置",
+  hourly_baseline: "時間帯ごとの利用者数",
+};
+
+const DAY_TYPE_LABELS: Record<DayBaseline["day_type"], string> = {
+  weekday: "平日",
+  saturday: "土曜",
+  holiday: "休日",
+};
+
+const describeDegraded = (degraded: DegradedInput) =>
+  degraded.upstream
+    ? `${DEGRADED_INPUT_LABELS[degraded.input]}: ${UPSTREAM_LABELS[degraded.upstream.source]}に接続できなかったため、${degraded.fallback}で代用しています`
+    : `${DEGRADED_INPUT_LABELS[degraded.input]}: データがないため、${degraded.fallback}で代用しています`;
+
 const getScaleColor = (scale: number) => {
   if (scale >= 8) return "bg-red-100 text-red-800 border-red-200";
   if (scale >= 5) return "bg-yellow-100 text-yellow-800 border-yellow-200";
@@ -80,12 +152,13 @@ export default function VenuesPage() {
   const [date, setDate] = useState(() => searchParams.get("date"));
   const isInitialMount = useRef(true);
 
-  const [venueData, setVenueData] = useState<VenueData | null>(null);
   const [eventData, setEventData] = useState<FacilityWithEvents[] | null>(null);
+  const [eventWarnings, setEventWarnings] = useState<string[]>([]);
+  const [curve, setCurve] = useState<CongestionCurveResponse | null>(null);
   const [groupedEvents, setGroupedEvents] = useState<GroupedEvent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [stationImageUrl, setStationImageUrl] = useState<string | null>(null);
+  const [stationImage, setStationImage] = useState<StationImage | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedGroup, setSelectedGroup] = useState<GroupedEvent | null>(null);
   const [progress, setProgress] = useState(0);
@@ -103,6 +176,7 @@ export default function VenuesPage() {
   }, [date, stationName, stationId, router]);
 
   // Main data fetching effect
+  // 会場検索からイベント予測までの進捗をサーバーから SSE で受け取る
   useEffect(() => {
     if (!stationName || !date || !stationId) {
       setError("駅名、日付、または駅IDが指定されていません。");
@@ -110,132 +184,79 @@ export default function VenuesPage() {
       return;
     }
 
-    const fetchAllData = async () => {
-      setIsLoading(true);
-      setProgress(0);
-      setError(null);
-      
-      let currentVenueData = venueData;
+    setIsLoading(true);
+    setProgress(0);
+    setProgressMessage("");
+    setError(null);
+    setEventData(null);
+    setEventWarnings([]);
+    setCurve(null);
 
+    // 駅の画像はサーバー側で Wikipedia から探し、クレジットと合わせてキャッシュされる
+    const fetchStationImage = async () => {
+      const imageParams = new URLSearchParams({ stationId });
       try {
-        // --- Station Data Fetching Phase ---
-        if (!currentVenueData || currentVenueData.search_station !== stationName) {
-          setProgress(10);
-          setProgressMessage("周辺の施設を検索しています...");
-          setEventData(null); // 駅が変わるのでイベントデータもクリア
-          setGroupedEvents([]);
-
-          const venueRes = await fetch(`/api/search-venues?stationName=${stationName}`);
-          if (!venueRes.ok) {
-            const errorData = await venueRes.json();
-            throw new Error(errorData.detail || `会場の検索に失敗しました (HTTP ${venueRes.status})`);
-          }
-          const venuesData: VenueData = await venueRes.json();
-          setVenueData(venuesData);
-          currentVenueData = venuesData;
-          setProgress(30);
-
-          // Image fetching
-          const { coordinates } = venuesData;
-          if (coordinates?.lat && coordinates.lon) {
-            let stationPageTitle: string | null = null;
-            const { lat, lon } = coordinates;
-
-            const geoSearchParams = new URLSearchParams({
-              action: "query", list: "geosearch", gscoord: `${lat}|${lon}`,
-              gsradius: "1000", gslimit: "30", format: "json", origin: "*",
-            });
-            const geoSearchUrl = `https://ja.wikipedia.org/w/api.php?${geoSearchParams.toString()}`;
-
-            try {
-              const geoRes = await fetch(geoSearchUrl);
-              if (geoRes.ok) {
-                const geoData = await geoRes.json();
-                const pages = geoData.query.geosearch;
-                const exactMatchTitle = stationName.endsWith("駅") ? stationName : `${stationName}駅`;
-                stationPageTitle = pages.find((p: any) => p.title === exactMatchTitle)?.title ||
-                                  pages.find((p: any) => p.title.includes(stationName) && p.title.includes("駅"))?.title ||
-                                  pages.find((p: any) => p.title.includes("駅"))?.title;
-              }
-            } catch (e) {
-              console.error("Failed to geosearch Wikipedia", e);
-            }
-
-            if (!stationPageTitle) {
-              stationPageTitle = stationName.endsWith("駅") ? stationName : `${stationName}駅`;
-            }
-
-            const imageParams = new URLSearchParams({
-              action: "query", prop: "pageimages", titles: stationPageTitle,
-              format: "json", pithumbsize: "500", origin: "*",
-            });
-            const imageUrl = `https://ja.wikipedia.org/w/api.php?${imageParams.toString()}`;
-
-            try {
-              const imgRes = await fetch(imageUrl);
-              if (imgRes.ok) {
-                const imgData = await imgRes.json();
-                const imgPages = imgData.query.pages;
-                const pageId = Object.keys(imgPages)[0];
-                if (pageId !== "-1" && imgPages[pageId].thumbnail) {
-                  setStationImageUrl(imgPages[pageId].thumbnail.source);
-                }
-              }
-            } catch (e) {
-              console.error("Failed to fetch station image", e);
-            }
-          }
-          setProgress(40);
-        } else {
-          setProgress(40); // Skip station data fetching
+        const imgRes = await fetch(`/api/station-image?${imageParams.toString()}`);
+        if (imgRes.ok) {
+          const imgData: { image: StationImage | null } = await imgRes.json();
+          setStationImage(imgData.image);
         }
+      } catch (e) {
+        console.error("Failed to fetch station image", e);
+      }
+    };
 
-        // --- Event Data Fetching Phase ---
-        if (!currentVenueData) {
-          throw new Error("会場情報の取得に失敗したため、イベント情報を取得できません。");
-        }
-        
-        setProgressMessage("イベント情報を分析し、混雑を予測しています... (AI)");
-        setEventData(null);
-        
-        const facilityList = currentVenueData.venue_results.Feature.map((venue) => venue.Name);
-
-        if (facilityList.length > 0) {
-            const eventRes = await fetch("/api/events", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                target_date: date,
-                facility_list: facilityList,
-                station_name: stationName,
-                station_id: stationId,
-              }),
-            });
-            if (!eventRes.ok) {
-              const errorData = await eventRes.json();
-              throw new Error(errorData.detail || "イベント情報の取得に失敗しました。");
-            }
-            const eventsData: FacilityWithEvents[] = await eventRes.json();
-            setEventData(eventsData);
-        } else {
-            setEventData([]);
-        }
-        
-        setProgress(100);
-        setProgressMessage("完了！");
+    const params = new URLSearchParams({ stationName, stationId, date });
+    const source = new EventSource(`/api/venues/stream?${params.toString()}`);
+    const finish = () => {
+      source.close();
+      setTimeout(() => {
+        setIsLoading(false);
+      }, 500);
+    };
 
-      } catch (e: any) {
-        setError(e.message || "データの取得中に不明なエラーが発生しました。");
-        setProgress(100);
-        setProgressMessage("エラーが発生しました");
-      } finally {
-        setTimeout(() => {
-          setIsLoading(false);
-        }, 500);
+    source.addEventListener("stage", (e) => {
+      const stage: StreamStage = JSON.parse(e.data);
+      setProgress(stage.progress);
+      setProgressMessage(stage.message);
+    });
+    source.addEventListener("venues", (e) => {
+      const venuesData: VenueData = JSON.parse(e.data);
+      if (venuesData.coordinates?.lat && venuesData.coordinates.lon) {
+        fetchStationImage();
       }
+    });
+    // 施設のイベントが予測でき次第、タイムラインに追加する
+    source.addEventListener("facility", (e) => {
+      const facility: FacilityWithEvents = JSON.parse(e.data);
+      setEventData((prev) => [...(prev ?? []), facility]);
+    });
+    source.addEventListener("result", (e) => {
+      const curveData: CongestionCurveResponse = JSON.parse(e.data);
+      setEventData(curveData.facilities);
+      setEventWarnings(curveData.warnings);
+      setCurve(curveData);
+      finish();
+    });
+    source.addEventListener("pipeline-error", (e) => {
+      const { detail, upstream }: { detail: string; upstream?: UpstreamErrorInfo } = JSON.parse(e.data);
+      setError(
+        upstream
+          ? `${UPSTREAM_LABELS[upstream.source]}との通信でエラーが発生しました。${upstream.retryable ? "時間をおいて再度お試しください。" : ""}\n${detail}`
+          : detail || "データの取得中に不明なエラーが発生しました。",
+      );
+      setProgress(100);
+      setProgressMessage("エラーが発生しました");
+      finish();
+    });
+    // 接続できなかった場合や、途中で切断された場合
+    source.onerror = () => {
+      setError("サーバーとの接続が切れました。時間をおいて再度お試しください。");
+      setProgressMessage("エラーが発生しました");
+      finish();
     };
 
-    fetchAllData();
+    return () => source.close();
   }, [stationName, date, stationId]); // Depend on stationName, date, and stationId
 
   // Data processing effect for grouping events
@@ -245,46 +266,20 @@ export default function VenuesPage() {
       return;
     };
 
-    const flatEvents = eventData.flatMap((facility) =>
-      facility.events.flatMap((event) =>
-        event.congestion_predictions.map((prediction) => ({
-          ...prediction,
-          venue_name: facility.facility_name,
-          event_name: event.event_name,
-          scale: event.scale,
-        }))
-      )
-    );
-    // 時間順にソート
-    flatEvents.sort((a, b) => a.start_hour - b.start_hour);
-
-    // 時間帯でグルーピングし、混雑度を合算
-    const grouped = flatEvents.reduce<GroupedEvent[]>((acc, event) => {
-      const lastGroup = acc[acc.length - 1];
-      if (lastGroup && lastGroup.start_hour === event.start_hour && lastGroup.end_hour === event.end_hour && lastGroup.label === event.label) {
-        lastGroup.events.push({ venue_name: event.venue_name, event_name: event.event_name, scale: event.scale });
-        const newTotalScale = Math.sqrt(Math.pow(lastGroup.totalScale, 2) + Math.pow(event.scale, 2));
-        lastGroup.totalScale = Math.min(10, Math.round(newTotalScale * 10) / 10);
-        lastGroup.eventCount += 1;
-      } else {
-        acc.push({
-          start_hour: event.start_hour, end_hour: event.end_hour, label: event.label,
-          events: [{ venue_name: event.venue_name, event_name: event.event_name, scale: event.scale }],
-          totalScale: event.scale, eventCount: 1,
-        });
-      }
-      return acc;
-    }, []);
-    setGroupedEvents(grouped);
+    setGroupedEvents(groupCongestionWindows(eventData));
   }, [eventData]);
 
   const renderContent = () => {
     if (isLoading) {
+      // 予測済みの施設のイベントは、全施設の予測が終わる前から表示する
       return (
-        <div className="py-10">
-          <div className="mb-4"><Truck compact /></div>
-          <ProgressBar progress={progress} message={progressMessage} />
-        </div>
+        <>
+          <div className="py-10">
+            <div className="mb-4"><Truck compact /></div>
+            <ProgressBar progress={progress} message={progressMessage} />
+          </div>
+          {groupedEvents.length > 0 && renderTimeline()}
+        </>
       );
     }
     if (error) {
@@ -307,6 +302,10 @@ export default function VenuesPage() {
         </div>
       );
     }
+    return renderTimeline();
+  };
+
+  const renderTimeline = () => {
     const HOUR_HEIGHT = 50;
     const START_HOUR = 5;
     const END_HOUR = 24;
@@ -359,9 +358,9 @@ export default function VenuesPage() {
           </Link>
           <div className="max-w-md mx-auto rounded-lg">
             <div className="relative w-full h-52 sm:h-60 overflow-hidden rounded-lg bg-white">
-              {stationImageUrl ? (
+              {stationImage ? (
                 <div className="absolute inset-0">
-                  <Image src={stationImageUrl} alt={stationName || "station"} width={500} height={320} className="w-full h-full object-cover" />
+                  <Image src={stationImage.thumbnail_url} alt={stationName || "station"} width={500} height={320} className="w-full h-full object-cover" />
                 </div>
               ) : (
                 <div className="absolute inset-0 flex items-center justify-center text-gray-500 text-sm">
@@ -369,6 +368,31 @@ export default function VenuesPage() {
                 </div>
               )}
             </div>
+            {stationImage && (
+              <p className="px-2 pt-1 text-[10px] text-gray-400">
+                画像:{" "}
+                <a href={stationImage.file_page_url ?? stationImage.article_url} target="_blank" rel="noopener noreferrer" className="underline">
+                  {stationImage.artist ?? stationImage.article_title}
+                </a>
+                {stationImage.license && (
+                  <>
+                    {" / "}
+                    {stationImage.license_url ? (
+                      <a href={stationImage.license_url} target="_blank" rel="noopener noreferrer" className="underline">
+                        {stationImage.license}
+                      </a>
+                    ) : (
+                      stationImage.license
+                    )}
+                  </>
+                )}
+                {" (Wikipedia「"}
+                <a href={stationImage.article_url} target="_blank" rel="noopener noreferrer" className="underline">
+                  {stationImage.article_title}
+                </a>
+                {"」より)"}
+              </p>
+            )}
             <div className="pt-5 px-2 text-2xl font-bold text-gray-700">
               {stationName}駅
             </div>
@@ -386,12 +410,62 @@ export default function VenuesPage() {
               min={getTodayDateString()}
               className="w-full bg-gray-100 border border-gray-300 rounded-md px-3 py-1 text-sm"
             />
+            {stationName && stationId && date && (
+              <Link
+                href={`/venues/week?stationName=${encodeURIComponent(stationName)}&date=${date}&stationId=${encodeURIComponent(stationId)}`}
+                className="inline-block mt-2 text-pink-500 hover:text-pink-700"
+              >
+                1週間の混雑を見る →
+              </Link>
+            )}
+            {stationId && date && (
+              <Link
+                href={`/stations/${encodeURIComponent(stationId)}/${date}`}
+                className="inline-block mt-2 ml-4 text-pink-500 hover:text-pink-700"
+              >
+                共有用リンク
+              </Link>
+            )}
           </div>
           <div className="max-w-md mx-auto rounded-lg pt-3">
             <div className="text-sm font-medium text-gray-700 mb-3">
               混雑が予測される時間帯
             </div>
+            {!isLoading && !error && curve && (
+              <div className="mb-4">
+                <CongestionCurve hours={curve.hours} quietestHour={curve.quietest_hour} />
+                {curve.baseline.source === "timetable" && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    ※{DAY_TYPE_LABELS[curve.baseline.day_type]}ダイヤの運行本数から、時間帯ごとの利用者数を推定しています
+                  </p>
+                )}
+                {curve.baseline.source === "profile" && curve.baseline.day_type !== "weekday" && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    ※{DAY_TYPE_LABELS[curve.baseline.day_type]}のため、平日の利用者数と時間帯ごとの割合を補正しています
+                  </p>
+                )}
+                {curve.degraded.length > 0 && (
+                  <ul className="text-xs text-gray-500 mt-1 space-y-0.5">
+                    {curve.degraded.map((degraded) => (
+                      <li key={degraded.input}>※{describeDegraded(degraded)}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
             {renderContent()}
+            {!isLoading && eventWarnings.length > 0 && (
+              <details className="mt-4 text-xs text-gray-500">
+                <summary className="cursor-pointer">
+                  AIの応答の一部を補正・除外しました ({eventWarnings.length}件)
+                </summary>
+                <ul className="list-disc list-inside mt-2 space-y-1">
+                  {eventWarnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
             <div className="mt-6 p-4 text-xs text-gray-500 bg-gray-50 rounded-lg border border-gray-200">
               <p className="font-semibold mb-1">【ご注意】</p>
               <ul className="list-disc list-inside space-y-1">
@@ -0,0 +1,231 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import Truck from "@/components/Truck";
+import { addDays } from "@/lib/calendar";
+
+// --- 型定義 ---
+interface Venue {
+  Id: string;
+  Name: string;
+}
+interface VenueData {
+  venue_results: { Feature: Venue[] };
+}
+interface HourlyCongestion {
+  hour: number;
+  index: number;
+}
+interface DayForecast {
+  target_date: string;
+  hours: HourlyCongestion[];
+  quietest_hour: number;
+  busiest_hour: number;
+}
+interface WeekForecast {
+  quietest_date: string;
+  dates: DayForecast[];
+}
+
+const DAYS_IN_WEEK = 7;
+const START_HOUR = 5;
+const END_HOUR = 23;
+const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
+// --- ヘルパー関数 ---
+const formatDayLabel = (date: string) => {
+  const d = new Date(`${date}T00:00:00`);
+  return `${d.getMonth() + 1}/${d.getDate()}(${WEEKDAY_LABELS[d.getDay()]})`;
+};
+
+const getIndexCellColor = (index: number) => {
+  if (index >= 100) return "bg-red-300";
+  if (index >= 70) return "bg-yellow-200";
+  if (index >= 40) return "bg-blue-100";
+  return "bg-gray-50";
+};
+
+function WeekView() {
+  const searchParams = useSearchParams();
+  const stationName = searchParams.get("stationName");
+  const stationId = searchParams.get("stationId");
+  const startDate = searchParams.get("date");
+
+  const [forecast, setForecast] = useState<WeekForecast | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!stationName || !stationId || !startDate) {
+      setError("駅名、日付、または駅IDが指定されていません。");
+      setIsLoading(false);
+      return;
+    }
+
+    const fetchWeek = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const venueRes = await fetch(
+          `/api/search-venues?stationName=${encodeURIComponent(stationName)}&stationId=${encodeURIComponent(stationId)}`,
+        );
+        if (!venueRes.ok) {
+          const errorData = await venueRes.json();
+          throw new Error(
+            errorData.detail ||
+              `会場の検索に失敗しました (HTTP ${venueRes.status})`,
+          );
+        }
+        const venueData: VenueData = await venueRes.json();
+        const venues = venueData.venue_results.Feature;
+
+        const eventRes = await fetch("/api/events", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            start_date: startDate,
+            end_date: addDays(startDate, DAYS_IN_WEEK - 1),
+            facility_list: venues.map((venue) => venue.Name),
+            facilities: venues.map((venue) => ({
+              id: venue.Id,
+              name: venue.Name,
+            })),
+            station_name: stationName,
+            station_id: stationId,
+          }),
+        });
+        if (!eventRes.ok) {
+          const errorData = await eventRes.json();
+          throw new Error(
+            errorData.detail || "イベント情報の取得に失敗しました。",
+          );
+        }
+        setForecast(await eventRes.json());
+      } catch (e) {
+        setError(
+          e instanceof Error
+            ? e.message
+            : "データの取得中に不明なエラーが発生しました。",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchWeek();
+  }, [stationName, stationId, startDate]);
+
+  const dayLink = (date: string) =>
+    `/venues?stationName=${encodeURIComponent(stationName ?? "")}&date=${date}&stationId=${encodeURIComponent(stationId ?? "")}`;
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="py-10">
+          <Truck compact />
+          <p className="text-center text-sm text-gray-600 mt-4">
+            1週間分のイベントを分析しています... (AI)
+          </p>
+        </div>
+      );
+    }
+    if (error || !forecast) {
+      return (
+        <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
+          <div className="font-bold mb-2">❌ エラーが発生しました</div>
+          <pre className="text-sm whitespace-pre-wrap">{error}</pre>
+        </div>
+      );
+    }
+    const hours = Array.from(
+      { length: END_HOUR - START_HOUR + 1 },
+      (_, i) => START_HOUR + i,
+    );
+    return (
+      <>
+        <p className="text-sm text-gray-700 mb-3">
+          いちばん空いている日:{" "}
+          <Link
+            href={dayLink(forecast.quietest_date)}
+            className="font-bold text-pink-500 hover:text-pink-700"
+          >
+            {formatDayLabel(forecast.quietest_date)}
+          </Link>
+        </p>
+        <div className="overflow-x-auto border border-pink-200 rounded-lg bg-white shadow-sm">
+          <table className="w-full text-xs text-center border-collapse">
+            <thead>
+              <tr>
+                <th className="w-12" />
+                {forecast.dates.map((day) => (
+                  <th
+                    key={day.target_date}
+                    className={`py-2 font-medium ${day.target_date === forecast.quietest_date ? "text-pink-500" : "text-gray-700"}`}
+                  >
+                    <Link href={dayLink(day.target_date)}>
+                      {formatDayLabel(day.target_date)}
+                    </Link>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {hours.map((hour) => (
+                <tr key={hour}>
+                  <td className="text-gray-500 pr-1 text-right">
+                    {String(hour).padStart(2, "0")}:00
+                  </td>
+                  {forecast.dates.map((day) => {
+                    const index = day.hours[hour]?.index ?? 0;
+                    return (
+                      <td
+                        key={day.target_date}
+                        title={`混雑指数 ${index}`}
+                        className={`border border-white h-6 ${getIndexCellColor(index)} ${day.quietest_hour === hour ? "ring-2 ring-inset ring-pink-400" : ""}`}
+                      />
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          色が濃いほど混雑します。枠線はその日いちばん空いている時間です。
+        </p>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      <div className="px-4 pt-6">
+        <Link
+          href={startDate ? dayLink(startDate) : "/"}
+          className="text-pink-500 hover:text-pink-700 mb-4 inline-block"
+        >
+          ← 戻る
+        </Link>
+        <div className="max-w-md mx-auto pt-2 px-2 text-2xl font-bold text-gray-700">
+          {stationName}駅
+        </div>
+      </div>
+      <main className="flex-1 px-6 py-2">
+        <div className="max-w-md mx-auto pt-3">
+          <h1 className="text-black text-xl font-bold mb-3">1週間の混雑予測</h1>
+          {renderContent()}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default function WeekPage() {
+  return (
+    <Suspense>
+      <WeekView />
+    </Suspense>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+type HourlyCongestion = {
+  hour: number;
+  baseline: number;
+  event_load: number;
+  index: number;
+};
+
+type CongestionCurveProps = {
+  hours: HourlyCongestion[];
+  quietestHour: number;
+  startHour?: number;
+  endHour?: number;
+};
+
+const CHART_HEIGHT = 120;
+const BAR_WIDTH = 14;
+const BAR_GAP = 4;
+
+const getIndexColor = (index: number) => {
+  if (index >= 100) return "#f87171"; // red-400
+  if (index >= 70) return "#facc15"; // yellow-400
+  if (index >= 40) return "#60a5fa"; // blue-400
+  return "#d1d5db"; // gray-300
+};
+
+export default function CongestionCurve({
+  hours,
+  quietestHour,
+  startHour = 5,
+  endHour = 23,
+}: CongestionCurveProps) {
+  const visibleHours = hours.filter(
+    (h) => h.hour >= startHour && h.hour <= endHour,
+  );
+  const maxIndex = Math.max(100, ...visibleHours.map((h) => h.index));
+  const width = visibleHours.length * (BAR_WIDTH + BAR_GAP);
+
+  return (
+    <div className="border border-pink-200 rounded-lg bg-white shadow-sm p-3">
+      <p className="text-sm text-gray-700 mb-2">
+        いちばん空いている時間:{" "}
+        <span className="font-bold text-pink-500">
+          {String(quietestHour).padStart(2, "0")}:00〜
+        </span>
+      </p>
+      <div className="overflow-x-auto">
+        <svg
+          width={width}
+          height={CHART_HEIGHT + 16}
+          role="img"
+          aria-label="時間ごとの混雑指数"
+        >
+          <title>時間ごとの混雑指数</title>
+          {visibleHours.map((h, i) => {
+            const barHeight = (h.index / maxIndex) * CHART_HEIGHT;
+            const x = i * (BAR_WIDTH + BAR_GAP);
+            return (
+              <g key={h.hour}>
+                <rect
+                  x={x}
+                  y={CHART_HEIGHT - barHeight}
+                  width={BAR_WIDTH}
+                  height={barHeight}
+                  rx={2}
+                  fill={getIndexColor(h.index)}
+                  stroke={h.hour === quietestHour ? "#ec4899" : "none"}
+                  strokeWidth={2}
+                >
+                  <title>{`${h.hour}時 混雑指数 ${h.index}`}</title>
+                </rect>
+                {h.hour % 3 === 0 && (
+                  <text
+                    x={x + BAR_WIDTH / 2}
+                    y={CHART_HEIGHT + 12}
+                    textAnchor="middle"
+                    className="fill-gray-500 text-[10px]"
+                  >
+                    {h.hour}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        平常時の最も混む時間帯を100とした指数です
+      </p>
+    </div>
+  );
+}
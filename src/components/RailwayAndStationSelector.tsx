@@ -1,7 +1,9 @@
 "use client";
 
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
+import { dayLabel, holidayName, isDateString } from "@/lib/calendar";
 import type { RailwayOption, StationOption } from "@/lib/odpt";
 import RailwaySelect from "./RailwaySelect";
 type RailwayAndStationSelectorProps = {
@@ -14,17 +16,49 @@ type FavoriteItem = {
   railwayLabel: string;
   stationLabel: string;
   count: number;
+  // ログイン中はサーバーに保存したお気に入りの表示名
+  name?: string | null;
 };
 
+// /api/favorites が返すお気に入り
+type ServerFavorite = {
+  railway_id: string;
+  station_id: string;
+  railway_label: string;
+  station_label: string;
+  name: string | null;
+  count: number;
+};
+
+const FAVORITES_STORAGE_KEY = "imaaiteru-kun-favorites";
+
+const fromServerFavorite = (fav: ServerFavorite): FavoriteItem => ({
+  railwayId: fav.railway_id,
+  stationId: fav.station_id,
+  railwayLabel: fav.railway_label,
+  stationLabel: fav.station_label,
+  count: fav.count,
+  name: fav.name,
+});
+
+// カレンダーアプリから購読できるよう webcal スキームのURLにする
+const calendarFeedUrl = (stationId: string) =>
+  `webcal://${window.location.host}/api/calendar?stationId=${encodeURIComponent(stationId)}`;
+
 export default function RailwayAndStationSelector({
   railwayOptions,
 }: RailwayAndStationSelectorProps) {
   const [favorites, setFavorites] = useState<FavoriteItem[]>([]);
+  const [userEmail, setUserEmail] = useState<string | null>(null);
   const [selectedRailway, setSelectedRailway] = useState("");
   const [stations, setStations] = useState<StationOption[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedStation, setSelectedStation] = useState("");
+  // 区間モードでは selectedStation を乗車駅として、降車駅までの混雑を調べる
+  const [isRouteMode, setIsRouteMode] = useState(false);
+  const [destinationStation, setDestinationStation] = useState("");
+  const [departureHour, setDepartureHour] = useState("");
   const getTodayDateString = () => {
     const today = new Date();
     const year = today.getFullYear();
@@ -39,7 +73,7 @@ export default function RailwayAndStationSelector({
 
   const loadFavorites = () => {
     try {
-      const savedFavorites = localStorage.getItem("imaaiteru-kun-favorites");
+      const savedFavorites = localStorage.getItem(FAVORITES_STORAGE_KEY);
       if (savedFavorites) {
         const parsedFavorites: FavoriteItem[] = JSON.parse(savedFavorites);
         parsedFavorites.sort((a, b) => b.count - a.count);
@@ -51,9 +85,51 @@ export default function RailwayAndStationSelector({
   };
 
   useEffect(() => {
-    loadFavorites();
+    // ログイン中はサーバーのお気に入りを使う。
+    // ログイン後の初回は、この端末の localStorage のお気に入りをアカウントに取り込む
+    const loadAccountFavorites = async () => {
+      const savedFavorites = localStorage.getItem(FAVORITES_STORAGE_KEY);
+      if (savedFavorites) {
+        const importRes = await fetch("/api/favorites/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ favorites: JSON.parse(savedFavorites) }),
+        });
+        if (importRes.ok) {
+          localStorage.removeItem(FAVORITES_STORAGE_KEY);
+        }
+      }
+      const res = await fetch("/api/favorites");
+      if (res.ok) {
+        const data: ServerFavorite[] = await res.json();
+        setFavorites(data.map(fromServerFavorite));
+      }
+    };
+
+    const init = async () => {
+      try {
+        const res = await fetch("/api/auth/me");
+        if (res.ok) {
+          const user: { email: string } = await res.json();
+          setUserEmail(user.email);
+          await loadAccountFavorites();
+          return;
+        }
+      } catch (error) {
+        console.error("Failed to load account favorites", error);
+      }
+      loadFavorites();
+    };
+    init();
   }, []);
 
+  const handleLogout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    setUserEmail(null);
+    setFavorites([]);
+    loadFavorites();
+  };
+
   const handleFavoriteClick = (favorite: FavoriteItem) => {
     setSelectedRailway(favorite.railwayId);
     setSelectedStation(favorite.stationId);
@@ -63,6 +139,7 @@ export default function RailwayAndStationSelector({
     if (!selectedRailway) {
       setStations([]);
       setSelectedStation("");
+      setDestinationStation("");
       return;
     }
 
@@ -83,6 +160,9 @@ export default function RailwayAndStationSelector({
             }
             return "";
         });
+        setDestinationStation(currentStation =>
+          data.some(station => station.value === currentStation) ? currentStation : ""
+        );
       } catch (e) {
         setError("駅情報の取得に失敗しました");
         console.error(e);
@@ -97,34 +177,50 @@ export default function RailwayAndStationSelector({
   const handleSearch = async () => {
     if (!selectedStation) return;
 
-    try {
-      const savedFavorites = localStorage.getItem("imaaiteru-kun-favorites");
-      const favorites: FavoriteItem[] = savedFavorites ? JSON.parse(savedFavorites) : [];
+    if (userEmail) {
+      const railwayLabel = railwayOptions.find(opt => opt.value === selectedRailway)?.label || "";
+      const stationLabel = stations.find(opt => opt.value === selectedStation)?.label || "";
+      // 画面遷移を待たせないよう、結果は待たない
+      fetch("/api/favorites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          railway_id: selectedRailway,
+          station_id: selectedStation,
+          railway_label: railwayLabel,
+          station_label: stationLabel,
+        }),
+      }).catch((error) => console.error("Failed to update favorites", error));
+    } else {
+      try {
+        const savedFavorites = localStorage.getItem(FAVORITES_STORAGE_KEY);
+        const favorites: FavoriteItem[] = savedFavorites ? JSON.parse(savedFavorites) : [];
       
-      const existingFavIndex = favorites.findIndex(
-        (fav) => fav.railwayId === selectedRailway && fav.stationId === selectedStation
-      );
+        const existingFavIndex = favorites.findIndex(
+          (fav) => fav.railwayId === selectedRailway && fav.stationId === selectedStation
+        );
 
-      if (existingFavIndex > -1) {
-        favorites[existingFavIndex].count += 1;
-      } else {
-        const railwayLabel = railwayOptions.find(opt => opt.value === selectedRailway)?.label || "";
-        const stationLabel = stations.find(opt => opt.value === selectedStation)?.label || "";
-        if (railwayLabel && stationLabel) {
-          favorites.push({
-            railwayId: selectedRailway,
-            stationId: selectedStation,
-            railwayLabel,
-            stationLabel,
-            count: 1,
-          });
+        if (existingFavIndex > -1) {
+          favorites[existingFavIndex].count += 1;
+        } else {
+          const railwayLabel = railwayOptions.find(opt => opt.value === selectedRailway)?.label || "";
+          const stationLabel = stations.find(opt => opt.value === selectedStation)?.label || "";
+          if (railwayLabel && stationLabel) {
+            favorites.push({
+              railwayId: selectedRailway,
+              stationId: selectedStation,
+              railwayLabel,
+              stationLabel,
+              count: 1,
+            });
+          }
         }
-      }
       
-      localStorage.setItem("imaaiteru-kun-favorites", JSON.stringify(favorites));
-      loadFavorites(); // Reload and sort favorites for UI update
-    } catch (error) {
-      console.error("Failed to update favorites in localStorage", error);
+        localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(favorites));
+        loadFavorites(); // Reload and sort favorites for UI update
+      } catch (error) {
+        console.error("Failed to update favorites in localStorage", error);
+      }
     }
     
     const stationName = stations.find(
@@ -140,21 +236,97 @@ export default function RailwayAndStationSelector({
     }
   };
 
+  const handleRouteSearch = () => {
+    const params = new URLSearchParams({
+      railwayId: selectedRailway,
+      originStationId: selectedStation,
+      destinationStationId: destinationStation,
+      date: selectedDate,
+    });
+    if (departureHour) {
+      params.set("hour", departureHour);
+    }
+    router.push(`/route-check?${params}`);
+  };
+
+  const renderStationSelect = (
+    value: string,
+    onChange: (value: string) => void,
+    placeholder: string,
+  ) => (
+    <div className="relative">
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full appearance-none bg-pink-100 text-gray-900 rounded-lg px-4 py-3 pr-10 text-left outline-none border border-transparent focus:ring-2 focus:ring-pink-300"
+      >
+        <option value="" disabled>
+          {placeholder}
+        </option>
+        {stations.map((station) => (
+          <option key={station.value} value={station.value}>
+            {station.label}
+          </option>
+        ))}
+      </select>
+      <span
+        aria-hidden="true"
+        className="pointer-events-none absolute right-5 top-1/2 -translate-y-1/2 text-gray-600"
+      >
+        ▼
+      </span>
+    </div>
+  );
+
   return (
     <div className="w-full max-w-md mx-auto space-y-6">
+      <div className="flex justify-end gap-3 text-xs text-gray-600">
+        {userEmail ? (
+          <>
+            <span>{userEmail}</span>
+            <Link href="/favorites" className="text-pink-500 hover:text-pink-700">
+              お気に入りを編集
+            </Link>
+            <button type="button" onClick={handleLogout} className="text-pink-500 hover:text-pink-700">
+              ログアウト
+            </button>
+          </>
+        ) : (
+          <Link href="/login" className="text-pink-500 hover:text-pink-700">
+            ログインしてお気に入りを同期
+          </Link>
+        )}
+      </div>
       {favorites.length > 0 && (
         <div className="space-y-3">
           <h2 className="block text-sm font-medium text-gray-800">よく使う組み合わせ</h2>
           <div className="flex flex-wrap gap-2">
             {favorites.map((fav) => (
-              <button
-                key={`${fav.railwayId}-${fav.stationId}`}
-                type="button"
-                onClick={() => handleFavoriteClick(fav)}
-                className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm px-3 py-1 rounded-full transition-colors"
-              >
-                {fav.railwayLabel}・{fav.stationLabel}
-              </button>
+              <div key={`${fav.railwayId}-${fav.stationId}`} className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => handleFavoriteClick(fav)}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm px-3 py-1 rounded-l-full transition-colors"
+                >
+                  {fav.name || `${fav.railwayLabel}・${fav.stationLabel}`}
+                </button>
+                {/* 直近1週間の混雑予測をカレンダーアプリで購読する */}
+                <a
+                  href={calendarFeedUrl(fav.stationId)}
+                  title={`${fav.stationLabel}駅の混雑予測をカレンダーに登録`}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm px-2 py-1 border-l border-gray-300 transition-colors"
+                >
+                  📅
+                </a>
+                {/* 混雑が予測されたらメールや Webhook で通知する */}
+                <Link
+                  href={`/alerts?stationId=${encodeURIComponent(fav.stationId)}&stationName=${encodeURIComponent(fav.stationLabel)}`}
+                  title={`${fav.stationLabel}駅の混雑を通知`}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm px-2 py-1 rounded-r-full border-l border-gray-300 transition-colors"
+                >
+                  🔔
+                </Link>
+              </div>
             ))}
           </div>
         </div>
@@ -168,6 +340,13 @@ export default function RailwayAndStationSelector({
           min={minDate}
           className="w-full bg-pink-100 text-gray-900 rounded-lg px-4 py-3 outline-none border border-transparent focus:ring-2 focus:ring-pink-300"
         />
+        {isDateString(selectedDate) && (
+          <p
+            className={`text-sm ${holidayName(selectedDate) ? "text-red-500" : "text-gray-600"}`}
+          >
+            {selectedDate.replaceAll("-", "/")} ({dayLabel(selectedDate)})
+          </p>
+        )}
       </div>
       <div className="space-y-3">
         <h2 className="block text-sm font-medium text-gray-800">路線選択</h2>
@@ -185,36 +364,68 @@ export default function RailwayAndStationSelector({
           {error && <p className="text-red-500">{error}</p>}
           {!isLoading && !error && stations.length > 0 && (
             <div className="flex flex-col gap-8">
-              <div className="relative">
-                <select
-                  value={selectedStation}
-                  onChange={(e) => setSelectedStation(e.target.value)}
-                  className="w-full appearance-none bg-pink-100 text-gray-900 rounded-lg px-4 py-3 pr-10 text-left outline-none border border-transparent focus:ring-2 focus:ring-pink-300"
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isRouteMode}
+                  onChange={(e) => setIsRouteMode(e.target.checked)}
+                  className="accent-pink-400"
+                />
+                乗車駅から降車駅までの区間で調べる
+              </label>
+              {isRouteMode ? (
+                <>
+                  <div className="space-y-3">
+                    {renderStationSelect(selectedStation, setSelectedStation, "乗車駅を選択")}
+                    {renderStationSelect(destinationStation, setDestinationStation, "降車駅を選択")}
+                    <select
+                      value={departureHour}
+                      onChange={(e) => setDepartureHour(e.target.value)}
+                      className="w-full bg-pink-100 text-gray-900 rounded-lg px-4 py-3 outline-none border border-transparent focus:ring-2 focus:ring-pink-300"
+                    >
+                      <option value="">出発時刻を指定しない</option>
+                      {Array.from({ length: 19 }, (_, i) => i + 5).map((hour) => (
+                        <option key={hour} value={hour}>
+                          {String(hour).padStart(2, "0")}:00ごろ出発
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleRouteSearch}
+                    disabled={
+                      !selectedDate ||
+                      !selectedStation ||
+                      !destinationStation ||
+                      selectedStation === destinationStation
+                    }
+                    className="w-full bg-pink-200 hover:bg-pink-300 text-gray-800 font-medium py-3 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    区間の混雑を調べる
+                  </button>
+                </>
+              ) : (
+                <>
+                  {renderStationSelect(selectedStation, setSelectedStation, "駅を選択")}
+                  <button
+                    type="button"
+                    onClick={handleSearch}
+                    disabled={!selectedDate || !selectedRailway || !selectedStation}
+                    className="w-full bg-pink-200 hover:bg-pink-300 text-gray-800 font-medium py-3 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    検索
+                  </button>
+                </>
+              )}
+              {selectedDate && (
+                <Link
+                  href={`/railway-overview?railwayId=${encodeURIComponent(selectedRailway)}&date=${selectedDate}`}
+                  className="block text-center text-sm text-pink-500 hover:text-pink-700"
                 >
-                  <option value="" disabled>
-                    駅を選択
-                  </option>
-                  {stations.map((station) => (
-                    <option key={station.value} value={station.value}>
-                      {station.label}
-                    </option>
-                  ))}
-                </select>
-                <span
-                  aria-hidden="true"
-                  className="pointer-events-none absolute right-5 top-1/2 -translate-y-1/2 text-gray-600"
-                >
-                  ▼
-                </span>
-              </div>
-              <button
-                type="button"
-                onClick={handleSearch}
-                disabled={!selectedDate || !selectedRailway || !selectedStation}
-                className="w-full bg-pink-200 hover:bg-pink-300 text-gray-800 font-medium py-3 rounded-lg transition-colors disabled:opacity-50"
-              >
-                検索
-              </button>
+                  路線全体の混雑を見る
+                </Link>
+              )}
             </div>
           )}
           {!isLoading && !error && stations.length === 0 && (
@@ -1,11 +1,6 @@
 "use client";
 
-type RailwayOption = {
-  label: string;
-  value: string;
-  color?: string;
-  code?: string;
-};
+import type { RailwayOption } from "@/lib/odpt";
 
 type RailwaySelectProps = {
   options: RailwayOption[];
@@ -13,6 +8,18 @@ type RailwaySelectProps = {
   onChange: (value: string) => void;
 };
 
+// 事業者ごとに路線をまとめる。options は事業者順に並んでいる前提
+const groupByOperator = (options: RailwayOption[]) => {
+  const groups = new Map<string, RailwayOption[]>();
+  for (const option of options) {
+    const operatorLabel = option.operatorLabel ?? "その他";
+    const group = groups.get(operatorLabel) ?? [];
+    group.push(option);
+    groups.set(operatorLabel, group);
+  }
+  return [...groups.entries()];
+};
+
 export default function RailwaySelect({
   options,
   value,
@@ -28,10 +35,14 @@ export default function RailwaySelect({
         <option value="" disabled>
           路線を選択
         </option>
-        {options.map((option) => (
-          <option key={option.value} value={option.value}>
-            {option.label}
-          </option>
+        {groupByOperator(options).map(([operatorLabel, railways]) => (
+          <optgroup key={operatorLabel} label={operatorLabel}>
+            {railways.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </optgroup>
         ))}
       </select>
       <span
@@ -0,0 +1,188 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { createJsonListStore } from "@/lib/jsonStore";
+
+// メールのログインリンク (マジックリンク) で使う、軽量なアカウントとセッション。
+// パスワードは持たず、メールアドレスを確認できたらセッションを発行する。
+// ユーザーは USERS_PATH (デフォルト .data/users.json)、
+// ログインリンクとセッションは SESSIONS_PATH (デフォルト .data/sessions.json) に保存する。
+// トークンそのものは保存せず、SHA-256 のハッシュだけを持つ。
+
+const DEFAULT_USERS_PATH = ".data/users.json";
+const DEFAULT_SESSIONS_PATH = ".data/sessions.json";
+const LOGIN_TOKEN_TTL_SECONDS = 15 * 60;
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const SESSION_COOKIE_NAME = "imaaiteru-kun-session";
+
+export type User = {
+  id: string;
+  email: string;
+  created_at: string;
+};
+
+type SessionEntry = {
+  // login: メールで送ったログインリンク、session: ログイン後のセッション
+  kind: "login" | "session";
+  token_hash: string;
+  // login なら確認するメールアドレス、session ならユーザーID
+  subject: string;
+  expires_at: number;
+};
+
+const userStore = createJsonListStore<User>(
+  () => process.env.USERS_PATH ?? DEFAULT_USERS_PATH,
+  (raw) => {
+    const { id, email, created_at } = (raw ?? {}) as Record<string, unknown>;
+    return typeof id === "string" && typeof email === "string"
+      ? { id, email, created_at: String(created_at ?? "") }
+      : null;
+  },
+);
+
+const sessionStore = createJsonListStore<SessionEntry>(
+  () => process.env.SESSIONS_PATH ?? DEFAULT_SESSIONS_PATH,
+  (raw) => {
+    const { kind, token_hash, subject, expires_at } = (raw ?? {}) as Record<
+      string,
+      unknown
+    >;
+    return (kind === "login" || kind === "session") &&
+      typeof token_hash === "string" &&
+      typeof subject === "string" &&
+      typeof expires_at === "number"
+      ? { kind, token_hash, subject, expires_at }
+      : null;
+  },
+);
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isEmailAddress(value: unknown): value is string {
+  return typeof value === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+/** 期限切れを捨てつつ、トークンを1件追加する */
+async function issueToken(
+  kind: SessionEntry["kind"],
+  subject: string,
+  ttlSeconds: number,
+): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  await sessionStore.update((entries) => ({
+    entries: [
+      ...entries.filter((e) => e.expires_at > now),
+      {
+        kind,
+        token_hash: hashToken(token),
+        subject,
+        expires_at: now + ttlSeconds * 1000,
+      },
+    ],
+    result: undefined,
+  }));
+  return token;
+}
+
+/** ログインリンクに載せるトークンを発行する。有効期限は15分 */
+export async function createLoginToken(email: string): Promise<string> {
+  return issueToken("login", normalizeEmail(email), LOGIN_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * ログインリンクのトークンを使い、ユーザー (初回なら作成) とセッションを返す。
+ * トークンは1回しか使えない。無効・期限切れなら null を返す。
+ */
+export async function redeemLoginToken(
+  token: string,
+): Promise<{ user: User; sessionToken: string } | null> {
+  const tokenHash = hashToken(token);
+  const email = await sessionStore.update((entries) => {
+    const entry = entries.find(
+      (e) =>
+        e.kind === "login" &&
+        e.token_hash === tokenHash &&
+        e.expires_at > Date.now(),
+    );
+    return {
+      entries: entries.filter((e) => e.token_hash !== tokenHash),
+      result: entry?.subject ?? null,
+    };
+  });
+  if (!email) {
+    return null;
+  }
+
+  const user = await userStore.update((users) => {
+    const existing = users.find((u) => u.email === email);
+    if (existing) {
+      return { entries: users, result: existing };
+    }
+    const created: User = {
+      id: randomUUID(),
+      email,
+      created_at: new Date().toISOString(),
+    };
+    return { entries: [...users, created], result: created };
+  });
+  const sessionToken = await issueToken(
+    "session",
+    user.id,
+    SESSION_TTL_SECONDS,
+  );
+  return { user, sessionToken };
+}
+
+/** リクエストのセッション Cookie からユーザーを引く。未ログインなら null */
+export async function userFromRequest(
+  request: NextRequest,
+): Promise<User | null> {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!token) {
+    return null;
+  }
+  const tokenHash = hashToken(token);
+  const session = (await sessionStore.list()).find(
+    (e) =>
+      e.kind === "session" &&
+      e.token_hash === tokenHash &&
+      e.expires_at > Date.now(),
+  );
+  if (!session) {
+    return null;
+  }
+  return (await userStore.list()).find((u) => u.id === session.subject) ?? null;
+}
+
+export async function deleteSession(request: NextRequest): Promise<void> {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!token) {
+    return;
+  }
+  const tokenHash = hashToken(token);
+  await sessionStore.update((entries) => ({
+    entries: entries.filter((e) => e.token_hash !== tokenHash),
+    result: undefined,
+  }));
+}
+
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.delete(SESSION_COOKIE_NAME);
+}
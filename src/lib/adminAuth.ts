@@ -0,0 +1,17 @@
+import { timingSafeEqual } from "node:crypto";
+import type { NextRequest } from "next/server";
+
+/**
+ * 管理APIのリクエストかどうかを `Authorization: Bearer <ADMIN_API_TOKEN>` で判定する。
+ * ADMIN_API_TOKEN が未設定の場合は管理APIを使えないようにする。
+ * 比較にかかる時間からトークンを推測されないよう、定数時間で比べる。
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) {
+    return false;
+  }
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(request.headers.get("authorization") ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,209 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runCrowdAlerts } from "@/lib/alertJob";
+import {
+  type AlertSubscriptionInput,
+  createAlertSubscription,
+  listAlertSubscriptions,
+  markAlertNotified,
+} from "@/lib/alertSubscriptions";
+import type { StationForecast } from "@/lib/stationForecast";
+
+const stationForecast = vi.hoisted(() => ({ loadStationForecast: vi.fn() }));
+vi.mock("@/lib/stationForecast", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/stationForecast")>()),
+  ...stationForecast,
+}));
+
+const notifier = vi.hoisted(() => ({
+  send: vi.fn(),
+  getNotifier: vi.fn(),
+}));
+vi.mock("@/lib/notifier", () => ({ getNotifier: notifier.getNotifier }));
+
+const ORIGIN = "https://example.com";
+// 日本時間の 2026-11-01 朝。days_ahead 1 の購読は 2026-11-02 の予測を見る
+const NOW = new Date("2026-10-31T23:00:00Z");
+const YOYOGIKOEN = "odpt.Station:TokyoMetro.Chiyoda.Yoyogikoen";
+const KORAKUEN = "odpt.Station:TokyoMetro.Marunouchi.Korakuen";
+
+const subscribe = (overrides: Partial<AlertSubscriptionInput> = {}) =>
+  createAlertSubscription("user-1", {
+    station_id: YOYOGIKOEN,
+    station_name: "代々木公園",
+    min_scale: 8,
+    days_ahead: 1,
+    channel: "webhook",
+    target: "https://hooks.example.com/alerts",
+    ...overrides,
+  });
+
+// 17〜18時に、指定した混雑度のイベントが1つある予測
+const forecast = (stationName: string, scale: number) =>
+  ({
+    stationName,
+    facilities: [
+      {
+        facility_name: "国立代々木競技場",
+        events: [
+          {
+            event_name: "コンサート",
+            scale,
+            congestion_predictions: [
+              { start_hour: 17, end_hour: 18, label: "入場" },
+            ],
+          },
+        ],
+      },
+    ],
+  }) as unknown as StationForecast;
+
+describe("runCrowdAlerts", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "alert-job-"));
+    vi.stubEnv("ALERT_SUBSCRIPTIONS_PATH", path.join(dir, "alerts.json"));
+    stationForecast.loadStationForecast.mockReset();
+    stationForecast.loadStationForecast.mockResolvedValue(
+      forecast("代々木公園", 9),
+    );
+    notifier.send.mockReset();
+    notifier.send.mockResolvedValue(undefined);
+    notifier.getNotifier.mockReset();
+    notifier.getNotifier.mockReturnValue({ send: notifier.send });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("forecasts each station and date once and notifies every subscriber", async () => {
+    const first = await subscribe();
+    await subscribe({ target: "https://hooks.example.com/other" });
+    await subscribe({ days_ahead: 2 });
+    await subscribe({ station_id: KORAKUEN, station_name: "後楽園" });
+
+    const summary = await runCrowdAlerts(ORIGIN, NOW);
+
+    expect(summary).toMatchObject({ subscriptions: 4, sent: 4, failed: 0 });
+    expect(stationForecast.loadStationForecast.mock.calls).toEqual([
+      [YOYOGIKOEN, "2026-11-02"],
+      [YOYOGIKOEN, "2026-11-03"],
+      [KORAKUEN, "2026-11-02"],
+    ]);
+    expect(notifier.send).toHaveBeenCalledWith(
+      "https://hooks.example.com/alerts",
+      expect.objectContaining({
+        stationId: YOYOGIKOEN,
+        stationName: "代々木公園",
+        targetDate: "2026-11-02",
+        pageUrl: `${ORIGIN}/stations/${encodeURIComponent(YOYOGIKOEN)}/2026-11-02`,
+        unsubscribeUrl: `${ORIGIN}/alerts?id=${first?.id}&token=${first?.token}`,
+      }),
+    );
+  });
+
+  it("does not notify the same date twice", async () => {
+    const subscription = await subscribe();
+    await markAlertNotified(subscription?.id ?? "", "2026-11-02");
+
+    const summary = await runCrowdAlerts(ORIGIN, NOW);
+
+    expect(summary).toMatchObject({ sent: 0, skipped: 1 });
+    expect(stationForecast.loadStationForecast).not.toHaveBeenCalled();
+  });
+
+  it("records the notified date", async () => {
+    await subscribe();
+
+    await runCrowdAlerts(ORIGIN, NOW);
+    const again = await runCrowdAlerts(ORIGIN, NOW);
+
+    const [subscription] = await listAlertSubscriptions();
+    expect(subscription.last_notified_date).toBe("2026-11-02");
+    expect(again).toMatchObject({ sent: 0, skipped: 1 });
+    expect(notifier.send).toHaveBeenCalledTimes(1);
+  });
+
+  it("only notifies subscriptions whose min_scale is reached", async () => {
+    stationForecast.loadStationForecast.mockResolvedValue(
+      forecast("代々木公園", 7),
+    );
+    await subscribe({ min_scale: 7 });
+    await subscribe({ min_scale: 8 });
+
+    const summary = await runCrowdAlerts(ORIGIN, NOW);
+
+    expect(summary).toMatchObject({ sent: 1, skipped: 1 });
+    expect(notifier.send).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ minScale: 7 }),
+    );
+  });
+
+  it("skips a station without a forecast", async () => {
+    stationForecast.loadStationForecast.mockResolvedValue(null);
+    await subscribe();
+
+    expect(await runCrowdAlerts(ORIGIN, NOW)).toMatchObject({
+      sent: 0,
+      skipped: 1,
+    });
+  });
+
+  it("fails the subscriptions of a station whose forecast fails", async () => {
+    stationForecast.loadStationForecast.mockImplementation(
+      async (stationId: string) => {
+        if (stationId === KORAKUEN) throw new Error("quota exceeded");
+        return forecast("代々木公園", 9);
+      },
+    );
+    await subscribe({ station_id: KORAKUEN, station_name: "後楽園" });
+    await subscribe({ station_id: KORAKUEN, station_name: "後楽園" });
+    await subscribe();
+
+    const summary = await runCrowdAlerts(ORIGIN, NOW);
+
+    expect(summary).toMatchObject({ sent: 1, failed: 2 });
+    expect(summary.errors).toEqual([
+      `${KORAKUEN} 2026-11-02: Error: quota exceeded`,
+    ]);
+  });
+
+  it("fails a subscription whose channel is not configured", async () => {
+    notifier.getNotifier.mockReturnValue(null);
+    const subscription = await subscribe({
+      channel: "email",
+      target: "user@example.com",
+    });
+
+    const summary = await runCrowdAlerts(ORIGIN, NOW);
+
+    expect(summary).toMatchObject({ sent: 0, failed: 1 });
+    expect(summary.errors).toEqual([
+      `${subscription?.id}: email notifier is not configured`,
+    ]);
+  });
+
+  it("keeps going after a failed send and retries it next time", async () => {
+    const failing = await subscribe({
+      target: "https://hooks.example.com/down",
+    });
+    await subscribe();
+    notifier.send.mockImplementation(async (target: string) => {
+      if (target.endsWith("/down")) throw new Error("HTTP 503");
+    });
+
+    const summary = await runCrowdAlerts(ORIGIN, NOW);
+
+    expect(summary).toMatchObject({ sent: 1, failed: 1 });
+    expect(summary.errors).toEqual([`${failing?.id}: Error: HTTP 503`]);
+    const notified = await listAlertSubscriptions();
+    expect(
+      notified.find((s) => s.id === failing?.id)?.last_notified_date,
+    ).toBeNull();
+  });
+});
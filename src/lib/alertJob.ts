@@ -0,0 +1,113 @@
+import {
+  type AlertSubscription,
+  listAlertSubscriptions,
+  markAlertNotified,
+} from "@/lib/alertSubscriptions";
+import { addDays, todayInJapan } from "@/lib/calendar";
+import { groupCongestionWindows } from "@/lib/eventTimeline";
+import { getNotifier } from "@/lib/notifier";
+import {
+  loadStationForecast,
+  type StationForecast,
+  stationForecastPath,
+} from "@/lib/stationForecast";
+
+// 購読ごとに予測を確かめ、条件を満たせば通知する定期実行ジョブ
+
+export type AlertJobSummary = {
+  subscriptions: number;
+  sent: number;
+  // 条件を満たさなかった、またはその日付について通知済み
+  skipped: number;
+  failed: number;
+  errors: string[];
+};
+
+/**
+ * すべての購読について、days_ahead 日後の予測に min_scale 以上の時間帯があれば通知する。
+ * 同じ駅・日付の予測は1回だけ求め、通知済みの日付は再度通知しない。
+ * origin は通知に載せるURLの基点 (例: https://example.com)。
+ */
+export async function runCrowdAlerts(
+  origin: string,
+  now = new Date(),
+): Promise<AlertJobSummary> {
+  const subscriptions = await listAlertSubscriptions();
+  const summary: AlertJobSummary = {
+    subscriptions: subscriptions.length,
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  };
+  const today = todayInJapan(now);
+
+  // 駅・日付ごとにまとめ、予測プロバイダへの問い合わせを1回で済ませる
+  const groups = new Map<string, AlertSubscription[]>();
+  for (const subscription of subscriptions) {
+    const targetDate = addDays(today, subscription.days_ahead);
+    if (subscription.last_notified_date === targetDate) {
+      summary.skipped += 1;
+      continue;
+    }
+    const key = `${subscription.station_id}|${targetDate}`;
+    groups.set(key, [...(groups.get(key) ?? []), subscription]);
+  }
+
+  for (const [key, members] of groups) {
+    const [stationId, targetDate] = key.split("|");
+    let forecast: StationForecast | null;
+    try {
+      forecast = await loadStationForecast(stationId, targetDate);
+    } catch (error) {
+      console.error(`Failed to forecast ${stationId} on ${targetDate}:`, error);
+      summary.failed += members.length;
+      summary.errors.push(`${stationId} ${targetDate}: ${String(error)}`);
+      continue;
+    }
+    const windows = forecast ? groupCongestionWindows(forecast.facilities) : [];
+
+    for (const subscription of members) {
+      const matched = windows.filter(
+        (window) => window.totalScale >= subscription.min_scale,
+      );
+      if (matched.length === 0) {
+        summary.skipped += 1;
+        continue;
+      }
+      const notifier = getNotifier(subscription.channel);
+      if (!notifier) {
+        summary.failed += 1;
+        summary.errors.push(
+          `${subscription.id}: ${subscription.channel} notifier is not configured`,
+        );
+        continue;
+      }
+
+      try {
+        await notifier.send(subscription.target, {
+          stationId,
+          stationName: forecast?.stationName ?? subscription.station_name,
+          targetDate,
+          minScale: subscription.min_scale,
+          windows: matched,
+          pageUrl: new URL(
+            stationForecastPath(stationId, targetDate),
+            origin,
+          ).toString(),
+          unsubscribeUrl: new URL(
+            `/alerts?id=${subscription.id}&token=${subscription.token}`,
+            origin,
+          ).toString(),
+        });
+        await markAlertNotified(subscription.id, targetDate);
+        summary.sent += 1;
+      } catch (error) {
+        console.error(`Failed to send alert ${subscription.id}:`, error);
+        summary.failed += 1;
+        summary.errors.push(`${subscription.id}: ${String(error)}`);
+      }
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,43 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createAlertSubscription,
+  listAlertSubscriptions,
+  MAX_SUBSCRIPTIONS_PER_USER,
+} from "@/lib/alertSubscriptions";
+
+const input = {
+  station_id: "odpt.Station:TokyoMetro.Chiyoda.Yoyogikoen",
+  station_name: "代々木公園",
+  min_scale: 8,
+  days_ahead: 1,
+  channel: "webhook" as const,
+  target: "https://hooks.example.com/alerts",
+};
+
+describe("createAlertSubscription", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "alert-subscriptions-"));
+    vi.stubEnv("ALERT_SUBSCRIPTIONS_PATH", path.join(dir, "alerts.json"));
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("limits the number of subscriptions per account", async () => {
+    for (let i = 0; i < MAX_SUBSCRIPTIONS_PER_USER; i++) {
+      expect(await createAlertSubscription("user-1", input)).not.toBeNull();
+    }
+
+    expect(await createAlertSubscription("user-1", input)).toBeNull();
+    // 他のアカウントの購読は数えない
+    expect(await createAlertSubscription("user-2", input)).not.toBeNull();
+    expect(await listAlertSubscriptions()).toHaveLength(
+      MAX_SUBSCRIPTIONS_PER_USER + 1,
+    );
+  });
+});
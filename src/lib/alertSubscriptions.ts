@@ -0,0 +1,206 @@
+import { randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { CROWDED_SCALE } from "@/lib/eventTimeline";
+import { createJsonListStore } from "@/lib/jsonStore";
+
+// 駅の混雑アラートの購読。「翌日に混雑度8以上の時間帯があれば通知する」のような条件を持つ。
+// 第三者のアドレスに勝手に送れないよう、購読はログイン中のアカウントに紐づけ、
+// メールはアカウントの (ログインリンクで確認済みの) アドレスにだけ送る。
+// ALERT_SUBSCRIPTIONS_PATH (デフォルト .data/alert-subscriptions.json) に保存する。
+
+const DEFAULT_SUBSCRIPTIONS_PATH = ".data/alert-subscriptions.json";
+// 何日先まで通知できるか
+const MAX_DAYS_AHEAD = 7;
+// 1つのアカウントで持てる購読の数。定期実行ジョブの予測と通知の量を抑える
+export const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+export const ALERT_CHANNELS = ["webhook", "email"] as const;
+
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+
+export type AlertSubscription = {
+  id: string;
+  // 購読したアカウントのユーザーID
+  user_id: string;
+  // 購読の確認・解除に使う秘密の値。一覧などには含めない
+  token: string;
+  station_id: string;
+  station_name: string;
+  // この混雑度以上の時間帯があれば通知する
+  min_scale: number;
+  // 何日後の予測を通知するか (0 = 当日, 1 = 翌日)
+  days_ahead: number;
+  channel: AlertChannel;
+  // webhook なら送信先URL、email ならメールアドレス
+  target: string;
+  created_at: string;
+  // 最後に通知した予測の日付。同じ日付について何度も通知しないようにする
+  last_notified_date: string | null;
+};
+
+export type AlertSubscriptionInput = Pick<
+  AlertSubscription,
+  | "station_id"
+  | "station_name"
+  | "min_scale"
+  | "days_ahead"
+  | "channel"
+  | "target"
+>;
+
+const store = createJsonListStore<AlertSubscription>(
+  () => process.env.ALERT_SUBSCRIPTIONS_PATH ?? DEFAULT_SUBSCRIPTIONS_PATH,
+  (raw) => {
+    if (typeof raw !== "object" || raw === null) return null;
+    const record = raw as Record<string, unknown>;
+    const input = parseAlertSubscriptionInput(record);
+    if (
+      typeof input === "string" ||
+      typeof record.id !== "string" ||
+      typeof record.user_id !== "string" ||
+      typeof record.token !== "string"
+    ) {
+      return null;
+    }
+    return {
+      ...input,
+      id: record.id,
+      user_id: record.user_id,
+      token: record.token,
+      created_at: String(record.created_at ?? ""),
+      last_notified_date:
+        typeof record.last_notified_date === "string"
+          ? record.last_notified_date
+          : null,
+    };
+  },
+);
+
+/**
+ * 購読の登録内容を検証する。不正な場合はエラーメッセージを返す。
+ */
+export function parseAlertSubscriptionInput(
+  raw: unknown,
+): AlertSubscriptionInput | string {
+  if (typeof raw !== "object" || raw === null) {
+    return "subscription must be an object.";
+  }
+  const record = raw as Record<string, unknown>;
+  const { station_id, station_name, channel, target } = record;
+  const minScale = record.min_scale ?? CROWDED_SCALE;
+  const daysAhead = record.days_ahead ?? 1;
+
+  if (typeof station_id !== "string" || !station_id) {
+    return "station_id is required.";
+  }
+  if (typeof station_name !== "string" || !station_name) {
+    return "station_name is required.";
+  }
+  if (typeof minScale !== "number" || minScale < 1 || minScale > 10) {
+    return "min_scale must be a number between 1 and 10.";
+  }
+  if (
+    typeof daysAhead !== "number" ||
+    !Number.isInteger(daysAhead) ||
+    daysAhead < 0 ||
+    daysAhead > MAX_DAYS_AHEAD
+  ) {
+    return `days_ahead must be an integer between 0 and ${MAX_DAYS_AHEAD}.`;
+  }
+  if (!ALERT_CHANNELS.includes(channel as AlertChannel)) {
+    return `channel must be one of ${ALERT_CHANNELS.join(", ")}.`;
+  }
+  if (typeof target !== "string" || !target) {
+    return "target is required.";
+  }
+  if (channel === "webhook" && !/^https?:\/\//.test(target)) {
+    return "target must be an http(s) URL for webhook alerts.";
+  }
+  if (channel === "email" && !/^[^\s@]+@[^\s@]+$/.test(target)) {
+    return "target must be an email address for email alerts.";
+  }
+  return {
+    station_id,
+    station_name,
+    min_scale: minScale,
+    days_ahead: daysAhead,
+    channel: channel as AlertChannel,
+    target,
+  };
+}
+
+/** API で返すときは token を除く */
+export function toPublicSubscription({
+  token: _,
+  ...subscription
+}: AlertSubscription) {
+  return subscription;
+}
+
+/** 購読の token と一致するか。タイミング攻撃を避けるため固定時間で比較する */
+export function matchesSubscriptionToken(
+  subscription: AlertSubscription,
+  token: string | null,
+): boolean {
+  if (!token) return false;
+  const expected = Buffer.from(subscription.token);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export async function listAlertSubscriptions(): Promise<AlertSubscription[]> {
+  return store.list();
+}
+
+export async function findAlertSubscription(
+  id: string,
+): Promise<AlertSubscription | undefined> {
+  return (await store.list()).find((s) => s.id === id);
+}
+
+/**
+ * 購読を追加する。アカウントの購読がすでに MAX_SUBSCRIPTIONS_PER_USER 件あれば
+ * 追加せずに null を返す。
+ */
+export async function createAlertSubscription(
+  userId: string,
+  input: AlertSubscriptionInput,
+): Promise<AlertSubscription | null> {
+  const subscription: AlertSubscription = {
+    ...input,
+    id: randomUUID(),
+    user_id: userId,
+    token: randomBytes(24).toString("base64url"),
+    created_at: new Date().toISOString(),
+    last_notified_date: null,
+  };
+  return store.update((entries) => {
+    const owned = entries.filter((s) => s.user_id === userId).length;
+    if (owned >= MAX_SUBSCRIPTIONS_PER_USER) {
+      return { entries, result: null };
+    }
+    return { entries: [...entries, subscription], result: subscription };
+  });
+}
+
+/** 削除した場合は true、該当する購読がなければ false を返す */
+export async function deleteAlertSubscription(id: string): Promise<boolean> {
+  return store.update((entries) => {
+    const remaining = entries.filter((s) => s.id !== id);
+    return {
+      entries: remaining,
+      result: remaining.length !== entries.length,
+    };
+  });
+}
+
+export async function markAlertNotified(
+  id: string,
+  targetDate: string,
+): Promise<void> {
+  await store.update((entries) => ({
+    entries: entries.map((s) =>
+      s.id === id ? { ...s, last_notified_date: targetDate } : s,
+    ),
+    result: undefined,
+  }));
+}
@@ -0,0 +1,90 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { createJsonListStore } from "@/lib/jsonStore";
+
+// 公開API (/api/v1) の API キー。管理APIで発行し、
+// API_KEYS_PATH (デフォルト .data/api-keys.json) にハッシュだけを保存する。
+
+const DEFAULT_API_KEYS_PATH = ".data/api-keys.json";
+const KEY_PREFIX = "iak_";
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 30;
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  key_hash: string;
+  // 一覧で見分けるための先頭数文字
+  key_prefix: string;
+  // 1分あたりのリクエスト数の上限
+  rate_limit_per_minute: number;
+  created_at: string;
+};
+
+const store = createJsonListStore<ApiKey>(
+  () => process.env.API_KEYS_PATH ?? DEFAULT_API_KEYS_PATH,
+  (raw) => {
+    const record = (raw ?? {}) as Record<string, unknown>;
+    return typeof record.id === "string" &&
+      typeof record.name === "string" &&
+      typeof record.key_hash === "string" &&
+      typeof record.rate_limit_per_minute === "number"
+      ? {
+          id: record.id,
+          name: record.name,
+          key_hash: record.key_hash,
+          key_prefix: String(record.key_prefix ?? ""),
+          rate_limit_per_minute: record.rate_limit_per_minute,
+          created_at: String(record.created_at ?? ""),
+        }
+      : null;
+  },
+);
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/** API で返すときはハッシュを除く */
+export function toPublicApiKey({ key_hash: _, ...apiKey }: ApiKey) {
+  return apiKey;
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  return store.list();
+}
+
+/**
+ * API キーを発行する。キーそのものは戻り値でしか得られないので、呼び出し側で控える。
+ */
+export async function createApiKey(
+  name: string,
+  rateLimitPerMinute = DEFAULT_RATE_LIMIT_PER_MINUTE,
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const apiKey: ApiKey = {
+    id: randomUUID(),
+    name,
+    key_hash: hashKey(key),
+    key_prefix: key.slice(0, KEY_PREFIX.length + 6),
+    rate_limit_per_minute: rateLimitPerMinute,
+    created_at: new Date().toISOString(),
+  };
+  await store.update((entries) => ({
+    entries: [...entries, apiKey],
+    result: undefined,
+  }));
+  return { apiKey, key };
+}
+
+/** 削除した場合は true、該当するキーがなければ false を返す */
+export async function deleteApiKey(id: string): Promise<boolean> {
+  return store.update((entries) => {
+    const remaining = entries.filter((k) => k.id !== id);
+    return { entries: remaining, result: remaining.length !== entries.length };
+  });
+}
+
+/** リクエストで渡されたキーに一致する API キーを探す */
+export async function findApiKey(key: string): Promise<ApiKey | undefined> {
+  const keyHash = hashKey(key);
+  return (await store.list()).find((k) => k.key_hash === keyHash);
+}
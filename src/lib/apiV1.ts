@@ -0,0 +1,151 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { findApiKey } from "@/lib/apiKeys";
+import { groupCongestionWindows } from "@/lib/eventTimeline";
+import { consumeRateLimit } from "@/lib/rateLimit";
+import type { StationForecast } from "@/lib/stationForecast";
+import { UpstreamError } from "@/lib/upstream";
+import type { ProcessedVenueFeature } from "@/lib/venueRules";
+
+// 公開API (/api/v1) 共通の認証・レート制限・エラー形式・レスポンスの変換
+
+export type ApiErrorCode =
+  | "bad_request"
+  | "unauthorized"
+  | "not_found"
+  | "rate_limited"
+  | "upstream_error"
+  | "internal_error";
+
+/**
+ * エラーはすべて { error: { code, message } } の形で返す。
+ * 外部APIの障害なら upstream に発生元と再試行の可否を付ける。
+ */
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  {
+    headers,
+    upstream,
+  }: { headers?: HeadersInit; upstream?: UpstreamError } = {},
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: upstream
+        ? { code, message, upstream: upstream.toJSON() }
+        : { code, message },
+    },
+    { status, headers },
+  );
+}
+
+function apiKeyFromRequest(request: NextRequest): string | null {
+  const authorization = request.headers.get("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  return request.headers.get("x-api-key");
+}
+
+type RouteHandler<C> = (request: NextRequest, context: C) => Promise<Response>;
+
+/**
+ * API キーで認証し、キーごとのレート制限をかけてからハンドラを呼ぶ。
+ * 予測のように予測プロバイダや Yahoo! の利用枠を多く使うリクエストは、
+ * cost で1回あたりの消費量を増やす。ハンドラの例外は internal_error に、
+ * 外部APIの障害 (UpstreamError) は upstream_error にする。
+ */
+export function withApiKey<C>(
+  handler: RouteHandler<C>,
+  { cost }: { cost?: (request: NextRequest) => number } = {},
+): RouteHandler<C> {
+  return async (request, context) => {
+    const key = apiKeyFromRequest(request);
+    const apiKey = key ? await findApiKey(key) : undefined;
+    if (!apiKey) {
+      return apiError(
+        401,
+        "unauthorized",
+        "A valid API key is required. Send it as `Authorization: Bearer <key>`.",
+      );
+    }
+
+    const limit = consumeRateLimit(apiKey.id, apiKey.rate_limit_per_minute, {
+      cost: cost?.(request),
+    });
+    const rateLimitHeaders = {
+      "X-RateLimit-Limit": String(limit.limit),
+      "X-RateLimit-Remaining": String(limit.remaining),
+      "X-RateLimit-Reset": String(limit.resetAt),
+    };
+    if (!limit.allowed) {
+      return apiError(429, "rate_limited", "Rate limit exceeded.", {
+        headers: {
+          ...rateLimitHeaders,
+          "Retry-After": String(
+            Math.max(1, limit.resetAt - Math.floor(Date.now() / 1000)),
+          ),
+        },
+      });
+    }
+
+    let response: Response;
+    try {
+      response = await handler(request, context);
+    } catch (error) {
+      console.error(
+        `Error in ${request.method} ${request.nextUrl.pathname}:`,
+        error,
+      );
+      response =
+        error instanceof UpstreamError
+          ? apiError(502, "upstream_error", error.message, { upstream: error })
+          : apiError(500, "internal_error", "An internal error occurred.");
+    }
+    for (const [name, value] of Object.entries(rateLimitHeaders)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
+
+/** Yahoo!ローカルサーチの結果から、公開APIで返す項目だけを取り出す */
+export function toV1Venue(feature: ProcessedVenueFeature) {
+  const [lon, lat] = (feature.Geometry?.Coordinates ?? "")
+    .split(",")
+    .map(Number);
+  return {
+    id: feature.Id,
+    name: feature.Name,
+    category: feature.Category,
+    address: feature.Property?.Address ?? null,
+    genres: (feature.Property?.Genre ?? []).map((genre) => genre.Name),
+    lat: Number.isFinite(lat) ? lat : null,
+    lon: Number.isFinite(lon) ? lon : null,
+  };
+}
+
+export function toV1Forecast(forecast: StationForecast) {
+  return {
+    station_id: forecast.stationId,
+    station_name: forecast.stationName,
+    date: forecast.targetDate,
+    quietest_hour: forecast.quietest_hour,
+    busiest_hour: forecast.busiest_hour,
+    hours: forecast.hours,
+    crowded_windows: groupCongestionWindows(forecast.facilities).map(
+      (window) => ({
+        start_hour: window.start_hour,
+        end_hour: window.end_hour,
+        label: window.label,
+        scale: window.totalScale,
+        events: window.events,
+      }),
+    ),
+    facilities: forecast.facilities,
+    warnings: forecast.warnings,
+    passengers: forecast.passengers,
+    baseline: forecast.baseline,
+    degraded: forecast.degraded,
+  };
+}
@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  dayLabel,
+  dayTypeOf,
+  enumerateDates,
+  holidayName,
+} from "@/lib/calendar";
+
+// 内閣府が公表した祝日 (オリンピックで移された2020・2021年を含む)
+const PUBLISHED_HOLIDAYS: Record<string, string> = {
+  "2020-01-01": "元日",
+  "2020-01-13": "成人の日",
+  "2020-02-11": "建国記念の日",
+  "2020-02-23": "天皇誕生日",
+  "2020-02-24": "振替休日",
+  "2020-03-20": "春分の日",
+  "2020-04-29": "昭和の日",
+  "2020-05-03": "憲法記念日",
+  "2020-05-04": "みどりの日",
+  "2020-05-05": "こどもの日",
+  "2020-05-06": "振替休日",
+  "2020-07-23": "海の日",
+  "2020-07-24": "スポーツの日",
+  "2020-08-10": "山の日",
+  "2020-09-21": "敬老の日",
+  "2020-09-22": "秋分の日",
+  "2020-11-03": "文化の日",
+  "2020-11-23": "勤労感謝の日",
+  "2021-01-01": "元日",
+  "2021-01-11": "成人の日",
+  "2021-02-11": "建国記念の日",
+  "2021-02-23": "天皇誕生日",
+  "2021-03-20": "春分の日",
+  "2021-04-29": "昭和の日",
+  "2021-05-03": "憲法記念日",
+  "2021-05-04": "みどりの日",
+  "2021-05-05": "こどもの日",
+  "2021-07-22": "海の日",
+  "2021-07-23": "スポーツの日",
+  "2021-08-08": "山の日",
+  "2021-08-09": "振替休日",
+  "2021-09-20": "敬老の日",
+  "2021-09-23": "秋分の日",
+  "2021-11-03": "文化の日",
+  "2021-11-23": "勤労感謝の日",
+  "2024-01-01": "元日",
+  "2024-01-08": "成人の日",
+  "2024-02-11": "建国記念の日",
+  "2024-02-12": "振替休日",
+  "2024-02-23": "天皇誕生日",
+  "2024-03-20": "春分の日",
+  "2024-04-29": "昭和の日",
+  "2024-05-03": "憲法記念日",
+  "2024-05-04": "みどりの日",
+  "2024-05-05": "こどもの日",
+  "2024-05-06": "振替休日",
+  "2024-07-15": "海の日",
+  "2024-08-11": "山の日",
+  "2024-08-12": "振替休日",
+  "2024-09-16": "敬老の日",
+  "2024-09-22": "秋分の日",
+  "2024-09-23": "振替休日",
+  "2024-10-14": "スポーツの日",
+  "2024-11-03": "文化の日",
+  "2024-11-04": "振替休日",
+  "2024-11-23": "勤労感謝の日",
+  "2025-01-01": "元日",
+  "2025-01-13": "成人の日",
+  "2025-02-11": "建国記念の日",
+  "2025-02-23": "天皇誕生日",
+  "2025-02-24": "振替休日",
+  "2025-03-20": "春分の日",
+  "2025-04-29": "昭和の日",
+  "2025-05-03": "憲法記念日",
+  "2025-05-04": "みどりの日",
+  "2025-05-05": "こどもの日",
+  "2025-05-06": "振替休日",
+  "2025-07-21": "海の日",
+  "2025-08-11": "山の日",
+  "2025-09-15": "敬老の日",
+  "2025-09-23": "秋分の日",
+  "2025-10-13": "スポーツの日",
+  "2025-11-03": "文化の日",
+  "2025-11-23": "勤労感謝の日",
+  "2025-11-24": "振替休日",
+  "2026-01-01": "元日",
+  "2026-01-12": "成人の日",
+  "2026-02-11": "建国記念の日",
+  "2026-02-23": "天皇誕生日",
+  "2026-03-20": "春分の日",
+  "2026-04-29": "昭和の日",
+  "2026-05-03": "憲法記念日",
+  "2026-05-04": "みどりの日",
+  "2026-05-05": "こどもの日",
+  "2026-05-06": "振替休日",
+  "2026-07-20": "海の日",
+  "2026-08-11": "山の日",
+  "2026-09-21": "敬老の日",
+  "2026-09-22": "国民の休日",
+  "2026-09-23": "秋分の日",
+  "2026-10-12": "スポーツの日",
+  "2026-11-03": "文化の日",
+  "2026-11-23": "勤労感謝の日",
+  "2027-01-01": "元日",
+  "2027-01-11": "成人の日",
+  "2027-02-11": "建国記念の日",
+  "2027-02-23": "天皇誕生日",
+  "2027-03-21": "春分の日",
+  "2027-03-22": "振替休日",
+  "2027-04-29": "昭和の日",
+  "2027-05-03": "憲法記念日",
+  "2027-05-04": "みどりの日",
+  "2027-05-05": "こどもの日",
+  "2027-07-19": "海の日",
+  "2027-08-11": "山の日",
+  "2027-09-20": "敬老の日",
+  "2027-09-23": "秋分の日",
+  "2027-10-11": "スポーツの日",
+  "2027-11-03": "文化の日",
+  "2027-11-23": "勤労感謝の日",
+};
+
+function holidaysBetween(start: string, end: string) {
+  return Object.fromEntries(
+    enumerateDates(start, end).flatMap((date) => {
+      const name = holidayName(date);
+      return name ? [[date, name]] : [];
+    }),
+  );
+}
+
+describe("holidayName", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("matches the published holidays", () => {
+    expect(holidaysBetween("2020-01-01", "2021-12-31")).toEqual(
+      Object.fromEntries(
+        Object.entries(PUBLISHED_HOLIDAYS).filter(([date]) => date < "2022"),
+      ),
+    );
+    expect(holidaysBetween("2024-01-01", "2027-12-31")).toEqual(
+      Object.fromEntries(
+        Object.entries(PUBLISHED_HOLIDAYS).filter(([date]) => date >= "2024"),
+      ),
+    );
+  });
+
+  it("computes holidays for years after the published ones", () => {
+    // 敬老の日と秋分の日に挟まれた国民の休日
+    expect(holidaysBetween("2032-09-01", "2032-09-30")).toEqual({
+      "2032-09-20": "敬老の日",
+      "2032-09-21": "国民の休日",
+      "2032-09-22": "秋分の日",
+    });
+    // 日曜の憲法記念日の振替休日は、連休明けの5月6日
+    expect(holidayName("2037-05-06")).toBe("振替休日");
+    expect(holidayName("2099-03-20")).toBe("春分の日");
+  });
+
+  it("warns once and treats unsupported years as having no holidays", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(holidayName("2100-01-01")).toBeNull();
+    expect(holidayName("2100-01-02")).toBeNull();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain("2100");
+  });
+});
+
+describe("dayTypeOf", () => {
+  it("runs the holiday timetable on holidays", () => {
+    expect(dayTypeOf("2030-11-04")).toBe("holiday");
+    expect(dayLabel("2030-11-04")).toBe("月・振替休日");
+    expect(dayTypeOf("2030-11-05")).toBe("weekday");
+    expect(dayTypeOf("2030-11-09")).toBe("saturday");
+  });
+});
@@ -0,0 +1,164 @@
+// 日付 (YYYY-MM-DD 形式の文字列) を扱うユーティリティ。
+// タイムゾーンの影響を受けないよう、内部では UTC の Date として計算する。
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isDateString(value: unknown): value is string {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+  return formatDate(parseDate(value)) === value;
+}
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  const d = parseDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDate(d);
+}
+
+/** start から end まで (両端を含む) の日付を列挙する */
+export function enumerateDates(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// 日本時間 (UTC+9) のオフセット。日本は夏時間がないので固定でよい
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** 日本時間での今日の日付 */
+export function todayInJapan(now = new Date()): string {
+  return formatDate(new Date(now.getTime() + JST_OFFSET_MS));
+}
+
+/** 日本時間の日付と時 (0〜24) を、その時刻の Date にする */
+export function japanDateTime(date: string, hour: number): Date {
+  return new Date(parseDate(date).getTime() + hour * 3600_000 - JST_OFFSET_MS);
+}
+
+// 国民の祝日 (振替休日・国民の休日を含む) を「国民の祝日に関する法律」の規則で求める。
+// 天皇誕生日が2月23日になった2020年から、春分・秋分の日の近似式が使える2099年まで対応する。
+// 春分・秋分の日は前年2月の官報で確定するので、近似式の結果と1日ずれる可能性がある
+const FIRST_HOLIDAY_YEAR = 2020;
+const LAST_HOLIDAY_YEAR = 2099;
+
+// 東京オリンピック・パラリンピックに合わせて移された祝日
+const HOLIDAY_OVERRIDES: Record<number, Record<string, string>> = {
+  2020: { 海の日: "07-23", スポーツの日: "07-24", 山の日: "08-10" },
+  2021: { 海の日: "07-22", スポーツの日: "07-23", 山の日: "08-08" },
+};
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/** year 年 month 月の第 nth 月曜日 (ハッピーマンデー) の日 */
+function nthMonday(year: number, month: number, nth: number): number {
+  const firstDay = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return 1 + ((8 - firstDay) % 7) + (nth - 1) * 7;
+}
+
+/** 春分・秋分の日。1980〜2099年に使える近似式 */
+function equinoxDay(year: number, base: number): number {
+  const elapsed = year - 1980;
+  return Math.floor(base + 0.242194 * elapsed - Math.floor(elapsed / 4));
+}
+
+function computeHolidays(year: number): Map<string, string> {
+  const holidays: [string, string][] = [
+    ["01-01", "元日"],
+    [`01-${pad(nthMonday(year, 1, 2))}`, "成人の日"],
+    ["02-11", "建国記念の日"],
+    ["02-23", "天皇誕生日"],
+    [`03-${pad(equinoxDay(year, 20.8431))}`, "春分の日"],
+    ["04-29", "昭和の日"],
+    ["05-03", "憲法記念日"],
+    ["05-04", "みどりの日"],
+    ["05-05", "こどもの日"],
+    [`07-${pad(nthMonday(year, 7, 3))}`, "海の日"],
+    ["08-11", "山の日"],
+    [`09-${pad(nthMonday(year, 9, 3))}`, "敬老の日"],
+    [`09-${pad(equinoxDay(year, 23.2488))}`, "秋分の日"],
+    [`10-${pad(nthMonday(year, 10, 2))}`, "スポーツの日"],
+    ["11-03", "文化の日"],
+    ["11-23", "勤労感謝の日"],
+  ];
+  const overrides = HOLIDAY_OVERRIDES[year] ?? {};
+  const national = new Map(
+    holidays.map(([monthDay, name]) => [
+      `${year}-${overrides[name] ?? monthDay}`,
+      name,
+    ]),
+  );
+
+  const result = new Map(national);
+  for (const date of national.keys()) {
+    // 前日と翌日が祝日の日は国民の休日
+    const next = addDays(date, 1);
+    if (!national.has(next) && national.has(addDays(date, 2))) {
+      result.set(next, "国民の休日");
+    }
+    // 日曜の祝日は、その後の最も近い休日でない日が振替休日
+    if (parseDate(date).getUTCDay() === 0) {
+      let substitute = next;
+      while (national.has(substitute)) {
+        substitute = addDays(substitute, 1);
+      }
+      result.set(substitute, "振替休日");
+    }
+  }
+  return result;
+}
+
+const holidaysByYear = new Map<number, Map<string, string>>();
+const warnedYears = new Set<number>();
+
+/** 祝日ならその名前を返す。対応していない年は警告を出し、祝日なしとして扱う */
+export function holidayName(date: string): string | null {
+  const year = Number(date.slice(0, 4));
+  if (year < FIRST_HOLIDAY_YEAR || year > LAST_HOLIDAY_YEAR) {
+    if (!warnedYears.has(year)) {
+      warnedYears.add(year);
+      console.warn(
+        `Japanese holidays are only computed for ${FIRST_HOLIDAY_YEAR}-${LAST_HOLIDAY_YEAR}; treating ${year} as having no holidays.`,
+      );
+    }
+    return null;
+  }
+  let holidays = holidaysByYear.get(year);
+  if (!holidays) {
+    holidays = computeHolidays(year);
+    holidaysByYear.set(year, holidays);
+  }
+  return holidays.get(date) ?? null;
+}
+
+const DAY_OF_WEEK_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
+/** 曜日と祝日名の表示 (例: "火", "月・振替休日") */
+export function dayLabel(date: string): string {
+  const dayOfWeek = DAY_OF_WEEK_LABELS[parseDate(date).getUTCDay()];
+  const holiday = holidayName(date);
+  return holiday ? `${dayOfWeek}・${holiday}` : dayOfWeek;
+}
+
+// 鉄道のダイヤの種別
+export type DayType = "weekday" | "saturday" | "holiday";
+
+/** 日付のダイヤの種別。日曜と祝日は休日ダイヤとする */
+export function dayTypeOf(date: string): DayType {
+  const dayOfWeek = parseDate(date).getUTCDay();
+  if (dayOfWeek === 0 || holidayName(date)) return "holiday";
+  if (dayOfWeek === 6) return "saturday";
+  return "weekday";
+}
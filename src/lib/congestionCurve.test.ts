@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { buildCongestionCurve, eventHourlyLoad } from "@/lib/congestionCurve";
+import type { ScoredFacility } from "@/lib/congestionScore";
+
+const facility = (
+  attendees: number,
+  windows: [number, number, string][],
+): ScoredFacility => ({
+  facility_name: "テスト会場",
+  events: [
+    {
+      event_name: "テストイベント",
+      estimated_attendees: attendees,
+      congestion_predictions: windows.map(([start_hour, end_hour, label]) => ({
+        start_hour,
+        end_hour,
+        label,
+      })),
+      scale: 5,
+      reason: "",
+    },
+  ],
+});
+
+// 24000人/日。0〜7時に7%、7〜10時に30%、10〜24時に63%
+const TIME_ZONES = [
+  { start: 0, end: 7, ratio: 0.07 },
+  { start: 7, end: 10, ratio: 0.3 },
+  { start: 10, end: 24, ratio: 0.63 },
+];
+const PASSENGERS = 24000;
+
+describe("eventHourlyLoad", () => {
+  it("builds up arrivals towards the start of the event", () => {
+    const load = eventHourlyLoad([facility(6000, [[16, 19, "開場前"]])]);
+
+    expect(load.slice(16, 19)).toEqual([1000, 2000, 3000]);
+    expect(load.reduce((a, b) => a + b, 0)).toBe(6000);
+  });
+
+  it("concentrates departures right after the event", () => {
+    const load = eventHourlyLoad([facility(3000, [[21, 23, "終演後"]])]);
+
+    expect(load.slice(21, 23)).toEqual([2000, 1000]);
+  });
+
+  it("puts a window within one hour into that hour", () => {
+    const load = eventHourlyLoad([facility(500, [[17.5, 18, "開場前"]])]);
+
+    expect(load[17]).toBe(500);
+    expect(load[18]).toBe(0);
+  });
+
+  it("keeps a window that runs past midnight within the day", () => {
+    const load = eventHourlyLoad([facility(800, [[23, 25, "終演後"]])]);
+
+    expect(load).toHaveLength(24);
+    expect(load[23]).toBe(800);
+  });
+
+  it("adds up the windows of every facility", () => {
+    const load = eventHourlyLoad([
+      facility(1000, [
+        [17, 18, "開場前"],
+        [21, 22, "終演後"],
+      ]),
+      facility(2000, [[17, 18, "開場前"]]),
+    ]);
+
+    expect(load[17]).toBe(3000);
+    expect(load[21]).toBe(1000);
+  });
+
+  it("returns zeros without facilities", () => {
+    expect(eventHourlyLoad([])).toEqual(new Array(24).fill(0));
+  });
+});
+
+describe("buildCongestionCurve", () => {
+  it("indexes each hour against the busiest normal hour", () => {
+    const curve = buildCongestionCurve(PASSENGERS, TIME_ZONES, []);
+
+    expect(curve.hours).toHaveLength(24);
+    expect(curve.hours[8]).toEqual({
+      hour: 8,
+      baseline: 2400,
+      event_load: 0,
+      index: 100,
+    });
+    expect(curve.hours[12].index).toBe(45);
+    expect(curve.busiest_hour).toBe(7);
+  });
+
+  it("does not pick an hour before the first train as the quietest", () => {
+    const curve = buildCongestionCurve(PASSENGERS, TIME_ZONES, []);
+
+    // 0〜6時は同じ混雑だが、始発前の0〜4時は候補から外す
+    expect(curve.hours[0].index).toBe(curve.hours[5].index);
+    expect(curve.quietest_hour).toBe(5);
+  });
+
+  it("adds the event load on top of the baseline", () => {
+    const curve = buildCongestionCurve(PASSENGERS, TIME_ZONES, [
+      facility(6000, [[20, 21, "開場前"]]),
+    ]);
+
+    expect(curve.hours[20]).toEqual({
+      hour: 20,
+      baseline: 1080,
+      event_load: 6000,
+      index: 295,
+    });
+    expect(curve.busiest_hour).toBe(20);
+  });
+
+  it("moves the quietest hour away from an event", () => {
+    const curve = buildCongestionCurve(PASSENGERS, TIME_ZONES, [
+      facility(1000, [
+        [5, 6, "終演後"],
+        [6, 7, "開場前"],
+      ]),
+    ]);
+
+    expect(curve.quietest_hour).toBe(10);
+  });
+
+  it("returns a flat curve for a station without passengers", () => {
+    const curve = buildCongestionCurve(0, TIME_ZONES, []);
+
+    expect(curve.hours.every((h) => h.index === 0)).toBe(true);
+    expect(curve.quietest_hour).toBe(5);
+    expect(curve.busiest_hour).toBe(0);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  passengersInWindow,
+  type ScoredFacility,
+  type TimeZone,
+} from "@/lib/congestionScore";
+
+export const HOURS_PER_DAY = 24;
+
+// 始発前の時間帯は「空いている時間」の候補から外す
+const SERVICE_START_HOUR = 5;
+
+// 終演後の来場者は開演前より短時間に集中して駅へ向かう
+const DEPARTURE_LABEL = "終演後";
+
+export type HourlyCongestion = {
+  hour: number;
+  // 平常時にその1時間で駅を利用する人数
+  baseline: number;
+  // イベント来場者による上乗せ人数
+  event_load: number;
+  // 平常時の最混雑時間帯を100とした混雑指数
+  index: number;
+};
+
+export type CongestionCurve = {
+  hours: HourlyCongestion[];
+  quietest_hour: number;
+  busiest_hour: number;
+};
+
+/** 時間帯ごとの利用割合を、0〜23時の1時間ごとの利用者数に展開する */
+export function baselineHourlyLoad(
+  stationPassengers: number,
+  timeZones: TimeZone[],
+): number[] {
+  return Array.from({ length: HOURS_PER_DAY }, (_, hour) =>
+    passengersInWindow(
+      stationPassengers,
+      { start_hour: hour, end_hour: hour + 1 },
+      timeZones,
+    ),
+  );
+}
+
+/**
+ * 来場者の到着・退出を1時間ごとの人数に配分する。
+ * 到着は開演に向けて徐々に増え、退出は終演直後に集中する形にする。
+ */
+export function eventHourlyLoad(facilities: ScoredFacility[]): number[] {
+  const load = new Array<number>(HOURS_PER_DAY).fill(0);
+
+  for (const facility of facilities) {
+    for (const event of facility.events) {
+      for (const prediction of event.congestion_predictions) {
+        const firstHour = Math.floor(prediction.start_hour);
+        const lastHour = Math.min(
+          HOURS_PER_DAY - 1,
+          Math.max(firstHour, Math.ceil(prediction.end_hour) - 1),
+        );
+        const span = lastHour - firstHour + 1;
+        const isDeparture = prediction.label === DEPARTURE_LABEL;
+
+        const weights = Array.from({ length: span }, (_, i) =>
+          isDeparture ? span - i : i + 1,
+        );
+        const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+        weights.forEach((weight, i) => {
+          load[firstHour + i] +=
+            (event.estimated_attendees * weight) / totalWeight;
+        });
+      }
+    }
+  }
+  return load;
+}
+
+/** 平常時の駅の利用状況とイベントの影響を合わせた24時間分の混雑曲線 */
+export function buildCongestionCurve(
+  stationPassengers: number,
+  timeZones: TimeZone[],
+  facilities: ScoredFacility[],
+): CongestionCurve {
+  const baseline = baselineHourlyLoad(stationPassengers, timeZones);
+  const eventLoad = eventHourlyLoad(facilities);
+  const peakBaseline = Math.max(...baseline);
+
+  const hours = baseline.map((base, hour) => ({
+    hour,
+    baseline: Math.round(base),
+    event_load: Math.round(eventLoad[hour]),
+    index:
+      peakBaseline > 0
+        ? Math.round(((base + eventLoad[hour]) / peakBaseline) * 100)
+        : 0,
+  }));
+
+  const serviceHours = hours.filter((h) => h.hour >= SERVICE_START_HOUR);
+  const quietest = serviceHours.reduce((min, h) =>
+    h.index < min.index ? h : min,
+  );
+  const busiest = hours.reduce((max, h) => (h.index > max.index ? h : max));
+
+  return {
+    hours,
+    quietest_hour: quietest.hour,
+    busiest_hour: busiest.hour,
+  };
+}
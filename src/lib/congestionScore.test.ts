@@ -0,0 +1,248 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyStation,
+  passengersInWindow,
+  peakWindowPassengers,
+  STATION_PROFILES,
+  STATION_TYPE_THRESHOLDS,
+  type StationType,
+  scaleFor,
+  scoreEvent,
+  scoreFacilities,
+} from "@/lib/congestionScore";
+import type { PredictedEvent } from "@/lib/eventPredictor";
+
+const event = (
+  attendees: number,
+  windows: [number, number][],
+): PredictedEvent => ({
+  event_name: "テストイベント",
+  estimated_attendees: attendees,
+  congestion_predictions: windows.map(([start_hour, end_hour]) => ({
+    start_hour,
+    end_hour,
+    label: "開場前",
+  })),
+});
+
+// ライブラリに切り出す前の POST /api/events の計算をそのまま写したもの
+function baselineScore(event: PredictedEvent, stationPassengers: number) {
+  const attendees = event.estimated_attendees || 0;
+  let scale = 1;
+  let weightedPassengers = 0;
+  const timeZones = [
+    { start: 7, end: 10, ratio: 0.12 },
+    { start: 10, end: 17, ratio: 0.05 },
+    { start: 17, end: 20, ratio: 0.12 },
+    { start: 20, end: 24, ratio: 0.05 },
+    { start: 0, end: 7, ratio: 0.01 },
+  ];
+  for (const prediction of event.congestion_predictions) {
+    let peakWeightedPassengers = 0;
+    for (const zone of timeZones) {
+      const overlapStart = Math.max(prediction.start_hour, zone.start);
+      const overlapEnd = Math.min(prediction.end_hour, zone.end);
+      const overlapDuration = Math.max(0, overlapEnd - overlapStart);
+      if (overlapDuration > 0) {
+        const zoneDuration = zone.end - zone.start;
+        if (zoneDuration > 0) {
+          const passengersPerHourInZone =
+            (stationPassengers * zone.ratio) / zoneDuration;
+          peakWeightedPassengers += passengersPerHourInZone * overlapDuration;
+        }
+      }
+    }
+    weightedPassengers = Math.max(weightedPassengers, peakWeightedPassengers);
+  }
+  const ratio = weightedPassengers > 0 ? attendees / weightedPassengers : 0;
+  if (ratio > 0.5 || attendees > 50000) {
+    scale = 10;
+  } else if (ratio > 0.2 || attendees > 10000) {
+    scale = 8;
+  } else if (ratio > 0.05) {
+    scale = 5;
+  } else if (attendees > 0) {
+    scale = 3;
+  }
+  return {
+    scale,
+    reason: `来場者予測:${attendees}人 / 駅利用者(時間帯考慮):${Math.round(weightedPassengers)}人`,
+  };
+}
+
+describe("classifyStation", () => {
+  it.each<[number, StationType]>([
+    [0, "suburban"],
+    [STATION_TYPE_THRESHOLDS.suburban - 1, "suburban"],
+    [STATION_TYPE_THRESHOLDS.suburban, "urban"],
+    [STATION_TYPE_THRESHOLDS.terminal - 1, "urban"],
+    [STATION_TYPE_THRESHOLDS.terminal, "terminal"],
+    [1_500_000, "terminal"],
+  ])("classifies %i daily boardings as %s", (boardings, type) => {
+    expect(classifyStation(boardings)).toBe(type);
+  });
+});
+
+describe("passengersInWindow", () => {
+  const { timeZones } = STATION_PROFILES.urban;
+
+  it("prorates the passengers of each overlapping zone by the hour", () => {
+    // 朝ラッシュ 7〜10時の 12% を1時間分
+    expect(
+      passengersInWindow(300000, { start_hour: 8, end_hour: 9 }, timeZones),
+    ).toBeCloseTo(12000);
+    // 9〜11時は朝ラッシュ1時間 + 昼間1時間
+    expect(
+      passengersInWindow(300000, { start_hour: 9, end_hour: 11 }, timeZones),
+    ).toBeCloseTo(12000 + (300000 * 0.05) / 7);
+  });
+
+  it("returns 0 for an empty or inverted window", () => {
+    expect(
+      passengersInWindow(300000, { start_hour: 9, end_hour: 9 }, timeZones),
+    ).toBe(0);
+    expect(
+      passengersInWindow(300000, { start_hour: 12, end_hour: 10 }, timeZones),
+    ).toBe(0);
+  });
+
+  it("uses the busiest window when there are several", () => {
+    const windows = event(1000, [
+      [13, 14],
+      [18, 19],
+    ]).congestion_predictions;
+    expect(peakWindowPassengers(300000, windows, timeZones)).toBeCloseTo(12000);
+    expect(peakWindowPassengers(300000, [], timeZones)).toBe(0);
+  });
+});
+
+describe("scaleFor", () => {
+  const profile = STATION_PROFILES.urban;
+
+  it.each([
+    // [来場者数, 時間帯の駅利用者数, 混雑度]
+    [60000, 1_000_000, 10], // 来場者数の絶対値
+    [5001, 10000, 10], // 比率 > 0.5
+    [5000, 10000, 8], // 比率 0.5 ちょうどは一段下
+    [10001, 1_000_000, 8],
+    [2001, 10000, 8],
+    [501, 10000, 5],
+    [500, 10000, 3],
+    [1, 10000, 3],
+    [0, 10000, 1],
+  ])(
+    "scores %i attendees against %i passengers as %i",
+    (attendees, passengers, scale) => {
+      expect(scaleFor(attendees, passengers, profile)).toBe(scale);
+    },
+  );
+
+  it("treats a window without passengers as ratio 0", () => {
+    expect(scaleFor(100, 0, profile)).toBe(3);
+    expect(scaleFor(0, 0, profile)).toBe(1);
+  });
+
+  it("falls back to baseScale when no level matches", () => {
+    expect(
+      scaleFor(100, 10000, {
+        scaleLevels: [{ scale: 9, minRatio: 0.5 }],
+        baseScale: 2,
+      }),
+    ).toBe(2);
+  });
+});
+
+describe("per-profile thresholds", () => {
+  // 同じ来場者数・同じ時間帯の駅利用者数でも、駅種別ごとの基準で混雑度が変わる
+  it.each<[StationType, number]>([
+    ["terminal", 5],
+    ["urban", 8],
+    ["suburban", 8],
+  ])("scores a ratio of 0.22 at a %s station as %i", (type, scale) => {
+    expect(scaleFor(2200, 10000, STATION_PROFILES[type])).toBe(scale);
+  });
+
+  it.each<[StationType, number]>([
+    ["terminal", 8],
+    ["urban", 8],
+    ["suburban", 10],
+  ])("scores 35000 attendees at a %s station as %i", (type, scale) => {
+    expect(scaleFor(35000, 1_000_000, STATION_PROFILES[type])).toBe(scale);
+  });
+
+  it("weighs the suburban morning peak more heavily than the urban one", () => {
+    const windows = event(0, [[7, 8]]).congestion_predictions;
+    expect(
+      peakWindowPassengers(
+        100000,
+        windows,
+        STATION_PROFILES.suburban.timeZones,
+      ),
+    ).toBeCloseTo(5000);
+    expect(
+      peakWindowPassengers(100000, windows, STATION_PROFILES.urban.timeZones),
+    ).toBeCloseTo(4000);
+  });
+
+  it("orders every profile's levels from the highest scale down", () => {
+    for (const profile of Object.values(STATION_PROFILES)) {
+      const scales = profile.scaleLevels.map((l) => l.scale);
+      expect(scales).toEqual([...scales].sort((a, b) => b - a));
+      expect(profile.baseScale).toBeLessThan(Math.min(...scales));
+    }
+  });
+});
+
+describe("urban profile regression", () => {
+  const stationPassengers = [0, 5000, 50000, 120000, 600000, 3_000_000];
+  const attendees = [0, 1, 300, 2500, 9999, 10001, 25000, 50001];
+  const windows: [number, number][][] = [
+    [],
+    [[8, 9]],
+    [[6, 8]],
+    [
+      [12, 13],
+      [15, 16],
+    ],
+    [
+      [17, 18],
+      [21, 22],
+    ],
+    [[19, 23]],
+    [[0, 24]],
+  ];
+
+  it("matches the scores of the original events route", () => {
+    for (const passengers of stationPassengers) {
+      for (const count of attendees) {
+        for (const window of windows) {
+          const input = event(count, window);
+          const { scale, reason } = scoreEvent(
+            input,
+            passengers,
+            STATION_PROFILES.urban,
+          );
+          expect({ scale, reason }).toEqual(baselineScore(input, passengers));
+        }
+      }
+    }
+  });
+
+  it("keeps the facility and event fields when scoring", () => {
+    const [scored] = scoreFacilities(
+      [{ facility_name: "東京ドーム", events: [event(40000, [[17, 18]])] }],
+      300000,
+      STATION_PROFILES.urban,
+    );
+    expect(scored).toEqual({
+      facility_name: "東京ドーム",
+      events: [
+        {
+          ...event(40000, [[17, 18]]),
+          scale: 10,
+          reason: "来場者予測:40000人 / 駅利用者(時間帯考慮):12000人",
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import type {
+  CongestionPrediction,
+  FacilityEvents,
+  PredictedEvent,
+} from "@/lib/eventPredictor";
+
+// 駅の1日の利用者数のうち、各時間帯に占める割合
+export type TimeZone = {
+  start: number;
+  end: number;
+  ratio: number;
+};
+
+// 「来場者数 / 時間帯の駅利用者数」の比率と来場者数の絶対値から混雑度を決める。
+// 上から順に評価し、どちらかの条件を満たした最初の段階を採用する。
+export type ScaleLevel = {
+  scale: number;
+  minRatio?: number;
+  minAttendees?: number;
+};
+
+export type StationProfile = {
+  timeZones: TimeZone[];
+  scaleLevels: ScaleLevel[];
+  // どの段階にも当てはまらない場合の混雑度
+  baseScale: number;
+};
+
+export type StationType = "terminal" | "urban" | "suburban";
+
+export type ScoredEvent = PredictedEvent & {
+  scale: number;
+  reason: string;
+};
+
+export type ScoredFacility = {
+  facility_name: string;
+  events: ScoredEvent[];
+};
+
+const DEFAULT_SCALE_LEVELS: ScaleLevel[] = [
+  { scale: 10, minRatio: 0.5, minAttendees: 50000 },
+  { scale: 8, minRatio: 0.2, minAttendees: 10000 },
+  { scale: 5, minRatio: 0.05 },
+  { scale: 3, minAttendees: 0 },
+];
+
+export const STATION_PROFILES: Record<StationType, StationProfile> = {
+  // 乗換客が終日多く、ラッシュ以外の時間帯も利用が落ちにくい
+  terminal: {
+    timeZones: [
+      { start: 7, end: 10, ratio: 0.1 },
+      { start: 10, end: 17, ratio: 0.06 },
+      { start: 17, end: 20, ratio: 0.1 },
+      { start: 20, end: 24, ratio: 0.05 },
+      { start: 0, end: 7, ratio: 0.01 },
+    ],
+    scaleLevels: [
+      { scale: 10, minRatio: 0.6, minAttendees: 50000 },
+      { scale: 8, minRatio: 0.25, minAttendees: 20000 },
+      { scale: 5, minRatio: 0.08 },
+      { scale: 3, minAttendees: 0 },
+    ],
+    baseScale: 1,
+  },
+  urban: {
+    timeZones: [
+      { start: 7, end: 10, ratio: 0.12 }, // 朝ラッシュ
+      { start: 10, end: 17, ratio: 0.05 }, // 昼間
+      { start: 17, end: 20, ratio: 0.12 }, // 夕ラッシュ
+      { start: 20, end: 24, ratio: 0.05 }, // 夜
+      { start: 0, end: 7, ratio: 0.01 }, // 早朝・深夜
+    ],
+    scaleLevels: DEFAULT_SCALE_LEVELS,
+    baseScale: 1,
+  },
+  // 通勤利用が中心で、日中は空いている。少ない来場者でも影響が出やすい
+  suburban: {
+    timeZones: [
+      { start: 6, end: 9, ratio: 0.15 },
+      { start: 9, end: 17, ratio: 0.035 },
+      { start: 17, end: 20, ratio: 0.12 },
+      { start: 20, end: 24, ratio: 0.04 },
+      { start: 0, end: 6, ratio: 0.005 },
+    ],
+    scaleLevels: [
+      { scale: 10, minRatio: 0.4, minAttendees: 30000 },
+      { scale: 8, minRatio: 0.15, minAttendees: 5000 },
+      { scale: 5, minRatio: 0.04 },
+      { scale: 3, minAttendees: 0 },
+    ],
+    baseScale: 1,
+  },
+};
+
+// 1日の乗車人員による駅種別の境界
+export const STATION_TYPE_THRESHOLDS = {
+  terminal: 300000,
+  suburban: 30000,
+};
+
+/** 1日の乗車人員から駅種別を判定する */
+export function classifyStation(dailyBoardingPassengers: number): StationType {
+  if (dailyBoardingPassengers >= STATION_TYPE_THRESHOLDS.terminal) {
+    return "terminal";
+  }
+  if (dailyBoardingPassengers < STATION_TYPE_THRESHOLDS.suburban) {
+    return "suburban";
+  }
+  return "urban";
+}
+
+/**
+ * 指定した時間帯 (start_hour〜end_hour) に駅を利用する人数を、
+ * 時間帯ごとの利用割合から按分して求める。
+ */
+export function passengersInWindow(
+  stationPassengers: number,
+  window: Pick<CongestionPrediction, "start_hour" | "end_hour">,
+  timeZones: TimeZone[],
+): number {
+  let passengers = 0;
+  for (const zone of timeZones) {
+    const overlapStart = Math.max(window.start_hour, zone.start);
+    const overlapEnd = Math.min(window.end_hour, zone.end);
+    const overlapDuration = Math.max(0, overlapEnd - overlapStart);
+    const zoneDuration = zone.end - zone.start;
+
+    if (overlapDuration > 0 && zoneDuration > 0) {
+      const passengersPerHourInZone =
+        (stationPassengers * zone.ratio) / zoneDuration;
+      passengers += passengersPerHourInZone * overlapDuration;
+    }
+  }
+  return passengers;
+}
+
+/** 複数のピーク時間帯がある場合は、駅利用者が最も多い時間帯を採用する */
+export function peakWindowPassengers(
+  stationPassengers: number,
+  predictions: CongestionPrediction[],
+  timeZones: TimeZone[],
+): number {
+  return predictions.reduce(
+    (max, prediction) =>
+      Math.max(
+        max,
+        passengersInWindow(stationPassengers, prediction, timeZones),
+      ),
+    0,
+  );
+}
+
+/** 来場者数と時間帯の駅利用者数から 1〜10 の混雑度を求める */
+export function scaleFor(
+  attendees: number,
+  windowPassengers: number,
+  profile: Pick<StationProfile, "scaleLevels" | "baseScale">,
+): number {
+  const ratio = windowPassengers > 0 ? attendees / windowPassengers : 0;
+  const level = profile.scaleLevels.find(
+    (l) =>
+      (l.minRatio !== undefined && ratio > l.minRatio) ||
+      (l.minAttendees !== undefined && attendees > l.minAttendees),
+  );
+  return level ? level.scale : profile.baseScale;
+}
+
+export function scoreEvent(
+  event: PredictedEvent,
+  stationPassengers: number,
+  profile: StationProfile,
+): ScoredEvent {
+  const attendees = event.estimated_attendees;
+  const windowPassengers = peakWindowPassengers(
+    stationPassengers,
+    event.congestion_predictions,
+    profile.timeZones,
+  );
+  return {
+    ...event,
+    scale: scaleFor(attendees, windowPassengers, profile),
+    reason: `来場者予測:${attendees}人 / 駅利用者(時間帯考慮):${Math.round(windowPassengers)}人`,
+  };
+}
+
+export function scoreFacilities(
+  facilities: FacilityEvents[],
+  stationPassengers: number,
+  profile: StationProfile,
+): ScoredFacility[] {
+  return facilities.map((facility) => ({
+    ...facility,
+    events: facility.events.map((event) =>
+      scoreEvent(event, stationPassengers, profile),
+    ),
+  }));
+}
@@ -0,0 +1,472 @@
+import { enumerateDates, isDateString } from "@/lib/calendar";
+import {
+  classifyStation,
+  type ScoredFacility,
+  STATION_PROFILES,
+  type StationProfile,
+  scoreFacilities,
+} from "@/lib/congestionScore";
+import type {
+  EventPrediction,
+  EventPredictor,
+  FacilityEvents,
+  FacilityProfile,
+} from "@/lib/eventPredictor";
+import { operatorIdFromStationId } from "@/lib/odpt";
+import {
+  DEFAULT_OPERATOR_ID,
+  surveyCountsBoardingOnly,
+} from "@/lib/passengerSurvey";
+import {
+  type CachedPrediction,
+  predictWithCache,
+  readCachedPrediction,
+} from "@/lib/predictionCache";
+import {
+  resolveStationPassengers,
+  type StationPassengerLookup,
+} from "@/lib/stationIdentity";
+import {
+  type DayBaseline,
+  profileBaseline,
+  resolveTimetableFrequency,
+  type TimetableFrequency,
+  timetableBaseline,
+} from "@/lib/stationTimetable";
+import type { DegradedInput } from "@/lib/upstream";
+import { findVenue, listVenues } from "@/lib/venueCatalog";
+
+const DEFAULT_DAILY_BOARDING_PASSENGERS = 25000;
+
+export type EventPipelineInput = {
+  stationId: string;
+  stationName: string;
+  targetDate: string;
+  facilityList: string[];
+  // 施設名をキー、Yahoo!ローカルサーチの Id を値とする。施設カタログの照合に使う
+  facilityIds?: Record<string, string>;
+};
+
+// 駅の平常時の利用状況。日付によらないので複数日の予測でも1回だけ求める
+export type StationLoad = {
+  // 乗車人員と降車人員を合わせた1日の総乗降客数
+  stationPassengers: number;
+  // 乗降者数をどこから得たか。fallback なら既定値を使っている
+  passengerSource: StationPassengerLookup["source"];
+  passengerMatchedStationId: string | null;
+  profile: StationProfile;
+  // 駅時刻表の1時間ごとの発車本数。時刻表がなければ null
+  timetable: TimetableFrequency | null;
+  // 既定値で代用した入力
+  degraded: DegradedInput[];
+};
+
+export type DatePrediction = {
+  targetDate: string;
+  // その日の平常時の利用状況。混雑度と混雑曲線はこれを基準にする
+  baseline: DayBaseline;
+  facilities: ScoredFacility[];
+  warnings: string[];
+  // 予測をキャッシュから返したかどうか
+  cached: boolean;
+};
+
+export type EventPipelineResult = StationLoad &
+  Omit<DatePrediction, "targetDate">;
+
+// 複数日をまとめて予測するときの上限日数
+export const MAX_BATCH_DAYS = 7;
+
+// 単日・複数日で共通の項目を取り出す
+function parseCommonFields(
+  record: Record<string, unknown>,
+): Omit<EventPipelineInput, "targetDate"> | null {
+  const { station_name, station_id, facilities } = record;
+  let { facility_list } = record;
+
+  // facility_list の代わりに Id 付きの facilities: [{ id, name }] も受け付ける
+  const facilityIds: Record<string, string> = {};
+  if (Array.isArray(facilities)) {
+    for (const facility of facilities) {
+      if (
+        typeof facility?.name === "string" &&
+        typeof facility.id === "string"
+      ) {
+        facilityIds[facility.name] = facility.id;
+      }
+    }
+    facility_list ??= Object.keys(facilityIds);
+  }
+
+  if (
+    !Array.isArray(facility_list) ||
+    typeof station_name !== "string" ||
+    !station_name ||
+    typeof station_id !== "string" ||
+    !station_id
+  ) {
+    return null;
+  }
+  return {
+    stationId: station_id,
+    stationName: station_name,
+    facilityList: facility_list.filter(
+      (name): name is string => typeof name === "string",
+    ),
+    facilityIds,
+  };
+}
+
+/**
+ * `/api/events` 系のリクエストボディ (snake_case) を検証して取り出す。
+ * 必須項目が欠けているか、target_date が YYYY-MM-DD 形式の日付でなければ null を返す。
+ */
+export function parseEventPipelineInput(
+  body: unknown,
+): EventPipelineInput | null {
+  if (typeof body !== "object" || body === null) {
+    return null;
+  }
+  const record = body as Record<string, unknown>;
+  const common = parseCommonFields(record);
+  // target_date はキャッシュのキーやフィクスチャのファイル名にも使うので、日付だけを受け付ける
+  if (!common || !isDateString(record.target_date)) {
+    return null;
+  }
+  return { ...common, targetDate: record.target_date };
+}
+
+/**
+ * target_date の代わりに start_date / end_date を指定した複数日のリクエストを取り出す。
+ * 複数日の指定でなければ null、指定が不正ならエラーメッセージを返す。
+ */
+export function parseEventBatchInput(
+  body: unknown,
+):
+  | { input: Omit<EventPipelineInput, "targetDate">; dates: string[] }
+  | string
+  | null {
+  if (typeof body !== "object" || body === null || !("start_date" in body)) {
+    return null;
+  }
+  const record = body as Record<string, unknown>;
+  const { start_date } = record;
+  const end_date = record.end_date ?? start_date;
+  if (!isDateString(start_date) || !isDateString(end_date)) {
+    return "start_date and end_date must be dates in YYYY-MM-DD format.";
+  }
+  if (end_date < start_date) {
+    return "end_date must not be before start_date.";
+  }
+  const dates = enumerateDates(start_date, end_date);
+  if (dates.length > MAX_BATCH_DAYS) {
+    return `The date range must be at most ${MAX_BATCH_DAYS} days.`;
+  }
+
+  const input = parseCommonFields(record);
+  if (!input) {
+    return "facility_list, station_name, and station_id are required.";
+  }
+  return { input, dates };
+}
+
+/**
+ * 収容人数が分かっている施設は、推定来場者数を収容人数で頭打ちにする。
+ */
+export function capAttendeesAtCapacity(
+  prediction: EventPrediction,
+  facilityProfiles: FacilityProfile[],
+): EventPrediction {
+  const warnings = [...prediction.warnings];
+  const capacities = new Map(
+    facilityProfiles.map((p) => [p.facility_name, p.capacity]),
+  );
+
+  const facilities = prediction.facilities.map((facility) => {
+    const capacity = capacities.get(facility.facility_name);
+    if (capacity === undefined) return facility;
+
+    return {
+      ...facility,
+      events: facility.events.map((event) => {
+        if (event.estimated_attendees <= capacity) return event;
+        warnings.push(
+          `${facility.facility_name} / ${event.event_name ?? "名称不明のイベント"}: 推定来場者数を収容人数(${capacity}人)に補正しました`,
+        );
+        return { ...event, estimated_attendees: capacity };
+      }),
+    };
+  });
+  return { facilities, warnings };
+}
+
+/** レスポンスに含める乗降者数の出典。既定値を使った場合は source が fallback になる */
+export function passengerSummary(station: StationLoad) {
+  return {
+    daily: station.stationPassengers,
+    source: station.passengerSource,
+    matched_station_id: station.passengerMatchedStationId,
+  };
+}
+
+/** 混雑曲線と合わせて返す、その日の平常時の利用状況の要約 */
+export function baselineSummary(baseline: DayBaseline) {
+  return {
+    day_type: baseline.dayType,
+    daily_passengers: Math.round(baseline.passengers),
+    source: baseline.source,
+  };
+}
+
+/**
+ * 日付ごとの平常時の利用状況。駅時刻表があれば曜日・祝日に応じた本数から、
+ * なければ駅種別の既定の時間帯別割合を土休日向けに補正して求める。
+ */
+export function dayBaseline(
+  station: StationLoad,
+  targetDate: string,
+): DayBaseline {
+  return (
+    (station.timetable &&
+      timetableBaseline(
+        station.timetable,
+        targetDate,
+        station.stationPassengers,
+        station.profile.timeZones,
+      )) ??
+    profileBaseline(
+      targetDate,
+      station.stationPassengers,
+      station.profile.timeZones,
+    )
+  );
+}
+
+/**
+ * 駅の事業者の乗降者数データと駅時刻表から、平常時の利用状況を求める。
+ * 路線ごとに駅IDが異なるため、同じ駅舎の他路線の駅IDも含めて探す。
+ */
+export async function loadStationLoad(stationId: string): Promise<StationLoad> {
+  const operatorId = operatorIdFromStationId(stationId) ?? DEFAULT_OPERATOR_ID;
+  const [lookup, timetable] = await Promise.all([
+    resolveStationPassengers(stationId, operatorId),
+    resolveTimetableFrequency(stationId),
+  ]);
+  const degraded = [...lookup.degraded, ...timetable.degraded];
+  if (lookup.source === "fallback") {
+    console.warn(
+      `Passenger data not found for station ID: ${stationId}. Using default of ${DEFAULT_DAILY_BOARDING_PASSENGERS}.`,
+    );
+    // 調査は取れたがこの駅の数値がなかった場合
+    if (!degraded.some((d) => d.input === "passengers")) {
+      degraded.push({
+        input: "passengers",
+        fallback: "既定の乗降者数",
+        upstream: null,
+      });
+    }
+  }
+  // 乗車人員のみの事業者は、降車人員も同数とみなして総乗降客数を2倍で概算する
+  const stationPassengers = lookup.passengerJourneys
+    ? surveyCountsBoardingOnly(operatorId)
+      ? lookup.passengerJourneys * 2
+      : lookup.passengerJourneys
+    : DEFAULT_DAILY_BOARDING_PASSENGERS * 2;
+
+  return {
+    stationPassengers,
+    passengerSource: lookup.source,
+    passengerMatchedStationId: lookup.matchedStationId,
+    profile: STATION_PROFILES[classifyStation(stationPassengers / 2)],
+    timetable: timetable.frequency,
+    degraded,
+  };
+}
+
+/** 施設カタログから収容人数などを引く。カタログにない施設は含めない */
+async function loadFacilityProfiles(
+  input: Omit<EventPipelineInput, "targetDate">,
+): Promise<FacilityProfile[]> {
+  const catalog = await listVenues();
+  return input.facilityList.flatMap((name) => {
+    const venue = findVenue(catalog, { id: input.facilityIds?.[name], name });
+    return venue
+      ? [
+          {
+            facility_name: name,
+            capacity: venue.capacity,
+            venue_type: venue.venue_type,
+            opening_lead_minutes: venue.opening_lead_minutes,
+          },
+        ]
+      : [];
+  });
+}
+
+/** 予測結果を収容人数で補正し、その日の平常時の利用状況と比べて混雑度を付ける */
+function scorePrediction(
+  targetDate: string,
+  station: StationLoad,
+  facilityProfiles: FacilityProfile[],
+  prediction: CachedPrediction,
+): DatePrediction {
+  const { facilities, warnings } = capAttendeesAtCapacity(
+    prediction,
+    facilityProfiles,
+  );
+  if (warnings.length > 0) {
+    console.warn(`Event prediction warnings (${targetDate}):`, warnings);
+  }
+
+  // 時間帯ごとの駅利用者数と比較して混雑度を算出
+  const baseline = dayBaseline(station, targetDate);
+  return {
+    targetDate,
+    baseline,
+    facilities: scoreFacilities(facilities, baseline.passengers, {
+      ...station.profile,
+      timeZones: baseline.timeZones,
+    }),
+    warnings,
+    cached: prediction.cached,
+  };
+}
+
+async function predictForDate(
+  predictor: EventPredictor,
+  input: EventPipelineInput,
+  station: StationLoad,
+  facilityProfiles: FacilityProfile[],
+  {
+    refresh = false,
+    signal,
+    onFacility,
+  }: {
+    refresh?: boolean;
+    signal?: AbortSignal;
+    onFacility?: (facility: ScoredFacility) => void;
+  },
+): Promise<DatePrediction> {
+  // 途中経過の施設にも、最終結果と同じ補正と混雑度を付けてから渡す
+  const scoreFacility =
+    onFacility &&
+    ((facility: FacilityEvents) =>
+      onFacility(
+        scorePrediction(input.targetDate, station, facilityProfiles, {
+          facilities: [facility],
+          warnings: [],
+          cached: false,
+        }).facilities[0],
+      ));
+  // 施設がなければ予測プロバイダ (LLM) は呼ばない
+  // 同じ駅・日付・施設の組み合わせはキャッシュを使う
+  const prediction =
+    input.facilityList.length > 0
+      ? await predictWithCache(
+          predictor,
+          { ...input, facilityProfiles },
+          { refresh, signal, onFacility: scoreFacility },
+        )
+      : { facilities: [], warnings: [], cached: false };
+  return scorePrediction(
+    input.targetDate,
+    station,
+    facilityProfiles,
+    prediction,
+  );
+}
+
+/**
+ * 駅の乗降者数を取得し、イベントを予測して混雑度を付けるまでの一連の処理。
+ * 予測は全施設をまとめて1回だけ問い合わせるので、キャッシュキーはどの経路から呼んでも同じになる。
+ * onStationLoad は予測の前、駅の利用状況が分かった時点で呼ぶ (進捗表示用)。
+ * onFacility は予測プロバイダの応答から施設が1つ読めるたびに、混雑度を付けて呼ぶ。
+ * signal が中断されたら予測プロバイダへの問い合わせも中断する。
+ */
+export async function runEventPipeline(
+  predictor: EventPredictor,
+  input: EventPipelineInput,
+  {
+    refresh = false,
+    signal,
+    onStationLoad,
+    onFacility,
+  }: {
+    refresh?: boolean;
+    signal?: AbortSignal;
+    onStationLoad?: (station: StationLoad) => void;
+    onFacility?: (facility: ScoredFacility) => void;
+  } = {},
+): Promise<EventPipelineResult> {
+  const [station, facilityProfiles] = await Promise.all([
+    loadStationLoad(input.stationId),
+    loadFacilityProfiles(input),
+  ]);
+  onStationLoad?.(station);
+  const { targetDate: _, ...prediction } = await predictForDate(
+    predictor,
+    input,
+    station,
+    facilityProfiles,
+    { refresh, signal, onFacility },
+  );
+  return { ...station, ...prediction };
+}
+
+/**
+ * キャッシュ済みの予測だけから runEventPipeline と同じ結果を組み立てる。
+ * 予測プロバイダは呼ばず、まだ予測していなければ null を返す。
+ */
+export async function loadCachedEventPipeline(
+  predictor: EventPredictor,
+  input: EventPipelineInput,
+): Promise<EventPipelineResult | null> {
+  const facilityProfiles = await loadFacilityProfiles(input);
+  const prediction =
+    input.facilityList.length > 0
+      ? await readCachedPrediction(predictor.name, {
+          ...input,
+          facilityProfiles,
+        })
+      : { facilities: [], warnings: [], cached: false };
+  if (!prediction) {
+    return null;
+  }
+  const station = await loadStationLoad(input.stationId);
+  const { targetDate: _, ...day } = scorePrediction(
+    input.targetDate,
+    station,
+    facilityProfiles,
+    prediction,
+  );
+  return { ...station, ...day };
+}
+
+/**
+ * 複数日分のイベントをまとめて予測する。駅の利用状況は1回だけ求め、
+ * 予測プロバイダへのリクエストが集中しないよう日付ごとに順に予測する。
+ */
+export async function runEventPipelineForDates(
+  predictor: EventPredictor,
+  input: Omit<EventPipelineInput, "targetDate">,
+  dates: string[],
+  { refresh = false }: { refresh?: boolean } = {},
+): Promise<{ station: StationLoad; days: DatePrediction[] }> {
+  const [station, facilityProfiles] = await Promise.all([
+    loadStationLoad(input.stationId),
+    loadFacilityProfiles(input),
+  ]);
+  const days: DatePrediction[] = [];
+  for (const targetDate of dates) {
+    days.push(
+      await predictForDate(
+        predictor,
+        { ...input, targetDate },
+        station,
+        facilityProfiles,
+        { refresh },
+      ),
+    );
+  }
+  return { station, days };
+}
@@ -0,0 +1,64 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFixturePredictor } from "./fixture";
+
+const event = (event_name: string) => ({
+  event_name,
+  estimated_attendees: 1000,
+  congestion_predictions: [{ start_hour: 17, end_hour: 18, label: "開場前" }],
+});
+
+describe("createFixturePredictor", () => {
+  let dir: string;
+  const input = (targetDate: string) => ({
+    stationId: "odpt.Station:TokyoMetro.Marunouchi.Korakuen",
+    stationName: "後楽園",
+    targetDate,
+    facilityList: ["東京ドーム"],
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "event-fixtures-"));
+    await mkdir(path.join(dir, "events"));
+    await writeFile(
+      path.join(dir, "events", "default.json"),
+      JSON.stringify({ 東京ドーム: [event("いつものイベント")] }),
+    );
+    await writeFile(
+      path.join(dir, "events", "2026-11-03.json"),
+      JSON.stringify({ 東京ドーム: [event("文化の日のイベント")] }),
+    );
+    // フィクスチャのディレクトリの外にあるファイル
+    await writeFile(
+      path.join(dir, "secret.json"),
+      JSON.stringify({ 東京ドーム: [event("外のファイル")] }),
+    );
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads the fixture of the date and falls back to default.json", async () => {
+    const predictor = createFixturePredictor(path.join(dir, "events"));
+
+    const dated = await predictor.predict(input("2026-11-03"));
+    const fallback = await predictor.predict(input("2026-11-04"));
+
+    expect(dated.facilities[0].events[0].event_name).toBe("文化の日のイベント");
+    expect(fallback.facilities[0].events[0].event_name).toBe(
+      "いつものイベント",
+    );
+  });
+
+  it("does not read files outside the fixture directory", async () => {
+    const predictor = createFixturePredictor(path.join(dir, "events"));
+
+    const prediction = await predictor.predict(input("../secret"));
+
+    expect(prediction.facilities[0].events[0].event_name).toBe(
+      "いつものイベント",
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { isDateString } from "@/lib/calendar";
+import { validateFacilities } from "./schema";
+import type {
+  EventPrediction,
+  EventPredictionInput,
+  EventPredictOptions,
+  EventPredictor,
+} from "./types";
+
+const DEFAULT_FIXTURE_DIR = "fixtures/events";
+
+// 施設名をキー、イベント一覧を値とするフィクスチャ
+type FixtureFile = Record<string, unknown>;
+
+async function readFixture(filePath: string): Promise<FixtureFile | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * ネットワークもAPIキーも使わず、ローカルのJSONからイベントを返す。
+ * `<dir>/<日付>.json` があればそれを、なければ `<dir>/default.json` を読む。
+ * 同じ入力に対しては常に同じ結果を返すので、開発・デモ・動作確認に使う。
+ */
+export function createFixturePredictor(
+  fixtureDir = process.env.EVENT_FIXTURE_DIR ?? DEFAULT_FIXTURE_DIR,
+): EventPredictor {
+  const baseDir = path.resolve(process.cwd(), fixtureDir);
+
+  return {
+    name: "fixture",
+    async predict(
+      input: EventPredictionInput,
+      { onFacility }: EventPredictOptions = {},
+    ): Promise<EventPrediction> {
+      // 日付でない targetDate をファイル名に使うと、フィクスチャの外のファイルを読めてしまう
+      const dated = isDateString(input.targetDate)
+        ? await readFixture(path.join(baseDir, `${input.targetDate}.json`))
+        : null;
+      const fixture =
+        dated ?? (await readFixture(path.join(baseDir, "default.json"))) ?? {};
+
+      const facilities = input.facilityList.map((facilityName) => {
+        // 完全一致を優先し、なければ部分一致するキーを探す
+        const key =
+          facilityName in fixture
+            ? facilityName
+            : Object.keys(fixture).find((name) => facilityName.includes(name));
+        return {
+          facility_name: facilityName,
+          events: key ? fixture[key] : [],
+        };
+      });
+      // フィクスチャも手書きなので、LLMの応答と同じ検証を通す
+      const prediction = validateFacilities(facilities);
+      for (const facility of prediction.facilities) {
+        onFacility?.(facility);
+      }
+      return prediction;
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// SDK のストリーミング応答を、与えた断片を順に返すものに差し替える
+const sdk = vi.hoisted(() => ({ chunks: [] as string[], yielded: 0 }));
+vi.mock("@google/generative-ai", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@google/generative-ai")>();
+  class GoogleGenerativeAI {
+    getGenerativeModel() {
+      return {
+        async generateContentStream() {
+          async function* stream() {
+            for (const text of sdk.chunks) {
+              sdk.yielded += 1;
+              yield { text: () => text };
+            }
+          }
+          return { stream: stream() };
+        },
+      };
+    }
+  }
+  return { ...actual, GoogleGenerativeAI };
+});
+
+const event = (event_name: string) => ({
+  event_name,
+  estimated_attendees: 1000,
+  congestion_predictions: [{ start_hour: 17, end_hour: 18, label: "開場前" }],
+});
+
+const input = {
+  stationId: "odpt.Station:TokyoMetro.Marunouchi.Korakuen",
+  stationName: "後楽園",
+  targetDate: "2026-11-03",
+  facilityList: ["東京ドーム", "後楽園ホール"],
+};
+
+async function loadPredictor() {
+  vi.resetModules();
+  vi.stubEnv("GEMINI_API_KEY", "test-gemini-key");
+  vi.stubEnv("UPSTREAM_FIXTURE_MODE", "live");
+  const { createGeminiPredictor } = await import("./gemini");
+  const predictor = createGeminiPredictor();
+  if (!predictor) throw new Error("Gemini predictor is not configured");
+  return predictor;
+}
+
+describe("createGeminiPredictor", () => {
+  beforeEach(() => {
+    sdk.yielded = 0;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("passes each facility on as soon as its object is complete", async () => {
+    const first = JSON.stringify({
+      facility_name: "東京ドーム",
+      events: [event("野球")],
+    });
+    const second = JSON.stringify({
+      facility_name: "後楽園ホール",
+      events: [event("ボクシング")],
+    });
+    sdk.chunks = [
+      "```json\n[",
+      first.slice(0, 20),
+      `${first.slice(20)}, ${second.slice(0, 20)}`,
+      second.slice(20),
+      "]\n```",
+    ];
+    const predictor = await loadPredictor();
+    // 施設を受け取った時点で、何個目の断片まで届いていたか
+    const received: [string, number][] = [];
+
+    const prediction = await predictor.predict(input, {
+      onFacility: (facility) =>
+        received.push([facility.facility_name, sdk.yielded]),
+    });
+
+    expect(received).toEqual([
+      ["東京ドーム", 3],
+      ["後楽園ホール", 4],
+    ]);
+    expect(prediction.facilities.map((f) => f.facility_name)).toEqual([
+      "東京ドーム",
+      "後楽園ホール",
+    ]);
+  });
+
+  it("skips a facility without a name and keeps passing on the rest", async () => {
+    sdk.chunks = [
+      JSON.stringify([
+        { events: [event("野球")] },
+        { facility_name: "後楽園ホール", events: [event("ボクシング")] },
+      ]),
+    ];
+    const predictor = await loadPredictor();
+    const received: string[] = [];
+
+    await predictor.predict(input, {
+      onFacility: (facility) => received.push(facility.facility_name),
+    });
+
+    expect(received).toEqual(["後楽園ホール"]);
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+  HarmBlockThreshold,
+  HarmCategory,
+  type Tool,
+} from "@google/generative-ai";
+import { dayLabel } from "@/lib/calendar";
+import { callUpstream } from "@/lib/httpClient";
+import { toUpstreamError, UpstreamError } from "@/lib/upstream";
+import { callWithTextFixture } from "@/lib/upstreamFixtures";
+import {
+  extractCompleteArrayItems,
+  parseEventResponse,
+  parseJsonLoosely,
+  validateFacilities,
+} from "./schema";
+import type {
+  EventPrediction,
+  EventPredictionInput,
+  EventPredictOptions,
+  EventPredictor,
+} from "./types";
+
+const SYSTEM_PROMPT = `
+あなたは施設のイベント来場者予測AIです。Google検索を使用し、入力情報に基づき以下のJSON形式のみを出力してください。Markdownは不要です。
+
+### ルール
+1. **検索の最適化**: 複数の施設を調査する場合、個別に検索するのではなく、できるだけ1回のGoogle検索で済むようにクエリを工夫してください。例えば、「(施設名1 OR 施設名2) YYYY年MM月DD日 イベント」のように、OR演算子を使って検索をまとめてください。
+2. **イベント特定**: 各施設のイベントを調査。複数ある場合は全て列挙。イベントがない場合は空の配列を出力。
+3. **来場者数予測**: イベントの推定来場者数を予測し、数値で出力してください。
+4. **ピーク算出**: 開始1-2時間前を「開場前」、終了0-1時間後を「終演後」として24時間制数値で出力。
+5. **施設情報の利用**: 施設情報が与えられた施設は、推定来場者数を収容人数(capacity)以下とし、「開場前」は開始の opening_lead_minutes 分前を目安にしてください。
+
+### 出力スキーマ
+[
+  {
+    "facility_name": "string",
+    "events": [
+      {
+        "event_name": "string",
+        "estimated_attendees": number,
+        "congestion_predictions": [
+          { "start_hour": number, "end_hour": number, "label": "開場前" },
+          { "start_hour": number, "end_hour": number, "label": "終演後" }
+        ]
+      }
+    ]
+  }
+]
+`;
+
+const MODEL_NAME = "gemini-2.5-flash";
+
+// SDKの型定義は旧形式の googleSearchRetrieval しか持たないため、
+// gemini-2.5 系で必要な google_search をキャストして渡す
+const GOOGLE_SEARCH_TOOL = { google_search: {} } as unknown as Tool;
+
+const _safetySettings = [
+  {
+    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+];
+
+// SDK のエラーを発生元・ステータス付きの UpstreamError にする
+function toGeminiError(error: unknown): UpstreamError {
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    return new UpstreamError("gemini", error.message, {
+      status: error.status ?? null,
+      cause: error,
+    });
+  }
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    // 安全フィルタなどで応答が止められた。同じ入力で再試行しても変わらない
+    return new UpstreamError("gemini", error.message, {
+      retryable: false,
+      cause: error,
+    });
+  }
+  return toUpstreamError("gemini", error);
+}
+
+/**
+ * 応答テキストを受け取るたびに、閉じ括弧まで届いた施設を onFacility に渡す関数を作る。
+ * 再試行で応答を最初から受け取り直しても、渡し済みの施設は渡さない。
+ */
+function createFacilityEmitter(
+  onFacility: EventPredictOptions["onFacility"],
+): (text: string) => void {
+  let emitted = 0;
+  return (text) => {
+    if (!onFacility) return;
+    const items = extractCompleteArrayItems(text);
+    for (; emitted < items.length; emitted++) {
+      try {
+        const [facility] = validateFacilities(
+          parseJsonLoosely(items[emitted]),
+        ).facilities;
+        if (facility) onFacility(facility);
+      } catch (_error) {
+        // 壊れた施設は最後にまとめて検証するときに warnings に残る
+      }
+    }
+  };
+}
+
+/**
+ * Google検索グラウンディング付きの Gemini でイベントを予測する。
+ * 応答はストリーミングで受け取り、施設ごとに onFacility で途中経過を返す。
+ * API の呼び出しに失敗した場合は UpstreamError を投げる。
+ * 応答の期限は GEMINI_TIMEOUT_MS (デフォルト120秒)。
+ * GEMINI_API_KEY が未設定の場合は null を返す。
+ */
+export function createGeminiPredictor(): EventPredictor | null {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    return null;
+  }
+
+  // GEMINI_API_BASE_URL でスタブサーバーなどに差し替えられる
+  const baseUrl = process.env.GEMINI_API_BASE_URL;
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel(
+    {
+      model: MODEL_NAME,
+      tools: [GOOGLE_SEARCH_TOOL],
+      systemInstruction: SYSTEM_PROMPT,
+    },
+    baseUrl ? { baseUrl } : undefined,
+  );
+
+  return {
+    name: "gemini",
+    async predict(
+      input: EventPredictionInput,
+      { signal: callerSignal, onFacility }: EventPredictOptions = {},
+    ): Promise<EventPrediction> {
+      const prompt = `
+### 入力
+- 駅: ${input.stationName}
+- 日付: ${input.targetDate} (${dayLabel(input.targetDate)})
+- 施設: ${JSON.stringify(input.facilityList)}
+- 施設情報: ${JSON.stringify(input.facilityProfiles ?? [])}
+`;
+      const emitFacilities = createFacilityEmitter(onFacility);
+      // タイムアウト・再試行・サーキットブレーカーは共通のクライアントに任せる
+      const responseText = await callUpstream(
+        "gemini",
+        "event prediction",
+        (signal) =>
+          // UPSTREAM_FIXTURE_MODE が replay なら記録した応答を返す
+          callWithTextFixture(
+            "gemini",
+            `${MODEL_NAME}\n${prompt}`,
+            async () => {
+              try {
+                const result = await model.generateContentStream(prompt, {
+                  signal,
+                });
+                let text = "";
+                for await (const chunk of result.stream) {
+                  text += chunk.text();
+                  emitFacilities(text);
+                }
+                return text;
+              } catch (error) {
+                throw toGeminiError(error);
+              }
+            },
+          ),
+        { signal: callerSignal },
+      );
+      console.log("Gemini API Raw Response:", responseText);
+      // 記録した応答の再生ではストリーミングしないので、ここでまとめて渡す
+      emitFacilities(responseText);
+
+      return parseEventResponse(responseText);
+    },
+  };
+}
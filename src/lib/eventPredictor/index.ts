@@ -0,0 +1,34 @@
+import { createFixturePredictor } from "./fixture";
+import { createGeminiPredictor } from "./gemini";
+import type { EventPredictor } from "./types";
+
+export type {
+  CongestionPrediction,
+  EventPrediction,
+  EventPredictionInput,
+  EventPredictOptions,
+  EventPredictor,
+  FacilityEvents,
+  FacilityProfile,
+  PredictedEvent,
+} from "./types";
+
+/**
+ * 環境変数 EVENT_PREDICTOR に応じてイベント予測プロバイダを返す。
+ * - "gemini" (デフォルト): Gemini API。GEMINI_API_KEY が必要
+ * - "fixture": fixtures/events 以下のJSONを返すオフライン用プロバイダ
+ * 設定不足で利用できない場合は null を返す。
+ */
+export function getEventPredictor(): EventPredictor | null {
+  const provider = process.env.EVENT_PREDICTOR ?? "gemini";
+
+  switch (provider) {
+    case "gemini":
+      return createGeminiPredictor();
+    case "fixture":
+      return createFixturePredictor();
+    default:
+      console.error(`Unknown EVENT_PREDICTOR: ${provider}`);
+      return null;
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { extractCompleteArrayItems } from "./schema";
+
+const facility = (name: string) =>
+  JSON.stringify({ facility_name: name, events: [] });
+
+describe("extractCompleteArrayItems", () => {
+  it("returns only the items whose closing bracket has arrived", () => {
+    const text = `[${facility("東京ドーム")}, {"facility_name": "後楽園ホー`;
+
+    expect(extractCompleteArrayItems(text)).toEqual([facility("東京ドーム")]);
+  });
+
+  it("reads items inside a code fence", () => {
+    const text = `\`\`\`json\n[\n${facility("A")},\n${facility("B")}\n]\n\`\`\``;
+
+    expect(extractCompleteArrayItems(text)).toEqual([
+      facility("A"),
+      facility("B"),
+    ]);
+  });
+
+  it("ignores brackets inside strings", () => {
+    const item = JSON.stringify({
+      facility_name: 'ホール "[A]" {B}',
+      events: [],
+    });
+
+    expect(
+      extractCompleteArrayItems(`[${item}, {"facility_name": "}]`),
+    ).toEqual([item]);
+  });
+
+  it("returns nothing when the response is not an array", () => {
+    expect(extractCompleteArrayItems(facility("A"))).toEqual([]);
+    expect(extractCompleteArrayItems("考え中...")).toEqual([]);
+  });
+});
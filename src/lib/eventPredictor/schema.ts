@@ -0,0 +1,261 @@
+import type {
+  CongestionPrediction,
+  EventPrediction,
+  FacilityEvents,
+  PredictedEvent,
+} from "./types";
+
+// LLMの応答は形式が揺れるため、型を検証しつつ可能な範囲で修復する。
+// 修復できない施設・イベントは捨て、その理由を warnings に積む。
+
+type Warnings = string[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 文字列中の最初のJSON配列/オブジェクトを、対応する閉じ括弧まで切り出す。
+ * コードフェンスや前後の説明文が混ざっていても本体だけを取り出せる。
+ */
+export function extractJsonText(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)```/);
+  const source = fenced ? fenced[1] : text;
+
+  const start = source.search(/[[{]/);
+  if (start === -1) {
+    return null;
+  }
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "[" || char === "{") {
+      stack.push(char === "[" ? "]" : "}");
+    } else if (char === "]" || char === "}") {
+      if (stack.pop() !== char) {
+        return null;
+      }
+      if (stack.length === 0) {
+        return source.slice(start, i + 1);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * ストリーミング中の応答テキストから、トップレベルの配列のうち閉じ括弧まで
+ * 届いた要素だけを切り出す。配列の途中までしか届いていなくてもよい。
+ * 応答が配列でなければ空の配列を返す (最後にまとめて parseEventResponse で読む)。
+ */
+export function extractCompleteArrayItems(text: string): string[] {
+  const fenceStart = text.match(/```(?:json)?\s*\n?/);
+  const source = fenceStart
+    ? text.slice((fenceStart.index ?? 0) + fenceStart[0].length)
+    : text;
+  const start = source.search(/[[{]/);
+  if (start === -1 || source[start] !== "[") {
+    return [];
+  }
+
+  const items: string[] = [];
+  let depth = 0;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "[" || char === "{") {
+      depth += 1;
+      if (depth === 2) itemStart = i;
+    } else if (char === "]" || char === "}") {
+      if (depth === 2 && itemStart !== -1) {
+        items.push(source.slice(itemStart, i + 1));
+        itemStart = -1;
+      }
+      depth -= 1;
+      if (depth === 0) break;
+    }
+  }
+  return items;
+}
+
+/** 末尾カンマなど、LLMが出しがちな軽微な崩れを直してからパースする */
+export function parseJsonLoosely(jsonText: string): unknown {
+  try {
+    return JSON.parse(jsonText);
+  } catch (error) {
+    const repaired = jsonText.replace(/,\s*([\]}])/g, "$1");
+    if (repaired === jsonText) {
+      throw error;
+    }
+    return JSON.parse(repaired);
+  }
+}
+
+/** "12,000人" や "約3万" のような数値表現を数値に直す。解釈できなければ null */
+export function coerceNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  const normalized = value
+    .replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/,/g, "");
+  const match = normalized.match(/-?\d+(?:\.\d+)?/);
+  if (!match) {
+    return null;
+  }
+  const num = Number(match[0]);
+  return normalized.includes("万") ? num * 10000 : num;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function clampHour(hour: number): number {
+  return Math.min(24, Math.max(0, hour));
+}
+
+function parsePrediction(
+  raw: unknown,
+  context: string,
+  warnings: Warnings,
+): CongestionPrediction | null {
+  if (!isRecord(raw)) {
+    warnings.push(`${context}: 混雑予測の形式が不正なため除外しました`);
+    return null;
+  }
+  const start = coerceNumber(raw.start_hour);
+  const end = coerceNumber(raw.end_hour);
+  if (start === null || end === null) {
+    warnings.push(`${context}: 混雑予測の時刻が読み取れないため除外しました`);
+    return null;
+  }
+
+  let startHour = clampHour(start);
+  let endHour = clampHour(end);
+  if (startHour !== start || endHour !== end) {
+    warnings.push(`${context}: 0〜24時の範囲外の時刻を補正しました`);
+  }
+  if (startHour > endHour) {
+    [startHour, endHour] = [endHour, startHour];
+  }
+
+  return {
+    start_hour: startHour,
+    end_hour: endHour,
+    label: typeof raw.label === "string" ? raw.label : "",
+  };
+}
+
+function parseEvent(
+  raw: unknown,
+  facilityName: string,
+  warnings: Warnings,
+): PredictedEvent | null {
+  if (!isRecord(raw)) {
+    warnings.push(`${facilityName}: イベントの形式が不正なため除外しました`);
+    return null;
+  }
+  const eventName =
+    typeof raw.event_name === "string" && raw.event_name.trim()
+      ? raw.event_name
+      : null;
+  const context = `${facilityName} / ${eventName ?? "名称不明のイベント"}`;
+
+  let attendees = coerceNumber(raw.estimated_attendees);
+  if (attendees === null || attendees < 0) {
+    warnings.push(`${context}: 推定来場者数が読み取れないため0としました`);
+    attendees = 0;
+  }
+
+  const predictions = toArray(raw.congestion_predictions)
+    .map((p) => parsePrediction(p, context, warnings))
+    .filter((p): p is CongestionPrediction => p !== null);
+
+  return {
+    event_name: eventName,
+    estimated_attendees: Math.round(attendees),
+    congestion_predictions: predictions,
+  };
+}
+
+function parseFacility(
+  raw: unknown,
+  index: number,
+  warnings: Warnings,
+): FacilityEvents | null {
+  if (!isRecord(raw)) {
+    warnings.push(`施設${index + 1}件目: 形式が不正なため除外しました`);
+    return null;
+  }
+  if (typeof raw.facility_name !== "string" || !raw.facility_name.trim()) {
+    warnings.push(`施設${index + 1}件目: facility_name がないため除外しました`);
+    return null;
+  }
+  const facilityName = raw.facility_name;
+  const events = toArray(raw.events)
+    .map((e) => parseEvent(e, facilityName, warnings))
+    .filter((e): e is PredictedEvent => e !== null);
+
+  return { facility_name: facilityName, events };
+}
+
+/**
+ * JSONとして読み込んだ値を施設ごとに検証・修復する。
+ * 配列でなく単一の施設オブジェクトが返ってきた場合も受け付ける。
+ */
+export function validateFacilities(raw: unknown): EventPrediction {
+  const warnings: Warnings = [];
+  const facilities = toArray(raw)
+    .map((f, i) => parseFacility(f, i, warnings))
+    .filter((f): f is FacilityEvents => f !== null);
+  return { facilities, warnings };
+}
+
+/**
+ * LLMの生テキストから施設ごとのイベント予測を取り出す。
+ * 空の応答はイベントなしとして扱い、JSONを全く復元できない場合は SyntaxError を投げる。
+ */
+export function parseEventResponse(text: string): EventPrediction {
+  if (!text.trim()) {
+    return { facilities: [], warnings: [] };
+  }
+  const jsonText = extractJsonText(text);
+  if (!jsonText) {
+    throw new SyntaxError("No JSON found in the model response.");
+  }
+  return validateFacilities(parseJsonLoosely(jsonText));
+}
@@ -0,0 +1,60 @@
+// イベント予測プロバイダ共通の型定義
+
+export type CongestionPrediction = {
+  start_hour: number;
+  end_hour: number;
+  label: string;
+};
+
+export type PredictedEvent = {
+  event_name: string | null;
+  estimated_attendees: number;
+  congestion_predictions: CongestionPrediction[];
+};
+
+export type FacilityEvents = {
+  facility_name: string;
+  events: PredictedEvent[];
+};
+
+export type EventPrediction = {
+  facilities: FacilityEvents[];
+  // 検証時に除外・補正した内容
+  warnings: string[];
+};
+
+// 施設カタログに登録されている施設の既知の情報
+export type FacilityProfile = {
+  facility_name: string;
+  capacity: number;
+  venue_type: string;
+  opening_lead_minutes: number;
+};
+
+export type EventPredictOptions = {
+  // 呼び出し元が不要になったら中断する (クライアントの切断など)
+  signal?: AbortSignal;
+  // 施設の予測ができるたびに、全施設の予測を待たずに呼ぶ (途中経過の表示用)。
+  // 最終結果の facilities と同じ施設を、同じ順に1回ずつ渡す
+  onFacility?: (facility: FacilityEvents) => void;
+};
+
+export type EventPredictionInput = {
+  stationId: string;
+  stationName: string;
+  targetDate: string;
+  facilityList: string[];
+  facilityProfiles?: FacilityProfile[];
+};
+
+/**
+ * 施設リストから当日のイベントと来場者数を予測するプロバイダ。
+ * Gemini などのLLMやローカルのフィクスチャを差し替えられるようにする。
+ */
+export interface EventPredictor {
+  readonly name: string;
+  predict(
+    input: EventPredictionInput,
+    options?: EventPredictOptions,
+  ): Promise<EventPrediction>;
+}
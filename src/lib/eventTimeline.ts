@@ -0,0 +1,79 @@
+import type { CongestionPrediction } from "@/lib/eventPredictor";
+
+// 施設ごとのイベント予測を、タイムラインに並べる時間帯のブロックにまとめる
+// クライアントからも使うので、サーバー専用のモジュールには依存しない
+
+type TimelineFacility = {
+  facility_name: string;
+  events: {
+    event_name: string | null;
+    scale: number;
+    congestion_predictions: CongestionPrediction[];
+  }[];
+};
+
+// この混雑度以上の時間帯を「混雑」とみなす。カレンダーやアラートの既定値に使う
+export const CROWDED_SCALE = 8;
+
+export type GroupedEvent = {
+  start_hour: number;
+  end_hour: number;
+  label: string;
+  events: { venue_name: string; event_name: string | null; scale: number }[];
+  totalScale: number;
+  eventCount: number;
+};
+
+/**
+ * 混雑予測を時間順に並べ、時間帯とラベルが同じものを1つのブロックにまとめる。
+ * ブロックの混雑度は各イベントの混雑度の二乗和の平方根 (最大10) とする。
+ */
+export function groupCongestionWindows(
+  facilities: TimelineFacility[],
+): GroupedEvent[] {
+  const flatEvents = facilities.flatMap((facility) =>
+    facility.events.flatMap((event) =>
+      event.congestion_predictions.map((prediction) => ({
+        ...prediction,
+        venue_name: facility.facility_name,
+        event_name: event.event_name,
+        scale: event.scale,
+      })),
+    ),
+  );
+  // 時間順にソート
+  flatEvents.sort((a, b) => a.start_hour - b.start_hour);
+
+  // 時間帯でグルーピングし、混雑度を合算
+  return flatEvents.reduce<GroupedEvent[]>((acc, event) => {
+    const lastGroup = acc[acc.length - 1];
+    const entry = {
+      venue_name: event.venue_name,
+      event_name: event.event_name,
+      scale: event.scale,
+    };
+    if (
+      lastGroup &&
+      lastGroup.start_hour === event.start_hour &&
+      lastGroup.end_hour === event.end_hour &&
+      lastGroup.label === event.label
+    ) {
+      lastGroup.events.push(entry);
+      const newTotalScale = Math.sqrt(
+        lastGroup.totalScale ** 2 + event.scale ** 2,
+      );
+      lastGroup.totalScale = Math.min(10, Math.round(newTotalScale * 10) / 10);
+      lastGroup.eventCount += 1;
+    } else {
+      acc.push({
+        start_hour: event.start_hour,
+        end_hour: event.end_hour,
+        label: event.label,
+        events: [entry],
+        totalScale: event.scale,
+        eventCount: 1,
+      });
+    }
+    return acc;
+  }, []);
+}
@@ -0,0 +1,207 @@
+import { randomUUID } from "node:crypto";
+import { createJsonListStore } from "@/lib/jsonStore";
+
+// ログインしたユーザーの「よく使う組み合わせ」(路線・駅)。
+// FAVORITES_PATH (デフォルト .data/favorites.json) に保存する。
+
+const DEFAULT_FAVORITES_PATH = ".data/favorites.json";
+
+export type Favorite = {
+  id: string;
+  user_id: string;
+  railway_id: string;
+  station_id: string;
+  railway_label: string;
+  station_label: string;
+  // 表示名。未設定なら「路線・駅」で表示する
+  name: string | null;
+  // 並び順 (小さいほど先)
+  position: number;
+  // 検索した回数
+  count: number;
+};
+
+export type FavoriteInput = Pick<
+  Favorite,
+  "railway_id" | "station_id" | "railway_label" | "station_label"
+> & { name?: string | null; count?: number };
+
+const store = createJsonListStore<Favorite>(
+  () => process.env.FAVORITES_PATH ?? DEFAULT_FAVORITES_PATH,
+  (raw) => {
+    if (typeof raw !== "object" || raw === null) return null;
+    const record = raw as Record<string, unknown>;
+    const input = parseFavoriteInput(record);
+    if (
+      typeof input === "string" ||
+      typeof record.id !== "string" ||
+      typeof record.user_id !== "string"
+    ) {
+      return null;
+    }
+    return {
+      ...input,
+      id: record.id,
+      user_id: record.user_id,
+      name: input.name ?? null,
+      position: typeof record.position === "number" ? record.position : 0,
+      count: input.count ?? 0,
+    };
+  },
+);
+
+/**
+ * 登録内容を検証する。不正な場合はエラーメッセージを返す。
+ */
+export function parseFavoriteInput(raw: unknown): FavoriteInput | string {
+  if (typeof raw !== "object" || raw === null) {
+    return "favorite must be an object.";
+  }
+  const { railway_id, station_id, railway_label, station_label, name, count } =
+    raw as Record<string, unknown>;
+  if (typeof railway_id !== "string" || !railway_id) {
+    return "railway_id is required.";
+  }
+  if (typeof station_id !== "string" || !station_id) {
+    return "station_id is required.";
+  }
+  if (typeof railway_label !== "string" || typeof station_label !== "string") {
+    return "railway_label and station_label are required.";
+  }
+  if (name !== undefined && name !== null && typeof name !== "string") {
+    return "name must be a string.";
+  }
+  return {
+    railway_id,
+    station_id,
+    railway_label,
+    station_label,
+    name: typeof name === "string" && name.trim() ? name.trim() : null,
+    count: typeof count === "number" && count >= 0 ? Math.round(count) : 0,
+  };
+}
+
+const byPosition = (a: Favorite, b: Favorite) => a.position - b.position;
+
+export async function listFavorites(userId: string): Promise<Favorite[]> {
+  return (await store.list())
+    .filter((f) => f.user_id === userId)
+    .sort(byPosition);
+}
+
+/**
+ * お気に入りを追加する。同じ路線・駅がすでにあれば回数を加算する。
+ * 新しいお気に入りは末尾に並べる。
+ */
+export async function addFavorite(
+  userId: string,
+  input: FavoriteInput,
+  { increment = 1 }: { increment?: number } = {},
+): Promise<Favorite> {
+  return store.update((entries) => {
+    const existing = entries.find(
+      (f) =>
+        f.user_id === userId &&
+        f.railway_id === input.railway_id &&
+        f.station_id === input.station_id,
+    );
+    if (existing) {
+      const updated = { ...existing, count: existing.count + increment };
+      return {
+        entries: entries.map((f) => (f.id === existing.id ? updated : f)),
+        result: updated,
+      };
+    }
+    const positions = entries
+      .filter((f) => f.user_id === userId)
+      .map((f) => f.position);
+    const created: Favorite = {
+      id: randomUUID(),
+      user_id: userId,
+      railway_id: input.railway_id,
+      station_id: input.station_id,
+      railway_label: input.railway_label,
+      station_label: input.station_label,
+      name: input.name ?? null,
+      position: positions.length > 0 ? Math.max(...positions) + 1 : 0,
+      count: increment,
+    };
+    return { entries: [...entries, created], result: created };
+  });
+}
+
+/**
+ * ブラウザの localStorage に保存していたお気に入りを取り込む。
+ * よく使う順 (count の多い順) に、既存のお気に入りの後ろへ並べる。
+ */
+export async function importFavorites(
+  userId: string,
+  inputs: FavoriteInput[],
+): Promise<Favorite[]> {
+  const sorted = [...inputs].sort((a, b) => (b.count ?? 0) - (a.count ?? 0));
+  for (const input of sorted) {
+    await addFavorite(userId, input, { increment: input.count ?? 0 });
+  }
+  return listFavorites(userId);
+}
+
+/** 表示名を変える。該当するお気に入りがなければ null を返す */
+export async function renameFavorite(
+  userId: string,
+  id: string,
+  name: string | null,
+): Promise<Favorite | null> {
+  return store.update((entries) => {
+    const target = entries.find((f) => f.id === id && f.user_id === userId);
+    if (!target) {
+      return { entries, result: null };
+    }
+    const updated = { ...target, name: name?.trim() || null };
+    return {
+      entries: entries.map((f) => (f.id === id ? updated : f)),
+      result: updated,
+    };
+  });
+}
+
+/**
+ * 指定したIDの順に並べ替える。ids に含まれないお気に入りはその後ろに元の順で並べる。
+ */
+export async function reorderFavorites(
+  userId: string,
+  ids: string[],
+): Promise<Favorite[]> {
+  await store.update((entries) => {
+    const own = entries.filter((f) => f.user_id === userId).sort(byPosition);
+    const ordered = [
+      ...ids.flatMap((id) => own.filter((f) => f.id === id)),
+      ...own.filter((f) => !ids.includes(f.id)),
+    ];
+    const positions = new Map(ordered.map((f, index) => [f.id, index]));
+    return {
+      entries: entries.map((f) =>
+        positions.has(f.id)
+          ? { ...f, position: positions.get(f.id) as number }
+          : f,
+      ),
+      result: undefined,
+    };
+  });
+  return listFavorites(userId);
+}
+
+/** 削除した場合は true、該当するお気に入りがなければ false を返す */
+export async function deleteFavorite(
+  userId: string,
+  id: string,
+): Promise<boolean> {
+  return store.update((entries) => {
+    const remaining = entries.filter(
+      (f) => !(f.id === id && f.user_id === userId),
+    );
+    return {
+      entries: remaining,
+      result: remaining.length !== entries.length,
+    };
+  });
+}
@@ -0,0 +1,403 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createHttpClient,
+  type Fetcher,
+  type UpstreamPolicy,
+} from "@/lib/httpClient";
+import { UpstreamError, type UpstreamSource } from "@/lib/upstream";
+
+const DATA_URL = "https://api.example.com/data";
+
+// 上流の応答を順に返す fetcher。応答を使い切ったら最後の応答を返し続ける
+function respondWith(...responses: (() => Response)[]) {
+  let index = 0;
+  return vi.fn<Fetcher>(async () => {
+    const response = responses[Math.min(index, responses.length - 1)];
+    index += 1;
+    return response();
+  });
+}
+
+const ok = () => Response.json({ ok: true });
+const unavailable = () =>
+  new Response("unavailable", { status: 503, statusText: "Unavailable" });
+
+// signal が中断されるまで応答しない試行
+const hang = (signal: AbortSignal) =>
+  new Promise<never>((_resolve, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason));
+  });
+
+const TEST_POLICY: UpstreamPolicy = {
+  timeoutMs: 1_000,
+  maxRetries: 2,
+  baseDelayMs: 100,
+  maxDelayMs: 1_000,
+  failureThreshold: 3,
+  cooldownMs: 30_000,
+};
+
+/**
+ * 待ち時間を記録するだけで実際には待たず、時計も手で進めるクライアント。
+ * odpt の方針は TEST_POLICY に overrides を重ねたもの
+ */
+function createTestClient(
+  fetcher: Fetcher,
+  {
+    policies = {},
+    sleep,
+  }: {
+    policies?: Partial<Record<UpstreamSource, Partial<UpstreamPolicy>>>;
+    sleep?: (ms: number) => Promise<void>;
+  } = {},
+) {
+  const delays: number[] = [];
+  const clock = { now: 0 };
+  const client = createHttpClient({
+    policies: { ...policies, odpt: { ...TEST_POLICY, ...policies.odpt } },
+    fetcher,
+    sleep:
+      sleep ??
+      (async (ms) => {
+        delays.push(ms);
+      }),
+    now: () => clock.now,
+  });
+  return { client, delays, clock };
+}
+
+describe("createHttpClient", () => {
+  beforeEach(() => {
+    // ジッターを外して待ち時間を決まった値にする
+    vi.spyOn(Math, "random").mockReturnValue(1);
+  });
+
+  describe("timeouts", () => {
+    it("aborts an attempt that exceeds the timeout", async () => {
+      const { client } = createTestClient(respondWith(ok), {
+        policies: { odpt: { timeoutMs: 10, maxRetries: 0 } },
+      });
+
+      const error = await client.call("odpt", "stations", hang).catch((e) => e);
+
+      expect(error).toBeInstanceOf(UpstreamError);
+      expect(error.message).toBe("Timed out after 10ms: stations");
+      expect(error.retryable).toBe(true);
+      expect(client.metrics().odpt).toMatchObject({
+        requests: 1,
+        failures: 1,
+        timeouts: 1,
+      });
+    });
+
+    it("takes the timeout from <SOURCE>_TIMEOUT_MS", async () => {
+      vi.stubEnv("YAHOO_TIMEOUT_MS", "10");
+      const { client } = createTestClient(respondWith(ok), {
+        policies: { yahoo: { maxRetries: 0 } },
+      });
+
+      await expect(client.call("yahoo", "venues", hang)).rejects.toThrow(
+        "Timed out after 10ms: venues",
+      );
+    });
+  });
+
+  describe("retries", () => {
+    it("retries 5xx responses with exponential backoff", async () => {
+      const fetcher = respondWith(unavailable, unavailable, ok);
+      const { client, delays } = createTestClient(fetcher);
+
+      const result = await client.fetchJson("odpt", "stations", DATA_URL);
+
+      expect(result).toEqual({ ok: true });
+      expect(fetcher).toHaveBeenCalledTimes(3);
+      expect(delays).toEqual([100, 200]);
+      expect(client.metrics().odpt).toMatchObject({
+        requests: 3,
+        successes: 1,
+        failures: 2,
+        retries: 2,
+        circuit: "closed",
+        consecutive_failures: 0,
+      });
+    });
+
+    it("caps the delay at maxDelayMs and waits at least Retry-After", async () => {
+      const rateLimited = () =>
+        new Response("slow down", {
+          status: 429,
+          headers: { "Retry-After": "1" },
+        });
+      const { client, delays } = createTestClient(
+        respondWith(rateLimited, unavailable, unavailable, unavailable, ok),
+        {
+          policies: {
+            odpt: {
+              maxRetries: 4,
+              baseDelayMs: 300,
+              maxDelayMs: 2_000,
+              failureThreshold: 10,
+            },
+          },
+        },
+      );
+
+      await client.fetchJson("odpt", "stations", DATA_URL);
+
+      expect(delays).toEqual([1_000, 600, 1_200, 2_000]);
+    });
+
+    it("applies half the jitter at most", async () => {
+      vi.mocked(Math.random).mockReturnValue(0);
+      const { client, delays } = createTestClient(respondWith(unavailable, ok));
+
+      await client.fetchJson("odpt", "stations", DATA_URL);
+
+      expect(delays).toEqual([50]);
+    });
+
+    it("gives up after maxRetries", async () => {
+      const fetcher = respondWith(unavailable);
+      const { client } = createTestClient(fetcher, {
+        policies: { odpt: { maxRetries: 1 } },
+      });
+
+      const error = await client
+        .fetchJson("odpt", "stations", DATA_URL)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(UpstreamError);
+      expect(error).toMatchObject({ status: 503 });
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not retry or trip the circuit on 4xx responses", async () => {
+      const fetcher = respondWith(
+        () => new Response("missing", { status: 404 }),
+      );
+      const { client, delays } = createTestClient(fetcher, {
+        policies: { odpt: { failureThreshold: 1 } },
+      });
+
+      const error = await client
+        .fetchJson("odpt", "stations", DATA_URL)
+        .catch((e) => e);
+
+      expect(error).toMatchObject({ status: 404, retryable: false });
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(delays).toEqual([]);
+      expect(client.metrics().odpt.circuit).toBe("closed");
+    });
+
+    it("does not retry a response that is not JSON", async () => {
+      const fetcher = respondWith(() => new Response("<html>"));
+      const { client } = createTestClient(fetcher);
+
+      await expect(
+        client.fetchJson("odpt", "stations", DATA_URL),
+      ).rejects.toThrow("Invalid JSON in stations");
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    // 失敗を3回続けて開いたクライアント
+    async function openCircuit(fetcher: Fetcher) {
+      const test = createTestClient(fetcher, {
+        policies: { odpt: { maxRetries: 2, failureThreshold: 3 } },
+      });
+      await test.client.fetchJson("odpt", "stations", DATA_URL).catch(() => {});
+      expect(test.client.metrics().odpt).toMatchObject({
+        circuit: "open",
+        consecutive_failures: 3,
+      });
+      return test;
+    }
+
+    it("opens after consecutive failures and short-circuits calls", async () => {
+      const fetcher = respondWith(unavailable);
+      const { client, clock } = await openCircuit(fetcher);
+
+      clock.now = 29_999;
+      const error = await client
+        .fetchJson("odpt", "stations", DATA_URL)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(UpstreamError);
+      expect(error).toMatchObject({
+        message: expect.stringMatching(/temporarily unavailable/),
+      });
+      expect(fetcher).toHaveBeenCalledTimes(3);
+      expect(client.metrics().odpt.short_circuited).toBe(1);
+    });
+
+    it("keeps each source's circuit separate", async () => {
+      const { client } = await openCircuit(
+        vi.fn<Fetcher>(async (source) =>
+          source === "odpt" ? unavailable() : ok(),
+        ),
+      );
+
+      await expect(
+        client.fetchJson("yahoo", "venues", DATA_URL),
+      ).resolves.toBeDefined();
+      expect(client.metrics().yahoo.circuit).toBe("closed");
+    });
+
+    it("lets a single trial through after the cooldown and closes on success", async () => {
+      const fetcher = respondWith(unavailable, unavailable, unavailable, ok);
+      const { client, clock } = await openCircuit(fetcher);
+
+      clock.now = 30_000;
+      let release = () => {};
+      const trial = client.call("odpt", "trial", async () => {
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+        return "done";
+      });
+      expect(client.metrics().odpt.circuit).toBe("half-open");
+
+      // 試行中は他の呼び出しを通さない
+      await expect(
+        client.fetchJson("odpt", "stations", DATA_URL),
+      ).rejects.toThrow(/temporarily unavailable/);
+
+      release();
+      await expect(trial).resolves.toBe("done");
+      expect(client.metrics().odpt).toMatchObject({
+        circuit: "closed",
+        consecutive_failures: 0,
+      });
+      await expect(
+        client.fetchJson("odpt", "stations", DATA_URL),
+      ).resolves.toEqual({ ok: true });
+    });
+
+    it("reopens when the half-open trial fails", async () => {
+      const fetcher = respondWith(unavailable);
+      const { client, clock } = await openCircuit(fetcher);
+
+      clock.now = 30_000;
+      await client.fetchJson("odpt", "stations", DATA_URL).catch(() => {});
+
+      // 試行の失敗で開き直すので、再試行はせず次のクールダウンまで呼ばない
+      expect(fetcher).toHaveBeenCalledTimes(4);
+      expect(client.metrics().odpt).toMatchObject({
+        circuit: "open",
+        short_circuited: 1,
+      });
+      clock.now = 59_999;
+      await expect(
+        client.fetchJson("odpt", "stations", DATA_URL),
+      ).rejects.toThrow(/temporarily unavailable/);
+      expect(fetcher).toHaveBeenCalledTimes(4);
+    });
+
+    it("clears circuits and counters on reset", async () => {
+      const { client } = await openCircuit(respondWith(unavailable));
+
+      client.reset();
+
+      expect(client.metrics().odpt).toEqual({
+        requests: 0,
+        successes: 0,
+        failures: 0,
+        retries: 0,
+        timeouts: 0,
+        short_circuited: 0,
+        circuit: "closed",
+        consecutive_failures: 0,
+      });
+    });
+  });
+
+  describe("caller signal", () => {
+    it("passes the caller's abort through without retrying or counting a failure", async () => {
+      const { client, delays } = createTestClient(respondWith(ok));
+      const controller = new AbortController();
+      const reason = new Error("client went away");
+
+      const pending = client.call("odpt", "stations", hang, {
+        signal: controller.signal,
+      });
+      controller.abort(reason);
+
+      await expect(pending).rejects.toBe(reason);
+      expect(delays).toEqual([]);
+      expect(client.metrics().odpt).toMatchObject({
+        requests: 1,
+        failures: 0,
+        timeouts: 0,
+        consecutive_failures: 0,
+      });
+    });
+
+    it("does not start an attempt when already aborted", async () => {
+      const attempt = vi.fn(async () => "done");
+      const { client } = createTestClient(respondWith(ok));
+      const controller = new AbortController();
+      controller.abort(new Error("aborted"));
+
+      await expect(
+        client.call("odpt", "stations", attempt, {
+          signal: controller.signal,
+        }),
+      ).rejects.toThrow("aborted");
+      expect(attempt).not.toHaveBeenCalled();
+    });
+
+    it("stops retrying when aborted during the backoff", async () => {
+      const controller = new AbortController();
+      const { client } = createTestClient(respondWith(ok), {
+        sleep: async () => {
+          controller.abort(new Error("aborted"));
+        },
+      });
+      const attempt = vi.fn(async () => {
+        throw new UpstreamError("odpt", "unavailable", { status: 503 });
+      });
+
+      await expect(
+        client.call("odpt", "stations", attempt, {
+          signal: controller.signal,
+        }),
+      ).rejects.toThrow("aborted");
+      expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it("frees the half-open trial when the caller aborts it", async () => {
+      const test = createTestClient(respondWith(unavailable), {
+        policies: { odpt: { maxRetries: 0, failureThreshold: 1 } },
+      });
+      await test.client.fetchJson("odpt", "stations", DATA_URL).catch(() => {});
+      test.clock.now = 30_000;
+      const controller = new AbortController();
+
+      const trial = test.client.call("odpt", "trial", hang, {
+        signal: controller.signal,
+      });
+      controller.abort(new Error("aborted"));
+      await trial.catch(() => {});
+
+      // 中断した試行は失敗として数えず、次の呼び出しが試行になる
+      expect(test.client.metrics().odpt.circuit).toBe("half-open");
+      await expect(
+        test.client.call("odpt", "next trial", async () => "done"),
+      ).resolves.toBe("done");
+      expect(test.client.metrics().odpt.circuit).toBe("closed");
+    });
+
+    it("still times out while a caller signal is attached", async () => {
+      const { client } = createTestClient(respondWith(ok), {
+        policies: { odpt: { timeoutMs: 10, maxRetries: 0 } },
+      });
+
+      await expect(
+        client.call("odpt", "stations", hang, {
+          signal: new AbortController().signal,
+        }),
+      ).rejects.toThrow("Timed out after 10ms: stations");
+    });
+  });
+});
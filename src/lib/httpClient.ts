@@ -0,0 +1,380 @@
+import {
+  toUpstreamError,
+  UpstreamError,
+  type UpstreamSource,
+  upstreamErrorFromResponse,
+} from "@/lib/upstream";
+import { fetchWithFixtures } from "@/lib/upstreamFixtures";
+
+// 外部APIの呼び出しを共通化するクライアント。
+// 上流ごとのタイムアウト、429/5xx の指数バックオフでの再試行、
+// 失敗が続く上流を一定時間呼ばないサーキットブレーカー、呼び出し回数の集計を受け持つ。
+
+export type UpstreamPolicy = {
+  // 1回の試行のタイムアウト
+  timeoutMs: number;
+  // 初回に加えて再試行する回数
+  maxRetries: number;
+  // 再試行までの待ち時間。試行ごとに2倍にし、maxDelayMs で頭打ちにする
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // 連続でこの回数失敗したら、cooldownMs の間は呼ばずに失敗させる
+  failureThreshold: number;
+  cooldownMs: number;
+};
+
+// Nominatim は利用規約で1秒に1回までなので再試行を控えめにする。
+// Gemini は検索グラウンディング込みで応答に時間がかかり、呼び出しの費用も高い
+export const DEFAULT_UPSTREAM_POLICIES: Record<UpstreamSource, UpstreamPolicy> =
+  {
+    odpt: {
+      timeoutMs: 10_000,
+      maxRetries: 2,
+      baseDelayMs: 500,
+      maxDelayMs: 5_000,
+      failureThreshold: 5,
+      cooldownMs: 30_000,
+    },
+    yahoo: {
+      timeoutMs: 8_000,
+      maxRetries: 2,
+      baseDelayMs: 500,
+      maxDelayMs: 5_000,
+      failureThreshold: 5,
+      cooldownMs: 30_000,
+    },
+    nominatim: {
+      timeoutMs: 8_000,
+      maxRetries: 1,
+      baseDelayMs: 1_000,
+      maxDelayMs: 5_000,
+      failureThreshold: 3,
+      cooldownMs: 60_000,
+    },
+    gemini: {
+      timeoutMs: 120_000,
+      maxRetries: 1,
+      baseDelayMs: 2_000,
+      maxDelayMs: 10_000,
+      failureThreshold: 3,
+      cooldownMs: 60_000,
+    },
+    wikipedia: {
+      timeoutMs: 8_000,
+      maxRetries: 1,
+      baseDelayMs: 500,
+      maxDelayMs: 5_000,
+      failureThreshold: 3,
+      cooldownMs: 60_000,
+    },
+  };
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type UpstreamMetrics = {
+  // 試行した回数 (再試行を含む)
+  requests: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  timeouts: number;
+  // サーキットブレーカーで呼ばずに失敗させた回数
+  short_circuited: number;
+  circuit: CircuitState;
+  consecutive_failures: number;
+};
+
+type Circuit = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  // half-open で試しに通した呼び出しが終わっていない
+  trialInFlight: boolean;
+};
+
+type Counters = Omit<UpstreamMetrics, "circuit" | "consecutive_failures">;
+
+type FetchInit = RequestInit & { next?: { revalidate?: number } };
+
+// 実際にリクエストを送る関数。記録・再生やスタブに差し替えられる
+export type Fetcher = (
+  source: UpstreamSource,
+  url: string,
+  init: FetchInit,
+) => Promise<Response>;
+
+export type CallOptions = {
+  // 呼び出し元の中断。中断されたら再試行せず、上流の障害としても数えない
+  signal?: AbortSignal;
+};
+
+export type HttpClient = {
+  /**
+   * attempt を上流の方針に従って呼ぶ。attempt にはタイムアウトか呼び出し元の中断で
+   * 中断する signal を渡す。失敗は UpstreamError にそろえて投げ、
+   * 呼び出し元が中断した場合はその理由をそのまま投げる。
+   */
+  call<T>(
+    source: UpstreamSource,
+    what: string,
+    attempt: (signal: AbortSignal) => Promise<T>,
+    options?: CallOptions,
+  ): Promise<T>;
+  /** 2xx 以外のレスポンスを UpstreamError にして、レスポンスの JSON を返す */
+  fetchJson<T>(
+    source: UpstreamSource,
+    what: string,
+    url: string,
+    init?: FetchInit,
+  ): Promise<T>;
+  metrics(): Record<UpstreamSource, UpstreamMetrics>;
+  reset(): void;
+};
+
+const UPSTREAM_SOURCES = Object.keys(
+  DEFAULT_UPSTREAM_POLICIES,
+) as UpstreamSource[];
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 上流ごとの方針を決める。タイムアウトは環境変数 <SOURCE>_TIMEOUT_MS
+ * (例: GEMINI_TIMEOUT_MS) で変えられる。
+ */
+function resolvePolicy(
+  source: UpstreamSource,
+  overrides: Partial<UpstreamPolicy> | undefined,
+): UpstreamPolicy {
+  const envTimeout = Number(
+    process.env[`${source.toUpperCase()}_TIMEOUT_MS`] ?? Number.NaN,
+  );
+  return {
+    ...DEFAULT_UPSTREAM_POLICIES[source],
+    ...(envTimeout > 0 ? { timeoutMs: envTimeout } : {}),
+    ...overrides,
+  };
+}
+
+/** 再試行までの待ち時間。Retry-After があればそれ以上待つ */
+function backoffDelay(
+  policy: UpstreamPolicy,
+  retry: number,
+  error: UpstreamError,
+): number {
+  const exponential = policy.baseDelayMs * 2 ** retry;
+  // 同時に失敗した呼び出しが一斉に再試行しないよう、半分までの幅でずらす
+  const jittered = exponential * (0.5 + Math.random() / 2);
+  return Math.min(
+    policy.maxDelayMs,
+    Math.max(jittered, error.retryAfterMs ?? 0),
+  );
+}
+
+export function createHttpClient({
+  policies = {},
+  fetcher = (_source, url, init) => fetch(url, init),
+  sleep = defaultSleep,
+  now = Date.now,
+}: {
+  policies?: Partial<Record<UpstreamSource, Partial<UpstreamPolicy>>>;
+  fetcher?: Fetcher;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+} = {}): HttpClient {
+  const circuits = new Map<UpstreamSource, Circuit>();
+  const counters = new Map<UpstreamSource, Counters>();
+
+  const circuitFor = (source: UpstreamSource): Circuit => {
+    let circuit = circuits.get(source);
+    if (!circuit) {
+      circuit = {
+        state: "closed",
+        consecutiveFailures: 0,
+        openedAt: 0,
+        trialInFlight: false,
+      };
+      circuits.set(source, circuit);
+    }
+    return circuit;
+  };
+  const countersFor = (source: UpstreamSource): Counters => {
+    let entry = counters.get(source);
+    if (!entry) {
+      entry = {
+        requests: 0,
+        successes: 0,
+        failures: 0,
+        retries: 0,
+        timeouts: 0,
+        short_circuited: 0,
+      };
+      counters.set(source, entry);
+    }
+    return entry;
+  };
+
+  // 呼び出してよいか。open のまま cooldownMs が過ぎたら、1件だけ試しに通す
+  const admit = (circuit: Circuit, policy: UpstreamPolicy): boolean => {
+    if (
+      circuit.state === "open" &&
+      now() - circuit.openedAt >= policy.cooldownMs
+    ) {
+      circuit.state = "half-open";
+      circuit.trialInFlight = false;
+    }
+    if (circuit.state === "half-open") {
+      if (circuit.trialInFlight) return false;
+      circuit.trialInFlight = true;
+      return true;
+    }
+    return circuit.state === "closed";
+  };
+  const recordHealthy = (circuit: Circuit) => {
+    circuit.state = "closed";
+    circuit.consecutiveFailures = 0;
+    circuit.trialInFlight = false;
+  };
+  const recordFailure = (circuit: Circuit, policy: UpstreamPolicy) => {
+    circuit.consecutiveFailures += 1;
+    circuit.trialInFlight = false;
+    if (
+      circuit.state === "half-open" ||
+      circuit.consecutiveFailures >= policy.failureThreshold
+    ) {
+      circuit.state = "open";
+      circuit.openedAt = now();
+    }
+  };
+
+  const call: HttpClient["call"] = async (
+    source,
+    what,
+    attempt,
+    { signal: callerSignal } = {},
+  ) => {
+    const policy = resolvePolicy(source, policies[source]);
+    const circuit = circuitFor(source);
+    const count = countersFor(source);
+
+    for (let retry = 0; ; retry += 1) {
+      callerSignal?.throwIfAborted();
+      if (!admit(circuit, policy)) {
+        count.short_circuited += 1;
+        throw new UpstreamError(
+          source,
+          `${source} is temporarily unavailable after repeated failures (${what})`,
+          { retryable: true },
+        );
+      }
+
+      count.requests += 1;
+      const timeout = AbortSignal.timeout(policy.timeoutMs);
+      const signal = callerSignal
+        ? AbortSignal.any([timeout, callerSignal])
+        : timeout;
+      let error: UpstreamError;
+      try {
+        const result = await attempt(signal);
+        count.successes += 1;
+        recordHealthy(circuit);
+        return result;
+      } catch (caught) {
+        if (callerSignal?.aborted) {
+          // 上流の失敗ではないので、half-open の試行枠だけ返す
+          circuit.trialInFlight = false;
+          throw callerSignal.reason;
+        }
+        if (timeout.aborted) {
+          count.timeouts += 1;
+          error = new UpstreamError(
+            source,
+            `Timed out after ${policy.timeoutMs}ms: ${what}`,
+            { cause: caught },
+          );
+        } else {
+          error = toUpstreamError(source, caught);
+        }
+      }
+
+      count.failures += 1;
+      // 404 などは上流が応答できているので、障害として数えない
+      if (error.retryable) {
+        recordFailure(circuit, policy);
+      } else {
+        recordHealthy(circuit);
+      }
+      if (!error.retryable || retry >= policy.maxRetries) {
+        throw error;
+      }
+      count.retries += 1;
+      await sleep(backoffDelay(policy, retry, error));
+    }
+  };
+
+  return {
+    call,
+    fetchJson: (source, what, url, init) =>
+      call(source, what, async (signal) => {
+        const response = await fetcher(source, url, { ...init, signal });
+        if (!response.ok) {
+          throw upstreamErrorFromResponse(source, response, what);
+        }
+        try {
+          return await response.json();
+        } catch (error) {
+          if (signal.aborted) throw error;
+          throw new UpstreamError(source, `Invalid JSON in ${what}`, {
+            status: response.status,
+            retryable: false,
+            cause: error,
+          });
+        }
+      }),
+    metrics() {
+      return Object.fromEntries(
+        UPSTREAM_SOURCES.map((source) => {
+          const circuit = circuitFor(source);
+          return [
+            source,
+            {
+              ...countersFor(source),
+              circuit: circuit.state,
+              consecutive_failures: circuit.consecutiveFailures,
+            },
+          ];
+        }),
+      ) as Record<UpstreamSource, UpstreamMetrics>;
+    },
+    reset() {
+      circuits.clear();
+      counters.clear();
+    },
+  };
+}
+
+// アプリ全体で共有するクライアント。サーキットブレーカーの状態と集計はプロセスごと。
+// UPSTREAM_FIXTURE_MODE に応じて応答を記録・再生する
+const defaultClient = createHttpClient({ fetcher: fetchWithFixtures });
+
+export function callUpstream<T>(
+  source: UpstreamSource,
+  what: string,
+  attempt: (signal: AbortSignal) => Promise<T>,
+  options?: CallOptions,
+): Promise<T> {
+  return defaultClient.call(source, what, attempt, options);
+}
+
+export function fetchUpstreamJson<T>(
+  source: UpstreamSource,
+  what: string,
+  url: string,
+  init?: FetchInit,
+): Promise<T> {
+  return defaultClient.fetchJson<T>(source, what, url, init);
+}
+
+export function getUpstreamMetrics(): Record<UpstreamSource, UpstreamMetrics> {
+  return defaultClient.metrics();
+}
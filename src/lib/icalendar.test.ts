@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { buildCrowdCalendar } from "@/lib/icalendar";
+import type { StationForecast } from "@/lib/stationForecast";
+
+const event = (
+  event_name: string,
+  scale: number,
+  windows: [number, number, string][],
+) => ({
+  event_name,
+  scale,
+  congestion_predictions: windows.map(([start_hour, end_hour, label]) => ({
+    start_hour,
+    end_hour,
+    label,
+  })),
+});
+
+// 予定に使う項目だけを持つ予測
+function forecast(facilities: unknown[]): StationForecast {
+  return {
+    stationId: "odpt.Station:TokyoMetro.Chiyoda.Yoyogikoen",
+    stationName: "代々木公園",
+    targetDate: "2026-11-03",
+    facilities,
+  } as unknown as StationForecast;
+}
+
+// 折り返した行を戻してから UID を取り出す
+function uids(calendar: string): string[] {
+  return [...calendar.replace(/\r\n /g, "").matchAll(/^UID:(.+)\r$/gm)].map(
+    ([, uid]) => uid,
+  );
+}
+
+describe("buildCrowdCalendar", () => {
+  it("only includes crowded windows by default", () => {
+    const calendar = buildCrowdCalendar(
+      [
+        forecast([
+          {
+            facility_name: "国立代々木競技場",
+            events: [
+              event("コンサート", 9, [[17, 18, "入場"]]),
+              event("展示会", 4, [[10, 11, "入場"]]),
+            ],
+          },
+        ]),
+      ],
+      { name: "代々木公園駅の混雑予測", now: new Date("2026-11-01T00:00:00Z") },
+    );
+
+    expect(uids(calendar)).toHaveLength(1);
+    expect(calendar).toContain("DTSTART:20261103T080000Z");
+    expect(calendar).not.toContain("展示会");
+  });
+
+  it("includes windows down to min_scale", () => {
+    const calendar = buildCrowdCalendar(
+      [
+        forecast([
+          {
+            facility_name: "国立代々木競技場",
+            events: [event("展示会", 4, [[10, 11, "入場"]])],
+          },
+        ]),
+      ],
+      { name: "代々木公園駅の混雑予測", minScale: 3 },
+    );
+
+    expect(uids(calendar)).toHaveLength(1);
+  });
+
+  it("gives separate windows with the same hours and label different UIDs", () => {
+    // 17-18時の「退場」が、間に17-19時の予測を挟んで2つのブロックに分かれる
+    const calendar = buildCrowdCalendar(
+      [
+        forecast([
+          {
+            facility_name: "国立代々木競技場",
+            events: [
+              event("コンサート", 9, [[17, 18, "退場"]]),
+              event("試合", 8, [[17, 19, "退場"]]),
+              event("公演", 8, [[17, 18, "退場"]]),
+            ],
+          },
+        ]),
+      ],
+      { name: "代々木公園駅の混雑予測" },
+    );
+
+    const ids = uids(calendar);
+    expect(ids).toHaveLength(3);
+    expect(new Set(ids).size).toBe(3);
+  });
+});
@@ -0,0 +1,138 @@
+import { japanDateTime } from "@/lib/calendar";
+import {
+  CROWDED_SCALE,
+  type GroupedEvent,
+  groupCongestionWindows,
+} from "@/lib/eventTimeline";
+import type { StationForecast } from "@/lib/stationForecast";
+
+// 混雑が予測される時間帯を iCalendar (RFC 5545) 形式で書き出す
+
+const PRODUCT_ID = "-//ImaAiteruKun//Crowd Forecast//JA";
+const UID_DOMAIN = "imaaiteru-kun";
+// 1行の上限 (オクテット)。超える行は折り返す
+const MAX_LINE_OCTETS = 75;
+
+export type CalendarOptions = {
+  // カレンダー名 (X-WR-CALNAME)
+  name: string;
+  // この混雑度以上の時間帯だけを含める (デフォルト CROWDED_SCALE)
+  minScale?: number;
+  // 共有用ページの絶対URLを作る。指定すると各予定に URL を付ける
+  pageUrl?: (forecast: StationForecast) => string;
+  now?: Date;
+};
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** UTF-8 で75オクテットを超える行を、マルチバイト文字を分断しないよう折り返す */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // 2行目以降は先頭の空白1文字分を差し引く
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function describeWindow(group: GroupedEvent): string {
+  const lines = [`混雑度: ${group.totalScale}/10 (${group.label})`, ""];
+  for (const event of group.events) {
+    lines.push(
+      `・${event.venue_name} - ${event.event_name ?? "名称不明のイベント"} (混雑度 ${event.scale}/10)`,
+    );
+  }
+  lines.push("", "AIによる予測を含みます。参考情報としてご利用ください。");
+  return lines.join("\n");
+}
+
+function windowEvent(
+  forecast: StationForecast,
+  group: GroupedEvent,
+  index: number,
+  options: CalendarOptions,
+  stamp: string,
+): string[] {
+  // 時間帯とラベルが同じブロックが1日に複数できることがあるので、日内の順番も含める
+  const uid = [
+    forecast.stationId,
+    forecast.targetDate,
+    index,
+    group.start_hour,
+    group.end_hour,
+    group.label,
+  ].join("/");
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${encodeURIComponent(uid)}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatDateTime(japanDateTime(forecast.targetDate, group.start_hour))}`,
+    `DTEND:${formatDateTime(japanDateTime(forecast.targetDate, Math.max(group.end_hour, group.start_hour + 1)))}`,
+    `SUMMARY:${escapeText(`混雑注意: ${forecast.stationName}駅 (混雑度 ${group.totalScale}/10)`)}`,
+    `DESCRIPTION:${escapeText(describeWindow(group))}`,
+    `LOCATION:${escapeText(`${forecast.stationName}駅`)}`,
+    "TRANSP:TRANSPARENT",
+  ];
+  if (options.pageUrl) {
+    lines.push(`URL:${options.pageUrl(forecast)}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * 日付ごとの予測から、混雑が予測される時間帯を1件ずつ VEVENT にしたカレンダーを作る。
+ * 時間帯のまとめ方はタイムライン表示と同じ (groupCongestionWindows)。
+ */
+export function buildCrowdCalendar(
+  forecasts: StationForecast[],
+  options: CalendarOptions,
+): string {
+  const stamp = formatDateTime(options.now ?? new Date());
+  const minScale = options.minScale ?? CROWDED_SCALE;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    "X-WR-TIMEZONE:Asia/Tokyo",
+  ];
+  for (const forecast of forecasts) {
+    for (const [index, group] of groupCongestionWindows(
+      forecast.facilities,
+    ).entries()) {
+      if (group.totalScale >= minScale) {
+        lines.push(...windowEvent(forecast, group, index, options, stamp));
+      }
+    }
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,55 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// 実行時に書き換えるデータを、1ファイルのJSON配列としてローカルに保存する。
+// 書き込みの直列化はプロセス内だけなので、1台のサーバーから永続ボリューム上のファイルを使う前提。
+// インスタンスごとにディスクが分かれるサーバーレス環境では使えない
+
+export type JsonListStore<T> = {
+  list(): Promise<T[]>;
+  /** 全件を読み込んで書き換え、保存する。同時に呼ばれても直列に実行する */
+  update<R>(update: (entries: T[]) => { entries: T[]; result: R }): Promise<R>;
+};
+
+async function readEntries(filePath: string): Promise<unknown[]> {
+  try {
+    const data = JSON.parse(await readFile(filePath, "utf-8"));
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * filePath は呼び出しのたびに解決するので、環境変数で保存先を差し替えられる。
+ * 読み込んだ項目は parse で検証し、不正なもの (null) は捨てる。
+ */
+export function createJsonListStore<T>(
+  filePath: () => string,
+  parse: (raw: unknown) => T | null,
+): JsonListStore<T> {
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  const list = async () => {
+    const raw = await readEntries(path.resolve(process.cwd(), filePath()));
+    return raw.map(parse).filter((entry): entry is T => entry !== null);
+  };
+
+  return {
+    list,
+    update(update) {
+      const task = writeQueue.then(async () => {
+        const { entries, result } = update(await list());
+        const resolved = path.resolve(process.cwd(), filePath());
+        await mkdir(path.dirname(resolved), { recursive: true });
+        await writeFile(resolved, JSON.stringify(entries, null, 2), "utf-8");
+        return result;
+      });
+      writeQueue = task.catch(() => undefined);
+      return task;
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import net from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { sendMail } from "@/lib/mailer";
+
+// STARTTLS を提示しない最小限の SMTP サーバー。受け取ったコマンドを記録する
+async function startPlainSmtpServer() {
+  const commands: string[] = [];
+  const server = net.createServer((socket) => {
+    let inData = false;
+    socket.write("220 localhost ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      for (const line of chunk.toString("utf-8").split("\r\n")) {
+        if (!line) continue;
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 OK\r\n");
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") {
+          socket.write("250-localhost\r\n250 AUTH PLAIN LOGIN\r\n");
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return { port, commands, close: () => server.close() };
+}
+
+const message = {
+  to: "user@example.com",
+  subject: "いつ空いてる? ログインリンク",
+  text: "本文",
+};
+
+describe("sendMail", () => {
+  let close: (() => void) | undefined;
+
+  afterEach(() => {
+    close?.();
+  });
+
+  it("sends without TLS to a server that needs no authentication", async () => {
+    const server = await startPlainSmtpServer();
+    close = server.close;
+    vi.stubEnv("SMTP_HOST", "127.0.0.1");
+    vi.stubEnv("SMTP_PORT", String(server.port));
+
+    await sendMail(message);
+
+    expect(server.commands).toContain("RCPT TO:<user@example.com>");
+  });
+
+  it("refuses to send credentials when the server does not offer STARTTLS", async () => {
+    const server = await startPlainSmtpServer();
+    close = server.close;
+    vi.stubEnv("SMTP_HOST", "127.0.0.1");
+    vi.stubEnv("SMTP_PORT", String(server.port));
+    vi.stubEnv("SMTP_USER", "mailer");
+    vi.stubEnv("SMTP_PASS", "secret");
+
+    await expect(sendMail(message)).rejects.toThrow();
+
+    expect(server.commands.some((c) => c.startsWith("AUTH"))).toBe(false);
+    expect(server.commands.some((c) => c.startsWith("RCPT"))).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import nodemailer from "nodemailer";
+
+// SMTP でテキストメールを送る。送信は nodemailer に任せる。
+//
+// - SMTP_HOST: 送信先のホスト。未設定ならメールは送れない
+// - SMTP_PORT: ポート (デフォルト 25、SMTP_SECURE なら 465)
+// - SMTP_SECURE: "true" なら最初から TLS で接続する
+// - SMTP_USER / SMTP_PASS: 認証が必要な場合に指定する
+// - MAIL_FROM: 差出人 (デフォルト noreply@localhost)
+//
+// SMTP_SECURE でなければ STARTTLS で暗号化する。認証情報を平文で送らないよう、
+// 認証する場合は STARTTLS に対応していないサーバーには送らない。
+// 認証しないローカルの受信用サーバー (Mailpit など) には、STARTTLS がなくても送る。
+
+const DEFAULT_FROM = "noreply@localhost";
+const SMTP_TIMEOUT_MS = 15_000;
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export function isMailerConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST);
+}
+
+function createTransport() {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST is not set");
+  }
+  const secure = process.env.SMTP_SECURE === "true";
+  const user = process.env.SMTP_USER;
+  const pass = process.env.SMTP_PASS;
+  const auth = user && pass ? { user, pass } : undefined;
+  return nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT ?? (secure ? 465 : 25)),
+    secure,
+    requireTLS: !secure && auth !== undefined,
+    auth,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+}
+
+/**
+ * メールを1通送る。送信できなければ例外を投げる。
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await createTransport().sendMail({
+    from: process.env.MAIL_FROM ?? DEFAULT_FROM,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+  });
+}
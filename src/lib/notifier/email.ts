@@ -0,0 +1,22 @@
+import { isMailerConfigured, sendMail } from "@/lib/mailer";
+import { alertSubject, alertText } from "./format";
+import type { CrowdAlert, Notifier } from "./types";
+
+/**
+ * アラートをテキストメールで送る。SMTP_HOST が未設定なら null を返す。
+ */
+export function createEmailNotifier(): Notifier | null {
+  if (!isMailerConfigured()) {
+    return null;
+  }
+  return {
+    channel: "email",
+    async send(target: string, alert: CrowdAlert): Promise<void> {
+      await sendMail({
+        to: target,
+        subject: alertSubject(alert),
+        text: alertText(alert),
+      });
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import type { CrowdAlert } from "./types";
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+export function alertSubject(alert: CrowdAlert): string {
+  return `【混雑注意】${alert.stationName}駅 ${alert.targetDate}`;
+}
+
+/** メールやチャットにそのまま載せられる本文 */
+export function alertText(alert: CrowdAlert): string {
+  const lines = [
+    `${alert.stationName}駅で ${alert.targetDate} に混雑度${alert.minScale}以上の混雑が予測されています。`,
+    "",
+  ];
+  for (const window of alert.windows) {
+    lines.push(
+      `■ ${formatHour(window.start_hour)}-${formatHour(window.end_hour)} ${window.label} (混雑度 ${window.totalScale}/10)`,
+    );
+    for (const event of window.events) {
+      lines.push(
+        `  ・${event.venue_name} - ${event.event_name ?? "名称不明のイベント"}`,
+      );
+    }
+  }
+  lines.push(
+    "",
+    `詳細: ${alert.pageUrl}`,
+    "",
+    "この情報はAIによる予測を含みます。あくまで参考情報としてご利用ください。",
+    `通知の解除: ${alert.unsubscribeUrl}`,
+  );
+  return lines.join("\n");
+}
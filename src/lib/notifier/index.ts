@@ -0,0 +1,23 @@
+import type { AlertChannel } from "@/lib/alertSubscriptions";
+import { createEmailNotifier } from "./email";
+import type { Notifier } from "./types";
+import { createWebhookNotifier } from "./webhook";
+
+export type { CrowdAlert, Notifier } from "./types";
+export { resolveWebhookTarget } from "./webhook";
+
+/**
+ * 購読の通知チャネルに対応する送信手段を返す。
+ * 設定不足で利用できない場合 (SMTP_HOST 未設定のメールなど) は null を返す。
+ */
+export function getNotifier(channel: AlertChannel): Notifier | null {
+  switch (channel) {
+    case "webhook":
+      return createWebhookNotifier();
+    case "email":
+      return createEmailNotifier();
+    default:
+      console.error(`Unknown alert channel: ${channel}`);
+      return null;
+  }
+}
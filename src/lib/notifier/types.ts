@@ -0,0 +1,26 @@
+// 通知チャネル共通の型定義
+
+import type { AlertChannel } from "@/lib/alertSubscriptions";
+import type { GroupedEvent } from "@/lib/eventTimeline";
+
+export type CrowdAlert = {
+  stationId: string;
+  stationName: string;
+  targetDate: string;
+  minScale: number;
+  // 購読の条件を満たした時間帯
+  windows: GroupedEvent[];
+  // 予測結果のページ (共有用ページ) の絶対URL
+  pageUrl: string;
+  // 購読を解除するためのURL
+  unsubscribeUrl: string;
+};
+
+/**
+ * 混雑アラートの送信先。Webhook やメールなどを差し替えられるようにする。
+ * 送信できなければ例外を投げる。
+ */
+export interface Notifier {
+  readonly channel: AlertChannel;
+  send(target: string, alert: CrowdAlert): Promise<void>;
+}
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { CrowdAlert } from "./types";
+import { createWebhookNotifier, resolveWebhookTarget } from "./webhook";
+
+const dns = vi.hoisted(() => ({
+  lookup: vi.fn(),
+}));
+vi.mock("node:dns/promises", () => dns);
+
+const PRIVATE_ADDRESS =
+  "target must not point to a private, loopback, or link-local address.";
+
+const alert: CrowdAlert = {
+  stationId: "odpt.Station:TokyoMetro.Marunouchi.Korakuen",
+  stationName: "後楽園",
+  targetDate: "2026-11-03",
+  minScale: 8,
+  windows: [],
+  pageUrl: "https://example.com/stations/x/2026-11-03",
+  unsubscribeUrl: "https://example.com/alerts?id=x&token=y",
+};
+
+describe("resolveWebhookTarget", () => {
+  afterEach(() => {
+    dns.lookup.mockReset();
+  });
+
+  it.each([
+    "http://127.0.0.1:8080/hook",
+    "http://10.1.2.3/hook",
+    "http://172.16.0.1/hook",
+    "http://192.168.1.10/hook",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://0.0.0.0/hook",
+    "http://[::1]/hook",
+    "http://[fe80::1]/hook",
+    "http://[fd00::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+  ])("rejects %s", async (target) => {
+    expect(await resolveWebhookTarget(target)).toBe(PRIVATE_ADDRESS);
+    expect(dns.lookup).not.toHaveBeenCalled();
+  });
+
+  it("rejects a host name that resolves to an internal address", async () => {
+    dns.lookup.mockResolvedValue([
+      { address: "203.0.113.10", family: 4 },
+      { address: "10.0.0.5", family: 4 },
+    ]);
+
+    expect(await resolveWebhookTarget("https://hooks.example.com/x")).toBe(
+      PRIVATE_ADDRESS,
+    );
+    expect(dns.lookup).toHaveBeenCalledWith("hooks.example.com", {
+      all: true,
+    });
+  });
+
+  it("pins the resolved public address", async () => {
+    dns.lookup.mockResolvedValue([{ address: "203.0.113.10", family: 4 }]);
+
+    expect(await resolveWebhookTarget("https://hooks.example.com/x")).toEqual({
+      url: new URL("https://hooks.example.com/x"),
+      address: "203.0.113.10",
+      family: 4,
+    });
+  });
+
+  it("rejects hosts that do not resolve and non-http URLs", async () => {
+    dns.lookup.mockRejectedValue(new Error("ENOTFOUND"));
+
+    expect(await resolveWebhookTarget("https://nowhere.invalid/x")).toBe(
+      "Could not resolve the webhook host nowhere.invalid.",
+    );
+    expect(await resolveWebhookTarget("file:///etc/passwd")).toBe(
+      "target must be an http(s) URL for webhook alerts.",
+    );
+    expect(await resolveWebhookTarget("not a url")).toBe(
+      "target must be an http(s) URL for webhook alerts.",
+    );
+  });
+});
+
+describe("createWebhookNotifier", () => {
+  it("refuses to send to an internal address at send time", async () => {
+    // 登録後に DNS の向き先が変わった場合も送らない
+    dns.lookup.mockResolvedValue([{ address: "127.0.0.1", family: 4 }]);
+
+    await expect(
+      createWebhookNotifier().send("http://hooks.example.com/x", alert),
+    ).rejects.toThrow(PRIVATE_ADDRESS);
+  });
+});
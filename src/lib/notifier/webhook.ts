@@ -0,0 +1,172 @@
+import { createHmac } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+import { alertSubject, alertText } from "./format";
+import type { CrowdAlert, Notifier } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// 購読者が指定したURLからサーバー内部のネットワークに届かないよう (SSRF)、
+// プライベート・ループバック・リンクローカルなどのアドレスには送らない
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  // NAT64 は IPv4 の内部アドレスに届きうる。IPv4 射影アドレス (::ffff:0:0/96) は
+  // BlockList が IPv4 の規則で判定する
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export type WebhookTarget = {
+  url: URL;
+  // 検証したアドレス。送信時はホスト名を引き直さずにここへ接続する
+  address: string;
+  family: number;
+};
+
+function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return (
+    family !== 0 &&
+    !BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6")
+  );
+}
+
+/**
+ * Webhook の送信先URLを検証し、接続先のアドレスを DNS で解決する。不正な場合はエラーメッセージを返す。
+ * ホスト名が解決するアドレスのうち1つでも内部のネットワークなら受け付けない。
+ */
+export async function resolveWebhookTarget(
+  target: string,
+): Promise<WebhookTarget | string> {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch (_error) {
+    return "target must be an http(s) URL for webhook alerts.";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "target must be an http(s) URL for webhook alerts.";
+  }
+
+  // IPv6 のアドレスは [::1] のように括弧で囲まれている
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: { address: string; family: number }[];
+  if (net.isIP(hostname)) {
+    addresses = [{ address: hostname, family: net.isIP(hostname) }];
+  } else {
+    try {
+      addresses = await lookup(hostname, { all: true });
+    } catch (_error) {
+      return `Could not resolve the webhook host ${hostname}.`;
+    }
+  }
+  if (
+    addresses.length === 0 ||
+    !addresses.every(({ address }) => isPublicAddress(address))
+  ) {
+    return "target must not point to a private, loopback, or link-local address.";
+  }
+  return { url, ...addresses[0] };
+}
+
+/** 検証済みのアドレスに JSON を POST し、ステータスコードを返す */
+function postJson(
+  target: WebhookTarget,
+  headers: Record<string, string>,
+  body: string,
+): Promise<number> {
+  const { address, family } = target;
+  return new Promise((resolve, reject) => {
+    const request = (target.url.protocol === "https:" ? https : http).request(
+      target.url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        // DNS の応答が検証後に変わっても、内部のホストには接続しない
+        lookup: (_hostname, options, callback) =>
+          options.all
+            ? callback(null, [{ address, family }])
+            : callback(null, address, family),
+        timeout: WEBHOOK_TIMEOUT_MS,
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      },
+    );
+    request.on("timeout", () =>
+      request.destroy(
+        new Error(`Webhook timed out after ${WEBHOOK_TIMEOUT_MS}ms`),
+      ),
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * 購読者が指定したURLに、アラートの内容を JSON で POST する。
+ * WEBHOOK_SIGNING_SECRET を設定すると、本文の HMAC-SHA256 を
+ * `X-Signature-256: sha256=<hex>` ヘッダーに付けるので、受信側で送信元を検証できる。
+ * `text` にはチャットツールにそのまま投稿できる本文を入れる。
+ * 送信のたびに送信先を検証し直し、リダイレクトはたどらない。
+ */
+export function createWebhookNotifier(): Notifier {
+  return {
+    channel: "webhook",
+    async send(target: string, alert: CrowdAlert): Promise<void> {
+      const webhookTarget = await resolveWebhookTarget(target);
+      if (typeof webhookTarget === "string") {
+        throw new Error(webhookTarget);
+      }
+
+      const body = JSON.stringify({
+        type: "crowd_alert",
+        station_id: alert.stationId,
+        station_name: alert.stationName,
+        target_date: alert.targetDate,
+        min_scale: alert.minScale,
+        windows: alert.windows,
+        page_url: alert.pageUrl,
+        unsubscribe_url: alert.unsubscribeUrl,
+        title: alertSubject(alert),
+        text: alertText(alert),
+      });
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      const secret = process.env.WEBHOOK_SIGNING_SECRET;
+      if (secret) {
+        headers["X-Signature-256"] =
+          `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+      }
+
+      const status = await postJson(webhookTarget, headers, body);
+      if (status < 200 || status >= 300) {
+        throw new Error(`Webhook responded with ${status}`);
+      }
+    },
+  };
+}
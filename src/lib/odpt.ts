@@ -1,54 +1,147 @@
+import { fetchUpstreamJson } from "@/lib/httpClient";
+
+export type OperatorOption = {
+  label: string;
+  value: string;
+};
+
 export type RailwayOption = {
   label: string;
   value: string;
   color?: string;
   code?: string;
+  operator?: string;
+  operatorLabel?: string;
 };
 
 export type StationOption = {
   label: string;
   value: string;
+  lat?: number;
+  lon?: number;
+};
+
+// 乗換関係の解決に使う駅の情報
+export type StationRecord = {
+  id: string;
+  title: string;
+  railway?: string;
+  connectingRailways: string[];
 };
 
+interface OdptOperator {
+  "dc:title"?: string;
+  "odpt:operatorTitle"?: { ja?: string };
+  "owl:sameAs": string;
+}
+
 interface OdptRailway {
   "dc:title"?: string;
   "odpt:railwayTitle"?: { ja?: string };
   "owl:sameAs": string;
   "odpt:color"?: string;
   "odpt:lineCode"?: string;
+  "odpt:operator"?: string;
+  "odpt:stationOrder"?: { "odpt:index": number; "odpt:station": string }[];
+  "odpt:ascendingRailDirection"?: string;
 }
 
 interface OdptStation {
   "dc:title"?: string;
   "odpt:stationTitle"?: { ja?: string };
   "owl:sameAs": string;
+  "odpt:railway"?: string;
+  "odpt:connectingRailway"?: string[];
+  "geo:lat"?: number;
+  "geo:long"?: number;
 }
 
-export async function fetchRailwayOptions(): Promise<RailwayOption[]> {
+/** ODPT API の基点。ODPT_API_BASE_URL でスタブサーバーなどに差し替えられる */
+export function odptApiBaseUrl(): string {
+  return (
+    process.env.ODPT_API_BASE_URL ?? "https://api-challenge.odpt.org/api/v4"
+  );
+}
+
+function toStationOption(r: OdptStation): StationOption {
+  return {
+    label: r["dc:title"] ?? r["odpt:stationTitle"]?.ja ?? r["owl:sameAs"],
+    value: r["owl:sameAs"],
+    // 座標が登録されていない駅もある
+    lat: r["geo:lat"],
+    lon: r["geo:long"],
+  };
+}
+
+/**
+ * 駅ID (例: odpt.Station:JR-East.Yamanote.Shinjuku) から事業者IDを取り出す。
+ */
+export function operatorIdFromStationId(stationId: string): string | null {
+  const match = stationId.match(/^odpt\.Station:([^.]+)\./);
+  return match ? `odpt.Operator:${match[1]}` : null;
+}
+
+export async function fetchOperatorOptions(): Promise<OperatorOption[]> {
   const key = process.env.ODPT_CONSUMER_KEY;
   if (!key) {
     throw new Error("ODPT_CONSUMER_KEY is not set");
   }
 
-  const url = `https://api-challenge.odpt.org/api/v4/odpt:Railway?odpt:operator=odpt.Operator:JR-East&acl:consumerKey=${key}`;
-  const res = await fetch(url, { next: { revalidate: 3600 } });
-
-  if (!res.ok) {
-    throw new Error(`Failed to fetch railways: ${res.status}`);
-  }
-
-  const rows: OdptRailway[] = await res.json();
+  const url = `${odptApiBaseUrl()}/odpt:Operator?acl:consumerKey=${key}`;
+  const rows = await fetchUpstreamJson<OdptOperator[]>(
+    "odpt",
+    "operators",
+    url,
+    { next: { revalidate: 86400 } },
+  );
 
   return rows
     .map((r) => ({
-      label: r["dc:title"] ?? r["odpt:railwayTitle"]?.ja ?? r["owl:sameAs"],
+      label: r["dc:title"] ?? r["odpt:operatorTitle"]?.ja ?? r["owl:sameAs"],
       value: r["owl:sameAs"],
-      color: r["odpt:color"],
-      code: r["odpt:lineCode"],
     }))
     .sort((a, b) => a.label.localeCompare(b.label, "ja"));
 }
 
+/**
+ * 全事業者の路線を取得する。事業者名を付け、事業者ごと・路線名順に並べる。
+ */
+export async function fetchRailwayOptions(): Promise<RailwayOption[]> {
+  const key = process.env.ODPT_CONSUMER_KEY;
+  if (!key) {
+    throw new Error("ODPT_CONSUMER_KEY is not set");
+  }
+
+  const url = `${odptApiBaseUrl()}/odpt:Railway?acl:consumerKey=${key}`;
+  const [rows, operators] = await Promise.all([
+    fetchUpstreamJson<OdptRailway[]>("odpt", "railways", url, {
+      next: { revalidate: 3600 },
+    }),
+    fetchOperatorOptions(),
+  ]);
+  const operatorLabels = new Map(operators.map((o) => [o.value, o.label]));
+
+  return rows
+    .map((r) => {
+      const operator = r["odpt:operator"];
+      return {
+        label: r["dc:title"] ?? r["odpt:railwayTitle"]?.ja ?? r["owl:sameAs"],
+        value: r["owl:sameAs"],
+        color: r["odpt:color"],
+        code: r["odpt:lineCode"],
+        operator,
+        operatorLabel: operator
+          ? (operatorLabels.get(operator) ?? operator)
+          : undefined,
+      };
+    })
+    .sort(
+      (a, b) =>
+        (a.operatorLabel ?? "").localeCompare(b.operatorLabel ?? "", "ja") ||
+        a.label.localeCompare(b.label, "ja"),
+    );
+}
+
 export async function fetchStationsByRailway(
   railwayId: string,
 ): Promise<StationOption[]> {
@@ -60,19 +153,103 @@ export async function fetchStationsByRailway(
     return [];
   }
 
-  const url = `https://api-challenge.odpt.org/api/v4/odpt:Station?odpt:railway=${railwayId}&acl:consumerKey=${key}`;
-  const res = await fetch(url, { next: { revalidate: 3600 } });
+  const url = `${odptApiBaseUrl()}/odpt:Station?odpt:railway=${railwayId}&acl:consumerKey=${key}`;
+  const rows = await fetchUpstreamJson<OdptStation[]>("odpt", "stations", url, {
+    next: { revalidate: 3600 },
+  });
 
-  if (!res.ok) {
-    throw new Error(`Failed to fetch stations: ${res.status}`);
+  return rows
+    .map(toStationOption)
+    .sort((a, b) => a.label.localeCompare(b.label, "ja"));
+}
+
+export type RailwayStationOrder = {
+  // odpt:stationOrder どおりに並べた駅ID
+  stationIds: string[];
+  // 山手線のような環状線なら true (最後の駅の次が最初の駅)
+  loop: boolean;
+};
+
+// 環状線は上り・下りの代わりに内回り・外回りで方向を表す
+const LOOP_RAIL_DIRECTIONS = new Set([
+  "odpt.RailDirection:InnerLoop",
+  "odpt.RailDirection:OuterLoop",
+]);
+
+/**
+ * 路線の駅IDを、ODPT の駅順 (odpt:stationOrder) どおりに並べて返す。
+ * 環状線は odpt:ascendingRailDirection が内回り・外回りかどうかで見分ける。
+ * 路線が見つからなければ null を返す。
+ */
+export async function fetchRailwayStationOrder(
+  railwayId: string,
+): Promise<RailwayStationOrder | null> {
+  const key = process.env.ODPT_CONSUMER_KEY;
+  if (!key) {
+    throw new Error("ODPT_CONSUMER_KEY is not set");
   }
 
-  const rows: OdptStation[] = await res.json();
+  const url = `${odptApiBaseUrl()}/odpt:Railway?owl:sameAs=${railwayId}&acl:consumerKey=${key}`;
+  const rows = await fetchUpstreamJson<OdptRailway[]>(
+    "odpt",
+    "railway station order",
+    url,
+    { next: { revalidate: 86400 } },
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+  const stationIds = [...(rows[0]["odpt:stationOrder"] ?? [])]
+    .sort((a, b) => a["odpt:index"] - b["odpt:index"])
+    .map((entry) => entry["odpt:station"]);
+  const loop = LOOP_RAIL_DIRECTIONS.has(
+    rows[0]["odpt:ascendingRailDirection"] ?? "",
+  );
+  // 環状線で最初の駅が最後にもう一度出てくる場合は、1周分だけにする
+  if (loop && stationIds.length > 1 && stationIds.at(-1) === stationIds[0]) {
+    stationIds.pop();
+  }
+  return { stationIds, loop };
+}
 
-  return rows
-    .map((r) => ({
-      label: r["dc:title"] ?? r["odpt:stationTitle"]?.ja ?? r["owl:sameAs"],
-      value: r["owl:sameAs"],
-    }))
-    .sort((a, b) => a.label.localeCompare(b.label, "ja"));
+/**
+ * 駅IDから駅を1件取得する。見つからなければ null を返す。
+ */
+export async function fetchStationById(
+  stationId: string,
+): Promise<StationOption | null> {
+  const key = process.env.ODPT_CONSUMER_KEY;
+  if (!key) {
+    throw new Error("ODPT_CONSUMER_KEY is not set");
+  }
+
+  const url = `${odptApiBaseUrl()}/odpt:Station?owl:sameAs=${stationId}&acl:consumerKey=${key}`;
+  const rows = await fetchUpstreamJson<OdptStation[]>("odpt", "station", url, {
+    next: { revalidate: 86400 },
+  });
+  return rows.length > 0 ? toStationOption(rows[0]) : null;
+}
+
+/**
+ * 事業者の全駅を、乗換路線の情報付きで取得する。
+ */
+export async function fetchStationRecordsByOperator(
+  operatorId: string,
+): Promise<StationRecord[]> {
+  const key = process.env.ODPT_CONSUMER_KEY;
+  if (!key) {
+    throw new Error("ODPT_CONSUMER_KEY is not set");
+  }
+
+  const url = `${odptApiBaseUrl()}/odpt:Station?odpt:operator=${operatorId}&acl:consumerKey=${key}`;
+  const rows = await fetchUpstreamJson<OdptStation[]>("odpt", "stations", url, {
+    next: { revalidate: 86400 },
+  });
+
+  return rows.map((r) => ({
+    id: r["owl:sameAs"],
+    title: r["dc:title"] ?? r["odpt:stationTitle"]?.ja ?? r["owl:sameAs"],
+    railway: r["odpt:railway"],
+    connectingRailways: r["odpt:connectingRailway"] ?? [],
+  }));
 }
@@ -0,0 +1,375 @@
+import { DEFAULT_RATE_LIMIT_PER_MINUTE } from "@/lib/apiKeys";
+import { MAX_BATCH_DAYS } from "@/lib/eventPipeline";
+
+// 公開API (/api/v1) の OpenAPI 3.1 ドキュメント。
+// ルートを変えたときはここも合わせて更新する。
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": {
+      schema: { $ref: "#/components/schemas/Error" },
+    },
+  },
+});
+
+const commonErrors = {
+  "401": errorResponse("API キーがない、または無効"),
+  "429": {
+    ...errorResponse("レート制限を超えた"),
+    headers: { "Retry-After": { schema: { type: "integer" } } },
+  },
+  "500": errorResponse("サーバー内部のエラー"),
+  "502": errorResponse("外部API (ODPT・Yahoo!・Nominatim・Gemini) の障害"),
+};
+
+const stationIdParameter = {
+  name: "stationId",
+  in: "path",
+  required: true,
+  description: "ODPT の駅ID (例: odpt.Station:JR-East.Yamanote.Shinjuku)",
+  schema: { type: "string" },
+};
+
+const nullable = (type: string) => ({ type: [type, "null"] });
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "いまあいてる君 API",
+    version: "1.0.0",
+    description: [
+      "駅周辺のイベントから、駅の混雑を予測する API です。",
+      "すべてのリクエストに `Authorization: Bearer <key>` (または `X-API-Key` ヘッダー) で API キーが必要です。",
+      `レート制限はキーごとに1分あたりのリクエスト数で、標準は ${DEFAULT_RATE_LIMIT_PER_MINUTE} 回です。`,
+      "予測は1日分ごとに1回として数えます。ただし1回のリクエストで数えるのはキーの上限までです。残りの回数は `X-RateLimit-*` ヘッダーで返します。",
+      "回数はサーバーのインスタンスごとに数えるため、複数のインスタンスで動かしている場合は上限がインスタンスの数だけ増えます。",
+    ].join("\n\n"),
+  },
+  servers: [{ url: "/api/v1" }],
+  security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+  paths: {
+    "/railways": {
+      get: {
+        summary: "路線の一覧",
+        operationId: "listRailways",
+        responses: {
+          "200": {
+            description: "全事業者の路線",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    railways: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Railway" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          ...commonErrors,
+        },
+      },
+    },
+    "/stations": {
+      get: {
+        summary: "路線の駅の一覧",
+        operationId: "listStations",
+        parameters: [
+          {
+            name: "railway_id",
+            in: "query",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "路線の駅 (路線での順)",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    stations: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Station" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("railway_id がない"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/stations/{stationId}/venues": {
+      get: {
+        summary: "駅周辺のイベント会場",
+        operationId: "listStationVenues",
+        parameters: [stationIdParameter],
+        responses: {
+          "200": {
+            description: "駅周辺でイベント会場として扱う施設",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    station_id: { type: "string" },
+                    station_name: { type: "string" },
+                    coordinates: {
+                      type: "object",
+                      properties: {
+                        lat: { type: "number" },
+                        lon: { type: "number" },
+                      },
+                    },
+                    venues: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Venue" },
+                    },
+                    degraded: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/DegradedInput" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "404": errorResponse("駅が見つからない"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/stations/{stationId}/forecast": {
+      get: {
+        summary: "駅の混雑予測",
+        description: `date で1日分、start_date と end_date で最大 ${MAX_BATCH_DAYS} 日分を予測します。`,
+        operationId: "getStationForecast",
+        parameters: [
+          stationIdParameter,
+          {
+            name: "date",
+            in: "query",
+            schema: { type: "string", format: "date" },
+          },
+          {
+            name: "start_date",
+            in: "query",
+            schema: { type: "string", format: "date" },
+          },
+          {
+            name: "end_date",
+            in: "query",
+            schema: { type: "string", format: "date" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "日付ごとの予測",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    forecasts: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Forecast" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("日付の指定が不正"),
+          "404": errorResponse("駅が見つからない"),
+          ...commonErrors,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer" },
+      apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: {
+            type: "object",
+            required: ["code", "message"],
+            properties: {
+              code: {
+                type: "string",
+                enum: [
+                  "bad_request",
+                  "unauthorized",
+                  "not_found",
+                  "rate_limited",
+                  "upstream_error",
+                  "internal_error",
+                ],
+              },
+              message: { type: "string" },
+              upstream: { $ref: "#/components/schemas/UpstreamError" },
+            },
+          },
+        },
+      },
+      UpstreamError: {
+        type: "object",
+        description: "upstream_error のときだけ付く、障害の発生元",
+        properties: {
+          source: {
+            type: "string",
+            enum: ["odpt", "yahoo", "nominatim", "gemini", "wikipedia"],
+          },
+          status: nullable("integer"),
+          retryable: { type: "boolean" },
+          message: { type: "string" },
+        },
+      },
+      DegradedInput: {
+        type: "object",
+        description:
+          "外部APIの障害やデータの欠けにより、既定値などで代用した入力",
+        properties: {
+          input: {
+            type: "string",
+            enum: [
+              "passengers",
+              "station_identity",
+              "coordinates",
+              "hourly_baseline",
+            ],
+          },
+          fallback: { type: "string" },
+          upstream: {
+            oneOf: [
+              { $ref: "#/components/schemas/UpstreamError" },
+              { type: "null" },
+            ],
+          },
+        },
+      },
+      Railway: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          operator_id: nullable("string"),
+          operator_name: nullable("string"),
+          code: nullable("string"),
+          color: nullable("string"),
+        },
+      },
+      Station: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          lat: nullable("number"),
+          lon: nullable("number"),
+        },
+      },
+      Venue: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          category: { type: "string" },
+          address: nullable("string"),
+          genres: { type: "array", items: { type: "string" } },
+          lat: nullable("number"),
+          lon: nullable("number"),
+        },
+      },
+      HourlyCongestion: {
+        type: "object",
+        properties: {
+          hour: { type: "integer", minimum: 0, maximum: 23 },
+          baseline: { type: "number", description: "平常時の利用者数" },
+          event_load: {
+            type: "number",
+            description: "イベント来場者による上乗せ人数",
+          },
+          index: {
+            type: "number",
+            description: "平常時の最混雑時間帯を100とした混雑指数",
+          },
+        },
+      },
+      CrowdedWindow: {
+        type: "object",
+        properties: {
+          start_hour: { type: "integer" },
+          end_hour: { type: "integer" },
+          label: { type: "string" },
+          scale: { type: "number", description: "混雑度 (1〜10)" },
+          events: { type: "array", items: { type: "object" } },
+        },
+      },
+      Forecast: {
+        type: "object",
+        properties: {
+          station_id: { type: "string" },
+          station_name: { type: "string" },
+          date: { type: "string", format: "date" },
+          quietest_hour: { type: "integer" },
+          busiest_hour: { type: "integer" },
+          hours: {
+            type: "array",
+            items: { $ref: "#/components/schemas/HourlyCongestion" },
+          },
+          crowded_windows: {
+            type: "array",
+            items: { $ref: "#/components/schemas/CrowdedWindow" },
+          },
+          facilities: { type: "array", items: { type: "object" } },
+          warnings: { type: "array", items: { type: "string" } },
+          passengers: {
+            type: "object",
+            properties: {
+              daily: { type: "number", description: "1日の乗降者数" },
+              source: { type: "string" },
+              matched_station_id: nullable("string"),
+            },
+          },
+          baseline: {
+            type: "object",
+            description: "その日の平常時の利用状況",
+            properties: {
+              day_type: {
+                type: "string",
+                enum: ["weekday", "saturday", "holiday"],
+                description:
+                  "ダイヤの種別。日曜と祝日 (振替休日を含む) は holiday",
+              },
+              daily_passengers: { type: "integer" },
+              source: {
+                type: "string",
+                enum: ["timetable", "profile"],
+                description:
+                  "timetable: 駅時刻表の本数から推定、profile: 駅の規模ごとの既定の割合",
+              },
+            },
+          },
+          degraded: {
+            type: "array",
+            items: { $ref: "#/components/schemas/DegradedInput" },
+          },
+        },
+      },
+    },
+  },
+};
@@ -1,3 +1,6 @@
+import { fetchUpstreamJson } from "@/lib/httpClient";
+import { odptApiBaseUrl } from "@/lib/odpt";
+
 // 型定義
 type PassengerSurveyObject = {
   "odpt:surveyYear": number;
@@ -14,55 +17,88 @@ type PassengerSurveyResponse = {
 // 駅IDをキー、乗降者数を値とするマップ
 export type StationPassengerData = Map<string, number>;
 
-const API_KEY = process.env.ODPT_CONSUMER_KEY;
+export const DEFAULT_OPERATOR_ID = "odpt.Operator:JR-East";
+
+// 乗車人員 (乗車のみ) を公表している事業者。それ以外は乗降人員を公表している
+const BOARDING_ONLY_OPERATORS = new Set(["odpt.Operator:JR-East"]);
+
+/** 事業者の乗降者数データが乗車人員のみかどうか */
+export function surveyCountsBoardingOnly(operatorId: string): boolean {
+  return BOARDING_ONLY_OPERATORS.has(operatorId);
+}
+
+// 1つの調査結果。同じ駅舎を共有する複数路線の駅IDがまとめて載っている
+export type PassengerSurvey = {
+  stationIds: string[];
+  passengerJourneys: number;
+};
 
 /**
- * ODPT APIからJR東日本の乗降者数データを取得し、
- * 駅IDをキー、最新の乗降者数を値とするMapを生成する。
+ * ODPT APIから指定した事業者の乗降者数調査を取得し、
+ * 駅ごとに最新年度の乗降者数を取り出す。
+ * 取得に失敗した場合は UpstreamError を投げる。空の結果で代用はしない。
  */
-export async function fetchStationPassengerData(): Promise<StationPassengerData> {
-  if (!API_KEY) {
-    console.error("ODPT_CONSUMER_KEY is not configured.");
-    // 本番環境ではエラーを投げるか、空のMapを返す
-    return new Map();
+export async function fetchPassengerSurveys(
+  operatorId = DEFAULT_OPERATOR_ID,
+): Promise<PassengerSurvey[]> {
+  const apiKey = process.env.ODPT_CONSUMER_KEY;
+  if (!apiKey) {
+    throw new Error("ODPT_CONSUMER_KEY is not set");
   }
 
-  const url = `https://api-challenge.odpt.org/api/v4/odpt:PassengerSurvey?odpt:operator=odpt.Operator:JR-East&acl:consumerKey=${API_KEY}`;
+  const url = `${odptApiBaseUrl()}/odpt:PassengerSurvey?odpt:operator=${operatorId}&acl:consumerKey=${apiKey}`;
+
+  // 年1回しか更新されないデータなので、事業者ごとに1日キャッシュする
+  const surveyData = await fetchUpstreamJson<PassengerSurveyResponse>(
+    "odpt",
+    `passenger surveys for ${operatorId}`,
+    url,
+    { next: { revalidate: 86400 } },
+  );
+
+  const surveys: PassengerSurvey[] = [];
 
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      console.error(`Failed to fetch passenger survey data: ${response.statusText}`);
-      return new Map();
+  for (const stationData of surveyData) {
+    if (
+      !stationData["odpt:passengerSurveyObject"] ||
+      stationData["odpt:passengerSurveyObject"].length === 0
+    ) {
+      continue;
     }
-    const surveyData: PassengerSurveyResponse = await response.json();
-
-    const stationPassengerMap: StationPassengerData = new Map();
-
-    for (const stationData of surveyData) {
-      if (!stationData["odpt:passengerSurveyObject"] || stationData["odpt:passengerSurveyObject"].length === 0) {
-        continue;
-      }
-      
-      // 最新の乗降者数情報を取得
-      const latestSurvey = stationData["odpt:passengerSurveyObject"].reduce(
-        (latest, current) => {
-          return current["odpt:surveyYear"] > latest["odpt:surveyYear"] ? current : latest;
-        }
-      );
-
-      if (latestSurvey["odpt:passengerJourneys"] > 0) {
-        // 複数の駅IDが含まれる場合があるため、それぞれに登録
-        for (const stationId of stationData["odpt:station"]) {
-          stationPassengerMap.set(stationId, latestSurvey["odpt:passengerJourneys"]);
-        }
-      }
+
+    // 最新の乗降者数情報を取得
+    const latestSurvey = stationData["odpt:passengerSurveyObject"].reduce(
+      (latest, current) => {
+        return current["odpt:surveyYear"] > latest["odpt:surveyYear"]
+          ? current
+          : latest;
+      },
+    );
+
+    if (latestSurvey["odpt:passengerJourneys"] > 0) {
+      surveys.push({
+        stationIds: stationData["odpt:station"] ?? [],
+        passengerJourneys: latestSurvey["odpt:passengerJourneys"],
+      });
     }
-    
-    return stationPassengerMap;
+  }
+
+  return surveys;
+}
 
-  } catch (error) {
-    console.error("Error fetching or processing passenger survey data:", error);
-    return new Map();
+/**
+ * 駅IDをキー、最新の乗降者数を値とするMapを生成する。
+ * 調査を取得できなければ UpstreamError を投げる。
+ */
+export async function fetchStationPassengerData(
+  operatorId = DEFAULT_OPERATOR_ID,
+): Promise<StationPassengerData> {
+  const stationPassengerMap: StationPassengerData = new Map();
+  for (const survey of await fetchPassengerSurveys(operatorId)) {
+    // 複数の駅IDが含まれる場合があるため、それぞれに登録
+    for (const stationId of survey.stationIds) {
+      stationPassengerMap.set(stationId, survey.passengerJourneys);
+    }
   }
+  return stationPassengerMap;
 }
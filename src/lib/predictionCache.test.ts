@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import type {
+  EventPredictionInput,
+  EventPredictor,
+} from "@/lib/eventPredictor";
+
+const input: EventPredictionInput = {
+  stationId: "odpt.Station:TokyoMetro.Marunouchi.Korakuen",
+  stationName: "後楽園",
+  targetDate: "2026-11-03",
+  facilityList: ["後楽園ホール", "文京シビックホール"],
+};
+
+function stubPredictor(): EventPredictor & { calls: number } {
+  return {
+    name: "stub",
+    calls: 0,
+    async predict(prediction) {
+      this.calls += 1;
+      return {
+        facilities: prediction.facilityList.map((facility_name) => ({
+          facility_name,
+          events: [],
+        })),
+        warnings: [],
+      };
+    },
+  };
+}
+
+// キャッシュの保存先はモジュールの読み込み時に環境変数から決まる
+async function loadCache() {
+  vi.resetModules();
+  vi.stubEnv("PREDICTION_CACHE_STORE", "memory");
+  return import("@/lib/predictionCache");
+}
+
+describe("readCachedPrediction", () => {
+  it("returns null without calling the predictor until something predicts", async () => {
+    const { predictWithCache, readCachedPrediction } = await loadCache();
+    const predictor = stubPredictor();
+
+    expect(await readCachedPrediction(predictor.name, input)).toBeNull();
+    await predictWithCache(predictor, input);
+
+    expect(await readCachedPrediction(predictor.name, input)).toEqual({
+      facilities: [
+        { facility_name: "後楽園ホール", events: [] },
+        { facility_name: "文京シビックホール", events: [] },
+      ],
+      warnings: [],
+      cached: true,
+    });
+    expect(predictor.calls).toBe(1);
+  });
+
+  it("shares the key regardless of the facility order", async () => {
+    const { predictWithCache, readCachedPrediction } = await loadCache();
+    await predictWithCache(stubPredictor(), input);
+
+    expect(
+      await readCachedPrediction("stub", {
+        ...input,
+        facilityList: [...input.facilityList].reverse(),
+      }),
+    ).not.toBeNull();
+    expect(
+      await readCachedPrediction("stub", {
+        ...input,
+        facilityList: ["後楽園ホール"],
+      }),
+    ).toBeNull();
+    expect(
+      await readCachedPrediction("stub", {
+        ...input,
+        targetDate: "2026-11-04",
+      }),
+    ).toBeNull();
+  });
+
+  it("returns null when caching is disabled", async () => {
+    vi.resetModules();
+    vi.stubEnv("PREDICTION_CACHE_STORE", "none");
+    const { predictWithCache, readCachedPrediction } = await import(
+      "@/lib/predictionCache"
+    );
+    await predictWithCache(stubPredictor(), input);
+
+    expect(await readCachedPrediction("stub", input)).toBeNull();
+  });
+});
+
+describe("predictWithCache", () => {
+  it("does not cache a prediction aborted by the caller", async () => {
+    const { predictWithCache, readCachedPrediction } = await loadCache();
+    const abort = new AbortController();
+    const predictor: EventPredictor = {
+      name: "stub",
+      async predict(_input, { signal } = {}) {
+        abort.abort(new Error("client disconnected"));
+        signal?.throwIfAborted();
+        return { facilities: [], warnings: [] };
+      },
+    };
+
+    await expect(
+      predictWithCache(predictor, input, { signal: abort.signal }),
+    ).rejects.toThrow("client disconnected");
+    expect(await readCachedPrediction("stub", input)).toBeNull();
+  });
+});
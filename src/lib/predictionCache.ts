@@ -0,0 +1,203 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  EventPrediction,
+  EventPredictionInput,
+  EventPredictOptions,
+  EventPredictor,
+} from "@/lib/eventPredictor";
+
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+const DEFAULT_CACHE_DIR = ".cache/predictions";
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+
+type CacheEntry<T> = {
+  value: T;
+  expiresAt: number;
+};
+
+/** キャッシュの保存先。メモリやファイルなどを差し替えられるようにする */
+export interface CacheStore<T> {
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export function createMemoryCacheStore<T>(
+  maxEntries = MEMORY_CACHE_MAX_ENTRIES,
+): CacheStore<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    async set(key, value, ttlSeconds) {
+      // 上限を超えたら古いものから捨てる (Map は挿入順を保持する)
+      entries.delete(key);
+      if (entries.size >= maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey !== undefined) entries.delete(oldestKey);
+      }
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/** 1キー1ファイルのJSONとして保存する。サーバーを再起動してもキャッシュが残る */
+export function createFileCacheStore<T>(dir: string): CacheStore<T> {
+  const baseDir = path.resolve(process.cwd(), dir);
+  const fileFor = (key: string) =>
+    path.join(
+      baseDir,
+      `${createHash("sha256").update(key).digest("hex")}.json`,
+    );
+
+  return {
+    async get(key) {
+      try {
+        const entry: CacheEntry<T> = JSON.parse(
+          await readFile(fileFor(key), "utf-8"),
+        );
+        if (entry.expiresAt <= Date.now()) {
+          await rm(fileFor(key), { force: true });
+          return null;
+        }
+        return entry.value;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`Failed to read cache entry ${key}:`, error);
+        }
+        return null;
+      }
+    },
+    async set(key, value, ttlSeconds) {
+      const entry: CacheEntry<T> = {
+        value,
+        expiresAt: Date.now() + ttlSeconds * 1000,
+      };
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify(entry), "utf-8");
+    },
+    async delete(key) {
+      await rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+/**
+ * 保存先の種類からキャッシュを作る。
+ * - "memory": プロセス内のメモリ
+ * - "file": dir 以下のJSON
+ * - "none": キャッシュしない
+ */
+export function createCacheStore<T>(
+  kind: string,
+  dir: string,
+): CacheStore<T> | null {
+  switch (kind) {
+    case "memory":
+      return createMemoryCacheStore();
+    case "file":
+      return createFileCacheStore(dir);
+    case "none":
+      return null;
+    default:
+      console.error(`Unknown cache store: ${kind}`);
+      return null;
+  }
+}
+
+// 環境変数 PREDICTION_CACHE_STORE (デフォルト memory) と PREDICTION_CACHE_DIR で保存先を選ぶ
+const predictionCacheStore = createCacheStore<EventPrediction>(
+  process.env.PREDICTION_CACHE_STORE ?? "memory",
+  process.env.PREDICTION_CACHE_DIR ?? DEFAULT_CACHE_DIR,
+);
+
+function predictionCacheTtlSeconds(): number {
+  const ttl = Number(process.env.PREDICTION_CACHE_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+/**
+ * プロバイダ名・駅・日付・施設一覧からキャッシュキーを作る。
+ * 施設一覧は順序に依存しないよう並べ替えてからハッシュする。
+ */
+export function predictionCacheKey(
+  predictorName: string,
+  input: EventPredictionInput,
+): string {
+  const facilityHash = createHash("sha256")
+    .update(JSON.stringify([...input.facilityList].sort()))
+    .digest("hex")
+    .slice(0, 16);
+  return `${predictorName}:${input.stationId}:${input.targetDate}:${facilityHash}`;
+}
+
+export type CachedPrediction = EventPrediction & {
+  cached: boolean;
+};
+
+/**
+ * キャッシュ済みの予測だけを返す。予測プロバイダは呼ばず、なければ null を返す。
+ * 誰でも開ける共有用ページなどから、LLM の呼び出しを起こさないために使う。
+ */
+export async function readCachedPrediction(
+  predictorName: string,
+  input: EventPredictionInput,
+): Promise<CachedPrediction | null> {
+  const cached = await predictionCacheStore?.get(
+    predictionCacheKey(predictorName, input),
+  );
+  return cached ? { ...cached, cached: true } : null;
+}
+
+/**
+ * キャッシュがあればそれを返し、なければ予測してキャッシュに保存する。
+ * refresh を指定するとキャッシュを読まずに予測し直す。
+ * signal と onFacility は予測プロバイダに渡す。キャッシュから返すときは onFacility を呼ばない。
+ * signal が中断されたら予測も中断し、キャッシュには保存しない。
+ */
+export async function predictWithCache(
+  predictor: EventPredictor,
+  input: EventPredictionInput,
+  {
+    refresh = false,
+    ...options
+  }: EventPredictOptions & { refresh?: boolean } = {},
+): Promise<CachedPrediction> {
+  if (!predictionCacheStore) {
+    return { ...(await predictor.predict(input, options)), cached: false };
+  }
+
+  const key = predictionCacheKey(predictor.name, input);
+  if (!refresh) {
+    const cached = await predictionCacheStore.get(key);
+    if (cached) {
+      return { ...cached, cached: true };
+    }
+  }
+
+  const prediction = await predictor.predict(input, options);
+  try {
+    await predictionCacheStore.set(
+      key,
+      prediction,
+      predictionCacheTtlSeconds(),
+    );
+  } catch (error) {
+    // キャッシュに書けなくても予測結果は返す
+    console.error(`Failed to store prediction cache ${key}:`, error);
+  }
+  return { ...prediction, cached: false };
+}
@@ -0,0 +1,133 @@
+import { readFile, rm, writeFile } from "node:fs/promises";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const JOBS_PATH = ".cache/test/railway-overview-jobs.json";
+const RAILWAY_ID = "odpt.Railway:TokyoMetro.MarunouchiBranch";
+
+const odpt = vi.hoisted(() => ({
+  fetchRailwayOptions: async () => [
+    { value: RAILWAY_ID, label: "丸ノ内線分岐線", color: "#F62E36" },
+  ],
+  fetchStationsByRailway: async () => [
+    { value: "odpt.Station:A", label: "駅A" },
+    { value: "odpt.Station:B", label: "駅B" },
+  ],
+}));
+vi.mock("@/lib/odpt", () => odpt);
+
+const stationForecast = vi.hoisted(() => ({
+  loadStationForecast: vi.fn(),
+}));
+vi.mock("@/lib/stationForecast", () => stationForecast);
+
+// ジョブの状態はファイルに、レート制限はモジュール内のメモリにあるので、テストごとに読み込み直す
+async function loadOverview() {
+  vi.resetModules();
+  vi.stubEnv("RAILWAY_OVERVIEW_JOBS_PATH", JOBS_PATH);
+  vi.stubEnv("RAILWAY_OVERVIEW_INTERVAL_MS", "0");
+  return import("@/lib/railwayOverview");
+}
+
+async function storedJobs() {
+  return JSON.parse(await readFile(JOBS_PATH, "utf-8"));
+}
+
+describe("railway overview queue", () => {
+  beforeEach(async () => {
+    await rm(JOBS_PATH, { force: true });
+    stationForecast.loadStationForecast.mockReset();
+    stationForecast.loadStationForecast.mockImplementation(
+      async (stationId: string) => ({
+        hours: Array.from({ length: 24 }, (_, hour) => ({
+          hour,
+          index: stationId.endsWith("A") ? 50 : 80,
+        })),
+        quietest_hour: 4,
+        busiest_hour: 18,
+        degraded: [],
+        cached: true,
+      }),
+    );
+  });
+
+  it("persists a queued job and runs it when the queue is drained", async () => {
+    const overview = await loadOverview();
+    const job = await overview.enqueueRailwayOverview(RAILWAY_ID, "2026-11-03");
+    if (job === null || typeof job === "string") throw new Error("not queued");
+
+    expect(job).toMatchObject({ status: "queued", queue_position: 0 });
+    expect(overview.isRailwayOverviewPending(job)).toBe(true);
+
+    // 別のプロセスから読んでも同じジョブが見える
+    const reloaded = await loadOverview();
+    await reloaded.drainRailwayOverviewQueue();
+    const finished = await reloaded.getRailwayOverviewJob(job.id);
+
+    expect(finished?.status).toBe("done");
+    expect(finished?.stations.map((s) => s.hours?.[12])).toEqual([50, 80]);
+    expect(finished?.finished_at).not.toBeNull();
+  });
+
+  it("resumes a stalled job from the station where it stopped", async () => {
+    const overview = await loadOverview();
+    const job = await overview.enqueueRailwayOverview(RAILWAY_ID, "2026-11-03");
+    if (job === null || typeof job === "string") throw new Error("not queued");
+    // 1駅目を終えたところでプロセスが止まったジョブ
+    const [stored] = await storedJobs();
+    stored.status = "running";
+    stored.heartbeat_at = Date.now() - 11 * 60 * 1000;
+    stored.stations[0] = { ...stored.stations[0], status: "done", hours: [] };
+    await writeFile(JOBS_PATH, JSON.stringify([stored]));
+
+    await (await loadOverview()).drainRailwayOverviewQueue();
+
+    expect(stationForecast.loadStationForecast).toHaveBeenCalledTimes(1);
+    expect(stationForecast.loadStationForecast).toHaveBeenCalledWith(
+      "odpt.Station:B",
+      "2026-11-03",
+    );
+    const [resumed] = await storedJobs();
+    expect(resumed.status).toBe("done");
+  });
+
+  it("leaves a job that another process is still running", async () => {
+    const overview = await loadOverview();
+    await overview.enqueueRailwayOverview(RAILWAY_ID, "2026-11-03");
+    const [stored] = await storedJobs();
+    stored.status = "running";
+    stored.heartbeat_at = Date.now();
+    await writeFile(JOBS_PATH, JSON.stringify([stored]));
+
+    await (await loadOverview()).drainRailwayOverviewQueue();
+
+    expect(stationForecast.loadStationForecast).not.toHaveBeenCalled();
+  });
+
+  it("limits the number of new jobs per client", async () => {
+    const overview = await loadOverview();
+    const dates = ["2026-11-03", "2026-11-04", "2026-11-05", "2026-11-06"];
+
+    const results = [];
+    for (const date of dates) {
+      const job = await overview.enqueueRailwayOverview(RAILWAY_ID, date, {
+        client: "203.0.113.1",
+      });
+      results.push(typeof job === "string" ? job : job?.status);
+    }
+    // 既存のジョブを使い回すときは数えない
+    const reused = await overview.enqueueRailwayOverview(
+      RAILWAY_ID,
+      "2026-11-03",
+      { client: "203.0.113.1" },
+    );
+    const other = await overview.enqueueRailwayOverview(
+      RAILWAY_ID,
+      "2026-11-06",
+      { client: "203.0.113.2" },
+    );
+
+    expect(results).toEqual(["queued", "queued", "queued", "rate_limited"]);
+    expect(reused).toMatchObject({ target_date: "2026-11-03" });
+    expect(other).toMatchObject({ status: "queued", queue_position: 3 });
+  });
+});
@@ -0,0 +1,332 @@
+import { randomUUID } from "node:crypto";
+import { createJsonListStore } from "@/lib/jsonStore";
+import { fetchRailwayOptions, fetchStationsByRailway } from "@/lib/odpt";
+import { consumeRateLimit } from "@/lib/rateLimit";
+import { loadStationForecast } from "@/lib/stationForecast";
+import type { DegradedInput } from "@/lib/upstream";
+
+// 路線の全駅 (または区間の駅) の混雑予測をまとめて求めるジョブ。
+// 駅ごとに会場検索とイベント予測を呼ぶため、並列には走らせず、待ち行列で1駅ずつ順に処理する。
+// ジョブの状態は RAILWAY_OVERVIEW_JOBS_PATH (デフォルト .data/railway-overview-jobs.json) に
+// 駅が終わるたびに保存する。処理はリクエストの after() で進め、途中でプロセスが止まっても、
+// 次に進み具合を取得したときに止まった駅から再開する。
+
+const DEFAULT_JOBS_PATH = ".data/railway-overview-jobs.json";
+// キャッシュのない駅を予測したあと、次の駅まで空ける時間 (予測プロバイダの利用枠の保護)
+const DEFAULT_INTERVAL_MS = 3_000;
+// 待ち行列に積めるジョブ数の上限
+const MAX_QUEUED_JOBS = 10;
+// 終わったジョブを同じ路線・日付のリクエストに使い回す期間
+const JOB_TTL_MS = 60 * 60 * 1000;
+// 処理中のジョブがこの間進まなければ、処理していたプロセスが止まったとみなして引き継ぐ
+const STALE_JOB_MS = 10 * 60 * 1000;
+// 1クライアントが新しく積めるジョブの数
+const JOBS_PER_CLIENT = { limit: 3, windowMs: 10 * 60 * 1000 };
+
+export type RailwayOverviewStation = {
+  station_id: string;
+  station_name: string;
+  status: "pending" | "done" | "failed";
+  // 0〜23時の混雑指数 (その駅の平常時の最混雑時間帯を100とする)
+  hours: number[] | null;
+  quietest_hour: number | null;
+  busiest_hour: number | null;
+  error: string | null;
+  degraded: DegradedInput[];
+};
+
+export type RailwayOverviewJob = {
+  id: string;
+  railway_id: string;
+  railway_name: string;
+  color: string | null;
+  target_date: string;
+  status: "queued" | "running" | "done" | "failed";
+  // 自分より前に待っているジョブの数。待ち行列にいなければ 0
+  queue_position: number;
+  stations: RailwayOverviewStation[];
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+};
+
+export type EnqueueRejection = "queue_full" | "rate_limited";
+
+type StoredJob = Omit<RailwayOverviewJob, "queue_position"> & {
+  // 処理中のプロセスが最後に進み具合を保存した時刻 (UNIX ミリ秒)
+  heartbeat_at: number | null;
+};
+
+const store = createJsonListStore<StoredJob>(
+  () => process.env.RAILWAY_OVERVIEW_JOBS_PATH ?? DEFAULT_JOBS_PATH,
+  (raw) => {
+    // 自分で書き出したファイルなので、形が明らかに違うものだけ捨てる
+    const job = raw as StoredJob | null;
+    return typeof job?.id === "string" && Array.isArray(job.stations)
+      ? job
+      : null;
+  },
+);
+
+let draining = false;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function intervalMs(): number {
+  const value = Number(process.env.RAILWAY_OVERVIEW_INTERVAL_MS);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_INTERVAL_MS;
+}
+
+/** 待ち行列 (処理中を含む) のジョブを、積まれた順に返す */
+function queuedJobs(jobs: StoredJob[]): StoredJob[] {
+  return jobs
+    .filter((job) => job.status === "queued" || job.status === "running")
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+function toPublicJob(
+  { heartbeat_at: _, ...job }: StoredJob,
+  jobs: StoredJob[],
+): RailwayOverviewJob {
+  return {
+    ...job,
+    queue_position: Math.max(
+      0,
+      queuedJobs(jobs).findIndex((queued) => queued.id === job.id),
+    ),
+  };
+}
+
+function isExpired(job: StoredJob, now: number): boolean {
+  return (
+    job.finished_at !== null &&
+    now - new Date(job.finished_at).getTime() >= JOB_TTL_MS
+  );
+}
+
+function updateJob(id: string, update: (job: StoredJob) => StoredJob) {
+  return store.update((jobs) => ({
+    entries: jobs.map((job) => (job.id === id ? update(job) : job)),
+    result: undefined,
+  }));
+}
+
+/**
+ * 待ち行列の先頭のジョブを処理中にして返す。先頭を他のプロセスが処理中なら null。
+ * 処理中のまま STALE_JOB_MS 進んでいないジョブは引き継ぐ。
+ */
+function claimNextJob(now: number): Promise<StoredJob | null> {
+  return store.update((jobs) => {
+    const [next] = queuedJobs(jobs);
+    if (
+      !next ||
+      (next.status === "running" &&
+        now - (next.heartbeat_at ?? 0) < STALE_JOB_MS)
+    ) {
+      return { entries: jobs, result: null };
+    }
+    const claimed: StoredJob = {
+      ...next,
+      status: "running",
+      heartbeat_at: now,
+    };
+    return {
+      entries: jobs.map((job) => (job.id === claimed.id ? claimed : job)),
+      result: claimed,
+    };
+  });
+}
+
+/** 1駅分を予測する。予測をキャッシュから返したかどうかも返す */
+async function forecastStation(
+  station: RailwayOverviewStation,
+  targetDate: string,
+): Promise<{ station: RailwayOverviewStation; cached: boolean }> {
+  try {
+    const forecast = await loadStationForecast(station.station_id, targetDate);
+    if (!forecast) {
+      return {
+        station: {
+          ...station,
+          status: "failed",
+          error: "駅の位置が見つかりませんでした",
+        },
+        cached: true,
+      };
+    }
+    return {
+      station: {
+        ...station,
+        status: "done",
+        hours: forecast.hours.map((hour) => hour.index),
+        quietest_hour: forecast.quietest_hour,
+        busiest_hour: forecast.busiest_hour,
+        degraded: forecast.degraded,
+      },
+      cached: forecast.cached,
+    };
+  } catch (error) {
+    console.error(
+      `Railway overview failed for ${station.station_id} on ${targetDate}:`,
+      error,
+    );
+    return {
+      station: {
+        ...station,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      },
+      cached: true,
+    };
+  }
+}
+
+/** まだ終わっていない駅を順に予測し、1駅ごとに保存する */
+async function runJob(job: StoredJob) {
+  const stations = [...job.stations];
+  for (const [i, station] of stations.entries()) {
+    if (station.status !== "pending") continue;
+    const result = await forecastStation(station, job.target_date);
+    stations[i] = result.station;
+    await updateJob(job.id, (stored) => ({
+      ...stored,
+      stations: stored.stations.map((s, k) => (k === i ? result.station : s)),
+      heartbeat_at: Date.now(),
+    }));
+    if (!result.cached && i < stations.length - 1) {
+      await sleep(intervalMs());
+    }
+  }
+  const succeeded = stations.some((station) => station.status === "done");
+  await updateJob(job.id, (stored) => ({
+    ...stored,
+    status: succeeded || stations.length === 0 ? "done" : "failed",
+    error:
+      succeeded || stations.length === 0
+        ? null
+        : "すべての駅で予測に失敗しました",
+    finished_at: new Date().toISOString(),
+    heartbeat_at: null,
+  }));
+}
+
+/**
+ * 待ち行列のジョブを1件ずつ処理する。このプロセスがすでに処理中なら何もしない。
+ * レスポンスを返したあとに進めるよう、ルートから after() で呼ぶ。
+ */
+export async function drainRailwayOverviewQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    for (
+      let job = await claimNextJob(Date.now());
+      job;
+      job = await claimNextJob(Date.now())
+    ) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error("Railway overview queue stopped:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * 路線・日付の一覧ジョブを待ち行列に積む。処理は drainRailwayOverviewQueue で進める。
+ * stationIds を渡すと、その駅だけをその順で予測する (区間の混雑確認用)。
+ * 同じ路線・日付で必要な駅をすべて含むジョブが処理中か、終わってから間もなければそれを返す。
+ * client (IPアドレスなど) を渡すと、新しく積むジョブの数をクライアントごとに制限する。
+ * 路線が見つからなければ null、待ち行列が一杯なら "queue_full"、
+ * クライアントの上限を超えたら "rate_limited" を返す。
+ */
+export async function enqueueRailwayOverview(
+  railwayId: string,
+  targetDate: string,
+  {
+    stationIds,
+    client,
+    now = new Date(),
+  }: { stationIds?: string[]; client?: string; now?: Date } = {},
+): Promise<RailwayOverviewJob | EnqueueRejection | null> {
+  const [railways, railwayStations] = await Promise.all([
+    fetchRailwayOptions(),
+    fetchStationsByRailway(railwayId),
+  ]);
+  const railway = railways.find((option) => option.value === railwayId);
+  if (!railway) {
+    return null;
+  }
+  const stations = stationIds
+    ? stationIds.flatMap((id) => railwayStations.filter((s) => s.value === id))
+    : railwayStations;
+
+  return store.update<RailwayOverviewJob | EnqueueRejection>((stored) => {
+    const jobs = stored.filter((job) => !isExpired(job, now.getTime()));
+    const existing = jobs.find(
+      (job) =>
+        job.railway_id === railwayId &&
+        job.target_date === targetDate &&
+        job.status !== "failed" &&
+        stations.every((station) =>
+          job.stations.some((s) => s.station_id === station.value),
+        ),
+    );
+    if (existing) {
+      return { entries: jobs, result: toPublicJob(existing, jobs) };
+    }
+    if (queuedJobs(jobs).length >= MAX_QUEUED_JOBS) {
+      return { entries: jobs, result: "queue_full" };
+    }
+    if (
+      client &&
+      !consumeRateLimit(`railway-overview:${client}`, JOBS_PER_CLIENT.limit, {
+        windowMs: JOBS_PER_CLIENT.windowMs,
+        now: now.getTime(),
+      }).allowed
+    ) {
+      return { entries: jobs, result: "rate_limited" };
+    }
+
+    const job: StoredJob = {
+      id: randomUUID(),
+      railway_id: railwayId,
+      railway_name: railway.label,
+      color: railway.color ?? null,
+      target_date: targetDate,
+      status: "queued",
+      stations: stations.map((station) => ({
+        station_id: station.value,
+        station_name: station.label,
+        status: "pending",
+        hours: null,
+        quietest_hour: null,
+        busiest_hour: null,
+        error: null,
+        degraded: [],
+      })),
+      error: null,
+      created_at: now.toISOString(),
+      finished_at: null,
+      heartbeat_at: null,
+    };
+    const entries = [...jobs, job];
+    return { entries, result: toPublicJob(job, entries) };
+  });
+}
+
+export async function getRailwayOverviewJob(
+  id: string,
+): Promise<RailwayOverviewJob | null> {
+  const jobs = await store.list();
+  const job = jobs.find((stored) => stored.id === id);
+  return job ? toPublicJob(job, jobs) : null;
+}
+
+/** まだ処理が終わっていないか。終わっていなければ、ルートは after() で処理を進める */
+export function isRailwayOverviewPending(job: {
+  status: RailwayOverviewJob["status"];
+}): boolean {
+  return job.status === "queued" || job.status === "running";
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { consumeRateLimit } from "@/lib/rateLimit";
+
+describe("consumeRateLimit", () => {
+  it("counts requests within a window and starts over after it", () => {
+    const now = 1_000_000;
+    const first = consumeRateLimit("window", 2, { now });
+    consumeRateLimit("window", 2, { now });
+    const limited = consumeRateLimit("window", 2, { now: now + 59_999 });
+    const next = consumeRateLimit("window", 2, { now: now + 60_000 });
+
+    expect(first).toEqual({
+      allowed: true,
+      limit: 2,
+      remaining: 1,
+      resetAt: 1_060,
+    });
+    expect(limited).toMatchObject({ allowed: false, remaining: 0 });
+    expect(next).toMatchObject({ allowed: true, remaining: 1, resetAt: 1_120 });
+  });
+
+  it("caps the cost at the limit so a low limit still allows a fresh window", () => {
+    const now = 2_000_000;
+    const week = consumeRateLimit("low-limit", 5, { cost: 7, now });
+    const again = consumeRateLimit("low-limit", 5, { cost: 7, now });
+
+    expect(week).toMatchObject({ allowed: true, remaining: 0 });
+    expect(again).toMatchObject({ allowed: false, remaining: 0 });
+  });
+
+  it("does not charge a rejected request", () => {
+    const now = 3_000_000;
+    consumeRateLimit("partial", 10, { cost: 8, now });
+    const rejected = consumeRateLimit("partial", 10, { cost: 7, now });
+    const single = consumeRateLimit("partial", 10, { now });
+
+    expect(rejected).toMatchObject({ allowed: false, remaining: 2 });
+    expect(single).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it("rejects every request for a key whose limit is zero", () => {
+    expect(consumeRateLimit("disabled", 0, { now: 4_000_000 }).allowed).toBe(
+      false,
+    );
+  });
+});
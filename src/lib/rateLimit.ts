@@ -0,0 +1,79 @@
+// プロセス内のメモリで数える、固定ウィンドウ方式のレート制限。
+// 複数インスタンスで動かす場合はインスタンスごとの上限になり、再起動すると数え直す。
+
+const WINDOW_MS = 60_000;
+// 終わったウィンドウをまとめて捨てる間隔
+const SWEEP_INTERVAL_MS = 60_000;
+
+type Window = {
+  endsAt: number;
+  count: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // 現在のウィンドウが終わる時刻 (UNIX 秒)
+  resetAt: number;
+};
+
+const windows = new Map<string, Window>();
+let lastSweepAt = 0;
+
+// 一度きりのキー (IP アドレスなど) でメモリが増え続けないよう、終わったウィンドウを消す
+function sweepExpiredWindows(now: number) {
+  if (now - lastSweepAt < SWEEP_INTERVAL_MS) return;
+  lastSweepAt = now;
+  for (const [key, window] of windows) {
+    if (now >= window.endsAt) {
+      windows.delete(key);
+    }
+  }
+}
+
+/**
+ * key ごとに windowMs (デフォルト1分) あたり limit までリクエストを許可する。
+ * 重いリクエストは cost を大きくして、1回で複数回分を消費させる。
+ * cost は limit で頭打ちにするので、上限の小さいキーでも空のウィンドウなら通る。
+ */
+export function consumeRateLimit(
+  key: string,
+  limit: number,
+  {
+    cost = 1,
+    windowMs = WINDOW_MS,
+    now = Date.now(),
+  }: { cost?: number; windowMs?: number; now?: number } = {},
+): RateLimitResult {
+  sweepExpiredWindows(now);
+  let window = windows.get(key);
+  if (!window || now >= window.endsAt) {
+    window = { endsAt: now + windowMs, count: 0 };
+    windows.set(key, window);
+  }
+  const charged = Math.min(cost, Math.max(limit, 1));
+  const allowed = window.count + charged <= limit;
+  if (allowed) {
+    window.count += charged;
+  }
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    resetAt: Math.ceil(window.endsAt / 1000),
+  };
+}
+
+/**
+ * レート制限に使うクライアントのIPアドレス。リバースプロキシが付ける
+ * X-Forwarded-For の先頭 (なければ X-Real-IP) を使う。プロキシを通さずに公開すると
+ * クライアントが自由に書き換えられるので、必ずプロキシの後ろで動かす。
+ */
+export function clientAddress(request: Request): string {
+  return (
+    request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import type { RailwayOverviewStation } from "@/lib/railwayOverview";
+import {
+  aggregateRouteHours,
+  type RouteHour,
+  recommendDepartureHour,
+  stationsBetween,
+} from "@/lib/routeCheck";
+
+const line = (stationIds: string[], loop = false) => ({ stationIds, loop });
+
+// 山手線を12駅に縮めた環状線
+const LOOP = line(
+  [
+    "Osaki",
+    "Gotanda",
+    "Meguro",
+    "Ebisu",
+    "Shibuya",
+    "Harajuku",
+    "Yoyogi",
+    "Shinjuku",
+    "Ikebukuro",
+    "Ueno",
+    "Tokyo",
+    "Shinagawa",
+  ],
+  true,
+);
+
+const station = (
+  station_name: string,
+  hours: number[] | null,
+  status: RailwayOverviewStation["status"] = "done",
+): RailwayOverviewStation => ({
+  station_id: `odpt.Station:Test.${station_name}`,
+  station_name,
+  status,
+  hours,
+  quietest_hour: null,
+  busiest_hour: null,
+  error: null,
+  degraded: [],
+});
+
+// 指定した時間だけ指数を変え、それ以外は50にした24時間分の平均
+function routeHours(indexes: Record<number, number>): RouteHour[] {
+  return Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    average_index: indexes[hour] ?? 50,
+    max_index: indexes[hour] ?? 50,
+    busiest_station: null,
+  }));
+}
+
+describe("stationsBetween", () => {
+  const order = line(["A", "B", "C", "D", "E"]);
+
+  it("returns the stations in the direction of travel", () => {
+    expect(stationsBetween(order, "B", "D")).toEqual(["B", "C", "D"]);
+    expect(stationsBetween(order, "D", "A")).toEqual(["D", "C", "B", "A"]);
+  });
+
+  it("returns null when a station is not on the line or is the same", () => {
+    expect(stationsBetween(order, "B", "Z")).toBeNull();
+    expect(stationsBetween(order, "Z", "B")).toBeNull();
+    expect(stationsBetween(order, "C", "C")).toBeNull();
+  });
+
+  it("goes the shorter way round a loop line", () => {
+    // 駅順の最初と最後の駅は隣どうし
+    expect(stationsBetween(LOOP, "Osaki", "Shinagawa")).toEqual([
+      "Osaki",
+      "Shinagawa",
+    ]);
+    expect(stationsBetween(LOOP, "Tokyo", "Gotanda")).toEqual([
+      "Tokyo",
+      "Shinagawa",
+      "Osaki",
+      "Gotanda",
+    ]);
+    expect(stationsBetween(LOOP, "Shibuya", "Shinjuku")).toEqual([
+      "Shibuya",
+      "Harajuku",
+      "Yoyogi",
+      "Shinjuku",
+    ]);
+  });
+
+  it("follows the station order when both ways round are as long", () => {
+    expect(stationsBetween(LOOP, "Osaki", "Yoyogi")).toEqual([
+      "Osaki",
+      "Gotanda",
+      "Meguro",
+      "Ebisu",
+      "Shibuya",
+      "Harajuku",
+      "Yoyogi",
+    ]);
+  });
+});
+
+describe("aggregateRouteHours", () => {
+  it("averages the finished stations and names the busiest one", () => {
+    const hours = aggregateRouteHours([
+      station("渋谷", Array(24).fill(100)),
+      station("原宿", Array(24).fill(40)),
+      station("代々木", null, "pending"),
+      station("新宿", null, "failed"),
+    ]);
+
+    expect(hours).toHaveLength(24);
+    expect(hours[8]).toEqual({
+      hour: 8,
+      average_index: 70,
+      max_index: 100,
+      busiest_station: "渋谷",
+    });
+  });
+
+  it("returns nothing until a station has finished", () => {
+    expect(aggregateRouteHours([station("渋谷", null, "pending")])).toEqual([]);
+  });
+});
+
+describe("recommendDepartureHour", () => {
+  it("picks the quietest hour within service hours", () => {
+    // 始発前と終電後の指数は低くても選ばない
+    const hours = routeHours({ 3: 0, 0: 0, 14: 20, 22: 30 });
+
+    expect(recommendDepartureHour(hours, null)).toBe(14);
+  });
+
+  it("considers the last service hour", () => {
+    expect(recommendDepartureHour(routeHours({ 23: 10 }), null)).toBe(23);
+    expect(recommendDepartureHour(routeHours({ 5: 10 }), null)).toBe(5);
+  });
+
+  it("only looks around the requested hour", () => {
+    const hours = routeHours({ 14: 10, 9: 30 });
+
+    expect(recommendDepartureHour(hours, 8)).toBe(9);
+  });
+
+  it("prefers the hour closer to the requested hour on a tie", () => {
+    const hours = routeHours({ 6: 20, 9: 20 });
+
+    expect(recommendDepartureHour(hours, 8)).toBe(9);
+    expect(recommendDepartureHour(hours, 7)).toBe(6);
+  });
+
+  it("returns null when no hour is left", () => {
+    expect(recommendDepartureHour([], null)).toBeNull();
+    // 希望の時刻の前後がすべて始発前
+    expect(recommendDepartureHour(routeHours({}), 1)).toBeNull();
+  });
+});
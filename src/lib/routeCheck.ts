@@ -0,0 +1,209 @@
+import { HOURS_PER_DAY } from "@/lib/congestionCurve";
+import { fetchRailwayStationOrder, type RailwayStationOrder } from "@/lib/odpt";
+import {
+  type EnqueueRejection,
+  enqueueRailwayOverview,
+  type RailwayOverviewJob,
+  type RailwayOverviewStation,
+} from "@/lib/railwayOverview";
+
+// 同じ路線の乗車駅から降車駅までの区間について、通過する駅の混雑をまとめる。
+// 駅の予測は路線の一覧と同じ待ち行列で1駅ずつ求め、同じ路線・日付の一覧があれば使い回す。
+// 乗車中の移動時間は考えず、区間の駅をすべて同じ時間帯に通るものとみなす。
+
+// 始発前と終電後は出発時刻の候補から外す
+const SERVICE_START_HOUR = 5;
+const SERVICE_END_HOUR = 23;
+// 希望の時刻があるとき、おすすめの出発時刻を探す前後の幅
+const RECOMMENDATION_WINDOW_HOURS = 2;
+
+export type RouteHour = {
+  hour: number;
+  // 区間の駅の混雑指数の平均と最大
+  average_index: number;
+  max_index: number;
+  // その時間にいちばん混む駅
+  busiest_station: string | null;
+};
+
+export type RouteCheck = {
+  job_id: string;
+  status: RailwayOverviewJob["status"];
+  queue_position: number;
+  railway_id: string;
+  railway_name: string;
+  color: string | null;
+  target_date: string;
+  // 乗車駅から降車駅までの駅 (両端を含む、進行方向順)
+  stations: Pick<
+    RailwayOverviewStation,
+    "station_id" | "station_name" | "status" | "hours" | "error"
+  >[];
+  // 予測の終わった駅だけで集計した、0〜23時の混雑
+  hours: RouteHour[];
+  requested_hour: number | null;
+  // 区間のすべての駅の予測が終わってから決める
+  recommended_hour: number | null;
+};
+
+/**
+ * 駅順のなかで origin から destination までの駅を、進行方向順に返す。
+ * 環状線では、駅順の向きと逆向きのうち駅の少ないほうを回る (同じなら駅順の向き)。
+ * どちらかが路線にない場合や同じ駅の場合は null を返す。
+ */
+export function stationsBetween(
+  { stationIds, loop }: RailwayStationOrder,
+  origin: string,
+  destination: string,
+): string[] | null {
+  const from = stationIds.indexOf(origin);
+  const to = stationIds.indexOf(destination);
+  if (from < 0 || to < 0 || from === to) {
+    return null;
+  }
+  if (loop) {
+    const count = stationIds.length;
+    const forward = (to - from + count) % count;
+    const step = forward <= count - forward ? 1 : -1;
+    const stops = Math.min(forward, count - forward);
+    return Array.from(
+      { length: stops + 1 },
+      (_, i) => stationIds[(from + step * i + count) % count],
+    );
+  }
+  return from < to
+    ? stationIds.slice(from, to + 1)
+    : stationIds.slice(to, from + 1).reverse();
+}
+
+/** 予測の終わった駅の混雑指数を、時間ごとに平均・最大で集計する */
+export function aggregateRouteHours(
+  stations: RailwayOverviewStation[],
+): RouteHour[] {
+  const done = stations.filter(
+    (station): station is RailwayOverviewStation & { hours: number[] } =>
+      station.status === "done" && station.hours !== null,
+  );
+  if (done.length === 0) {
+    return [];
+  }
+  return Array.from({ length: HOURS_PER_DAY }, (_, hour) => {
+    let total = 0;
+    let busiest = done[0];
+    for (const station of done) {
+      const index = station.hours[hour] ?? 0;
+      total += index;
+      if (index > (busiest.hours[hour] ?? 0)) {
+        busiest = station;
+      }
+    }
+    return {
+      hour,
+      average_index: Math.round(total / done.length),
+      max_index: busiest.hours[hour] ?? 0,
+      busiest_station: busiest.station_name,
+    };
+  });
+}
+
+/**
+ * 区間の平均の混雑指数がいちばん低い出発時刻を選ぶ。
+ * 希望の時刻があればその前後 RECOMMENDATION_WINDOW_HOURS 時間から選び、
+ * 同じ指数なら希望の時刻に近いほうを優先する。
+ */
+export function recommendDepartureHour(
+  hours: RouteHour[],
+  preferredHour: number | null,
+): number | null {
+  const candidates = hours.filter(
+    (h) =>
+      h.hour >= SERVICE_START_HOUR &&
+      h.hour <= SERVICE_END_HOUR &&
+      (preferredHour === null ||
+        Math.abs(h.hour - preferredHour) <= RECOMMENDATION_WINDOW_HOURS),
+  );
+  const distance = (hour: number) =>
+    preferredHour === null ? 0 : Math.abs(hour - preferredHour);
+  let best: RouteHour | null = null;
+  for (const candidate of candidates) {
+    if (
+      !best ||
+      candidate.average_index < best.average_index ||
+      (candidate.average_index === best.average_index &&
+        distance(candidate.hour) < distance(best.hour))
+    ) {
+      best = candidate;
+    }
+  }
+  return best?.hour ?? null;
+}
+
+/**
+ * 区間の混雑を確かめる。必要な駅の予測ジョブを積み (または使い回し)、
+ * その時点で終わっている駅から集計した結果を返す。呼び直せば進み具合が反映される。
+ * 路線や駅が見つからなければ null、ジョブを積めなければ
+ * enqueueRailwayOverview と同じく "queue_full" か "rate_limited" を返す。
+ */
+export async function checkRoute({
+  railwayId,
+  originStationId,
+  destinationStationId,
+  targetDate,
+  hour,
+  client,
+}: {
+  railwayId: string;
+  originStationId: string;
+  destinationStationId: string;
+  targetDate: string;
+  hour: number | null;
+  // 新しくジョブを積むときのレート制限に使う (IPアドレスなど)
+  client?: string;
+}): Promise<RouteCheck | EnqueueRejection | null> {
+  const order = await fetchRailwayStationOrder(railwayId);
+  const path =
+    order && stationsBetween(order, originStationId, destinationStationId);
+  if (!path) {
+    return null;
+  }
+  const job = await enqueueRailwayOverview(railwayId, targetDate, {
+    stationIds: path,
+    client,
+  });
+  if (job === null || typeof job === "string") {
+    return job;
+  }
+
+  const stations = path.flatMap((id) =>
+    job.stations.filter((station) => station.station_id === id),
+  );
+  const hours = aggregateRouteHours(stations);
+  // 路線全体のジョブを使い回したときは、区間の駅が終わった時点で完了とする
+  const finished = stations.every((station) => station.status !== "pending");
+  const status: RouteCheck["status"] = !finished
+    ? job.status
+    : hours.length > 0
+      ? "done"
+      : "failed";
+  return {
+    job_id: job.id,
+    status,
+    queue_position: job.queue_position,
+    railway_id: job.railway_id,
+    railway_name: job.railway_name,
+    color: job.color,
+    target_date: job.target_date,
+    stations: stations.map(
+      ({ station_id, station_name, status, hours, error }) => ({
+        station_id,
+        station_name,
+        status,
+        hours,
+        error,
+      }),
+    ),
+    hours,
+    requested_hour: hour,
+    recommended_hour: finished ? recommendDepartureHour(hours, hour) : null,
+  };
+}
@@ -0,0 +1,225 @@
+import { cache } from "react";
+import { isDateString } from "@/lib/calendar";
+import {
+  buildCongestionCurve,
+  type CongestionCurve,
+} from "@/lib/congestionCurve";
+import type { ScoredFacility } from "@/lib/congestionScore";
+import {
+  baselineSummary,
+  type DatePrediction,
+  type EventPipelineInput,
+  loadCachedEventPipeline,
+  passengerSummary,
+  runEventPipeline,
+  runEventPipelineForDates,
+  type StationLoad,
+} from "@/lib/eventPipeline";
+import { getEventPredictor } from "@/lib/eventPredictor";
+import { fetchStationById } from "@/lib/odpt";
+import type { DegradedInput } from "@/lib/upstream";
+import { findVenuesNearStation, locateStation } from "@/lib/venueSearch";
+
+// 駅・日付ごとの予測結果をサーバー側で組み立てる。共有用のページやカレンダー配信から使う
+
+export type StationForecast = CongestionCurve & {
+  stationId: string;
+  stationName: string;
+  targetDate: string;
+  facilities: ScoredFacility[];
+  warnings: string[];
+  cached: boolean;
+  passengers: ReturnType<typeof passengerSummary>;
+  baseline: ReturnType<typeof baselineSummary>;
+  degraded: DegradedInput[];
+};
+
+type StationVenues = {
+  stationName: string;
+  input: Omit<EventPipelineInput, "targetDate">;
+  degraded: DegradedInput[];
+};
+
+function requirePredictor() {
+  const clientId = process.env.YAHOO_CLIENT_ID;
+  const predictor = getEventPredictor();
+  if (!clientId || !predictor) {
+    throw new Error("YAHOO_CLIENT_ID or event predictor is not configured.");
+  }
+  return { clientId, predictor };
+}
+
+/** 駅名を引いて周辺の会場を検索する。駅が見つからなければ null */
+async function loadStationVenues(
+  clientId: string,
+  stationId: string,
+): Promise<StationVenues | null> {
+  const station = await fetchStationById(stationId);
+  if (!station) {
+    return null;
+  }
+  const location = await locateStation({
+    stationId,
+    stationName: station.label,
+  });
+  if (!location) {
+    return null;
+  }
+  const venueResults = await findVenuesNearStation(clientId, location);
+
+  const venues = venueResults.Feature;
+  return {
+    stationName: station.label,
+    input: {
+      stationId,
+      stationName: station.label,
+      facilityList: venues.map((venue) => venue.Name),
+      facilityIds: Object.fromEntries(
+        venues.map((venue) => [venue.Name, venue.Id]),
+      ),
+    },
+    degraded: location.degraded,
+  };
+}
+
+function toStationForecast(
+  venues: StationVenues,
+  station: StationLoad,
+  day: DatePrediction,
+): StationForecast {
+  return {
+    stationId: venues.input.stationId,
+    stationName: venues.stationName,
+    targetDate: day.targetDate,
+    ...buildCongestionCurve(
+      day.baseline.passengers,
+      day.baseline.timeZones,
+      day.facilities,
+    ),
+    facilities: day.facilities,
+    warnings: day.warnings,
+    cached: day.cached,
+    passengers: passengerSummary(station),
+    baseline: baselineSummary(day.baseline),
+    degraded: [...venues.degraded, ...station.degraded],
+  };
+}
+
+/**
+ * 駅ID・日付から、会場検索・イベント予測・混雑曲線までをまとめて求める。
+ * `/api/venues/stream` と同じく全施設をまとめて予測するので、
+ * 画面で一度表示した駅・日付はキャッシュから返せる。キャッシュがなければ予測プロバイダを呼ぶ。
+ * 駅が見つからない場合や日付が不正な場合は null を返す。
+ */
+export const loadStationForecast = cache(
+  async (
+    stationId: string,
+    targetDate: string,
+  ): Promise<StationForecast | null> => {
+    if (!isDateString(targetDate)) {
+      return null;
+    }
+    const { clientId, predictor } = requirePredictor();
+    const venues = await loadStationVenues(clientId, stationId);
+    if (!venues) {
+      return null;
+    }
+    const result = await runEventPipeline(predictor, {
+      ...venues.input,
+      targetDate,
+    });
+    return toStationForecast(venues, result, { ...result, targetDate });
+  },
+);
+
+export type CachedStationForecast = {
+  stationId: string;
+  stationName: string;
+  targetDate: string;
+  // まだ誰もこの駅・日付を予測していなければ null
+  forecast: StationForecast | null;
+};
+
+/**
+ * 共有用のページと画像向けに、キャッシュ済みの予測だけから混雑予測を求める。
+ * 誰でも開けるURLから LLM の呼び出しを起こさないよう、予測プロバイダは呼ばない。
+ * 駅が見つからない場合や日付が不正な場合は null を返す。
+ *
+ * 1回のリクエスト内ではページ本体・メタデータ・画像で結果を共有する。
+ */
+export const loadCachedStationForecast = cache(
+  async (
+    stationId: string,
+    targetDate: string,
+  ): Promise<CachedStationForecast | null> => {
+    if (!isDateString(targetDate)) {
+      return null;
+    }
+    const { clientId, predictor } = requirePredictor();
+    const venues = await loadStationVenues(clientId, stationId);
+    if (!venues) {
+      return null;
+    }
+    const result = await loadCachedEventPipeline(predictor, {
+      ...venues.input,
+      targetDate,
+    });
+    return {
+      stationId,
+      stationName: venues.stationName,
+      targetDate,
+      forecast: result
+        ? toStationForecast(venues, result, { ...result, targetDate })
+        : null,
+    };
+  },
+);
+
+/**
+ * 複数日分の混雑予測を、キャッシュ済みの予測だけから求める。
+ * カレンダーの購読URLのように誰でも取りに来られる経路向けで、まだ予測のない日は含めない。
+ * 駅が見つからなければ null を返す。
+ */
+export async function loadCachedStationForecasts(
+  stationId: string,
+  dates: string[],
+): Promise<{ stationName: string; forecasts: StationForecast[] } | null> {
+  const results = await Promise.all(
+    dates.map((date) => loadCachedStationForecast(stationId, date)),
+  );
+  const [first] = results;
+  if (!first) {
+    return null;
+  }
+  return {
+    stationName: first.stationName,
+    forecasts: results.flatMap((result) =>
+      result?.forecast ? [result.forecast] : [],
+    ),
+  };
+}
+
+/**
+ * 複数日分の予測をまとめて求める。駅が見つからなければ null を返す。
+ */
+export async function loadStationForecasts(
+  stationId: string,
+  dates: string[],
+): Promise<StationForecast[] | null> {
+  const { clientId, predictor } = requirePredictor();
+  const venues = await loadStationVenues(clientId, stationId);
+  if (!venues) {
+    return null;
+  }
+  const { station, days } = await runEventPipelineForDates(
+    predictor,
+    venues.input,
+    dates,
+  );
+  return days.map((day) => toStationForecast(venues, station, day));
+}
+
+/** 共有用ページのパス。駅IDには `:` などが含まれるのでエンコードする */
+export function stationForecastPath(stationId: string, targetDate: string) {
+  return `/stations/${encodeURIComponent(stationId)}/${targetDate}`;
+}
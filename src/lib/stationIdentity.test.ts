@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { StationRecord } from "@/lib/odpt";
+import type { PassengerSurvey } from "@/lib/passengerSurvey";
+import {
+  createStationIdentityResolver,
+  lookupStationPassengers,
+} from "@/lib/stationIdentity";
+
+const MARUNOUCHI = "odpt.Railway:TokyoMetro.Marunouchi";
+const CHIYODA = "odpt.Railway:TokyoMetro.Chiyoda";
+const MITA = "odpt.Railway:Toei.Mita";
+
+const station = (
+  id: string,
+  title: string,
+  railway: string,
+  connectingRailways: string[],
+): StationRecord => ({ id, title, railway, connectingRailways });
+
+// 大手町駅。丸ノ内線・千代田線 (東京メトロ) と三田線 (都営) で駅IDが別々
+const METRO_MARUNOUCHI = "odpt.Station:TokyoMetro.Marunouchi.Otemachi";
+const METRO_CHIYODA = "odpt.Station:TokyoMetro.Chiyoda.Otemachi";
+const TOEI_MITA = "odpt.Station:Toei.Mita.Otemachi";
+const STATIONS = [
+  station(METRO_MARUNOUCHI, "大手町", MARUNOUCHI, [CHIYODA, MITA]),
+  station(METRO_CHIYODA, "大手町", CHIYODA, [MARUNOUCHI, MITA]),
+  station(TOEI_MITA, "大手町", MITA, [MARUNOUCHI, CHIYODA]),
+  // 乗換路線を持たない同名の駅
+  station(
+    "odpt.Station:Other.Line.Otemachi",
+    "大手町",
+    "odpt.Railway:Other.Line",
+    [],
+  ),
+];
+
+describe("createStationIdentityResolver", () => {
+  it("merges same-named stations of connecting railways across operators", () => {
+    const resolver = createStationIdentityResolver(STATIONS, []);
+
+    expect(resolver.membersOf(TOEI_MITA).sort()).toEqual(
+      [METRO_CHIYODA, METRO_MARUNOUCHI, TOEI_MITA].sort(),
+    );
+    expect(resolver.membersOf("odpt.Station:Other.Line.Otemachi")).toEqual([
+      "odpt.Station:Other.Line.Otemachi",
+    ]);
+  });
+
+  it("merges the station IDs of one passenger survey", () => {
+    const resolver = createStationIdentityResolver(
+      [],
+      [{ stationIds: [METRO_MARUNOUCHI, METRO_CHIYODA], passengerJourneys: 1 }],
+    );
+
+    expect(resolver.membersOf(METRO_CHIYODA).sort()).toEqual(
+      [METRO_CHIYODA, METRO_MARUNOUCHI].sort(),
+    );
+  });
+
+  it("does not merge same-named stations that do not connect", () => {
+    const resolver = createStationIdentityResolver(
+      [
+        station("odpt.Station:A.Line.Fuchu", "府中", "odpt.Railway:A.Line", []),
+        station("odpt.Station:B.Line.Fuchu", "府中", "odpt.Railway:B.Line", []),
+      ],
+      [],
+    );
+
+    expect(resolver.membersOf("odpt.Station:A.Line.Fuchu")).toEqual([
+      "odpt.Station:A.Line.Fuchu",
+    ]);
+  });
+
+  it("returns an unknown station on its own", () => {
+    const resolver = createStationIdentityResolver(STATIONS, []);
+
+    expect(resolver.membersOf("odpt.Station:Unknown")).toEqual([
+      "odpt.Station:Unknown",
+    ]);
+  });
+});
+
+describe("lookupStationPassengers", () => {
+  const surveys: PassengerSurvey[] = [
+    {
+      stationIds: [METRO_MARUNOUCHI, METRO_CHIYODA],
+      passengerJourneys: 320000,
+    },
+  ];
+  const resolver = createStationIdentityResolver(STATIONS, surveys);
+
+  it("uses the survey of the station itself", () => {
+    expect(lookupStationPassengers(METRO_CHIYODA, resolver, surveys)).toEqual({
+      passengerJourneys: 320000,
+      matchedStationId: METRO_CHIYODA,
+      source: "survey",
+    });
+  });
+
+  it("uses the survey of another railway's ID for the same station", () => {
+    const lookup = lookupStationPassengers(TOEI_MITA, resolver, surveys);
+
+    expect(lookup.passengerJourneys).toBe(320000);
+    expect(lookup.source).toBe("same-station");
+    expect([METRO_MARUNOUCHI, METRO_CHIYODA]).toContain(
+      lookup.matchedStationId,
+    );
+  });
+
+  it("falls back when no member of the station has a survey", () => {
+    expect(
+      lookupStationPassengers(
+        "odpt.Station:Other.Line.Otemachi",
+        resolver,
+        surveys,
+      ),
+    ).toEqual({
+      passengerJourneys: null,
+      matchedStationId: null,
+      source: "fallback",
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { fetchStationRecordsByOperator, type StationRecord } from "@/lib/odpt";
+import {
+  fetchPassengerSurveys,
+  type PassengerSurvey,
+} from "@/lib/passengerSurvey";
+import { type DegradedInput, UpstreamError } from "@/lib/upstream";
+
+// ODPTでは同じ駅舎でも路線ごとに別の駅ID (owl:sameAs) が振られる。
+// 乗換関係と乗降者数調査の駅IDの組から、路線別の駅IDを物理的な駅単位にまとめる。
+
+export type StationIdentityResolver = {
+  // 同じ物理駅に属する駅IDの一覧 (自身を含む)
+  membersOf(stationId: string): string[];
+};
+
+export type StationPassengerLookup = {
+  passengerJourneys: number | null;
+  // 乗降者数が見つかった駅ID。見つからなければ null
+  matchedStationId: string | null;
+  source: "survey" | "same-station" | "fallback";
+};
+
+export function createStationIdentityResolver(
+  stations: StationRecord[],
+  surveys: PassengerSurvey[],
+): StationIdentityResolver {
+  const parent = new Map<string, string>();
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.has(root) && parent.get(root) !== root) {
+      root = parent.get(root) as string;
+    }
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootA, rootB);
+  };
+
+  // 乗降者数調査で1件にまとめられている駅IDは同じ駅
+  for (const survey of surveys) {
+    for (const id of survey.stationIds.slice(1)) {
+      union(survey.stationIds[0], id);
+    }
+  }
+
+  // 同名で、互いの路線を乗換路線に持つ駅は同じ駅
+  const stationsByTitle = new Map<string, StationRecord[]>();
+  for (const station of stations) {
+    const sameTitle = stationsByTitle.get(station.title) ?? [];
+    sameTitle.push(station);
+    stationsByTitle.set(station.title, sameTitle);
+  }
+  for (const sameTitle of stationsByTitle.values()) {
+    for (const a of sameTitle) {
+      for (const b of sameTitle) {
+        if (
+          a.id !== b.id &&
+          b.railway &&
+          a.connectingRailways.includes(b.railway)
+        ) {
+          union(a.id, b.id);
+        }
+      }
+    }
+  }
+
+  const members = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    const group = members.get(root) ?? [];
+    group.push(id);
+    members.set(root, group);
+  }
+
+  return {
+    membersOf(stationId) {
+      return parent.has(stationId)
+        ? (members.get(find(stationId)) ?? [stationId])
+        : [stationId];
+    },
+  };
+}
+
+/**
+ * 駅IDから乗降者数を引く。指定の駅IDに調査結果がなければ、
+ * 同じ物理駅に属する他路線の駅IDの調査結果を使う。
+ */
+export function lookupStationPassengers(
+  stationId: string,
+  resolver: StationIdentityResolver,
+  surveys: PassengerSurvey[],
+): StationPassengerLookup {
+  const passengersById = new Map<string, number>();
+  for (const survey of surveys) {
+    for (const id of survey.stationIds) {
+      passengersById.set(id, survey.passengerJourneys);
+    }
+  }
+
+  const direct = passengersById.get(stationId);
+  if (direct) {
+    return {
+      passengerJourneys: direct,
+      matchedStationId: stationId,
+      source: "survey",
+    };
+  }
+  for (const memberId of resolver.membersOf(stationId)) {
+    const passengers = passengersById.get(memberId);
+    if (passengers) {
+      return {
+        passengerJourneys: passengers,
+        matchedStationId: memberId,
+        source: "same-station",
+      };
+    }
+  }
+  return {
+    passengerJourneys: null,
+    matchedStationId: null,
+    source: "fallback",
+  };
+}
+
+export type StationPassengerResolution = StationPassengerLookup & {
+  // 上流の障害で代用した入力
+  degraded: DegradedInput[];
+};
+
+/**
+ * 事業者の駅一覧と乗降者数調査を取得し、駅IDから乗降者数を引く。
+ * ODPT の障害で取得できなかったものは空として扱い、degraded に記録する。
+ */
+export async function resolveStationPassengers(
+  stationId: string,
+  operatorId: string,
+): Promise<StationPassengerResolution> {
+  const degraded: DegradedInput[] = [];
+  const [stations, surveys] = await Promise.all([
+    fetchStationRecordsByOperator(operatorId).catch((error) => {
+      if (!(error instanceof UpstreamError)) throw error;
+      // 駅一覧が取れなくても、調査結果の駅IDだけで突き合わせる
+      console.error(`Failed to fetch stations for ${operatorId}:`, error);
+      degraded.push({
+        input: "station_identity",
+        fallback: "乗降者数調査の駅IDのみで照合",
+        upstream: error.toJSON(),
+      });
+      return [];
+    }),
+    fetchPassengerSurveys(operatorId).catch((error) => {
+      if (!(error instanceof UpstreamError)) throw error;
+      console.error(
+        `Failed to fetch passenger surveys for ${operatorId}:`,
+        error,
+      );
+      degraded.push({
+        input: "passengers",
+        fallback: "既定の乗降者数",
+        upstream: error.toJSON(),
+      });
+      return [];
+    }),
+  ]);
+  const resolver = createStationIdentityResolver(stations, surveys);
+  return {
+    ...lookupStationPassengers(stationId, resolver, surveys),
+    degraded,
+  };
+}
@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const STATION_ID = "odpt.Station:JR-East.Yamanote.Shibuya";
+
+const odpt = vi.hoisted(() => ({ fetchStationById: vi.fn() }));
+vi.mock("@/lib/odpt", () => odpt);
+
+const venueSearch = vi.hoisted(() => ({ locateStation: vi.fn() }));
+vi.mock("@/lib/venueSearch", () => venueSearch);
+
+// Wikipedia API の応答を action ごとに返す偽の fetch
+function wikipediaFetch() {
+  return vi.fn(async (url: string) => {
+    const params = new URL(url).searchParams;
+    if (params.get("list") === "geosearch") {
+      return Response.json({
+        query: {
+          geosearch: [{ title: "渋谷ヒカリエ" }, { title: "渋谷駅" }],
+        },
+      });
+    }
+    if (params.get("prop") === "pageimages") {
+      return Response.json({
+        query: {
+          pages: {
+            "1": {
+              title: params.get("titles"),
+              pageimage: "Shibuya_Station.jpg",
+              thumbnail: {
+                source: "https://upload.wikimedia.org/shibuya.jpg",
+                width: 500,
+                height: 375,
+              },
+            },
+          },
+        },
+      });
+    }
+    return Response.json({
+      query: {
+        pages: {
+          "-1": {
+            imageinfo: [
+              {
+                descriptionurl:
+                  "https://commons.wikimedia.org/wiki/File:Shibuya_Station.jpg",
+                extmetadata: {
+                  Artist: { value: '<a href="/wiki/User:A">A &amp; B</a>' },
+                  LicenseShortName: { value: "CC BY-SA 4.0" },
+                  LicenseUrl: {
+                    value: "https://creativecommons.org/licenses/by-sa/4.0",
+                  },
+                },
+              },
+            ],
+          },
+        },
+      },
+    });
+  });
+}
+
+// キャッシュと上流の状態はモジュール内のメモリにあるので、テストごとに読み込み直す
+async function loadStationImage() {
+  vi.resetModules();
+  vi.stubEnv("STATION_IMAGE_CACHE_STORE", "memory");
+  return import("@/lib/stationImage");
+}
+
+function requestedParams(fetch: ReturnType<typeof wikipediaFetch>) {
+  return fetch.mock.calls.map(([url]) => new URL(url).searchParams);
+}
+
+describe("getStationImage", () => {
+  beforeEach(() => {
+    odpt.fetchStationById.mockReset();
+    odpt.fetchStationById.mockResolvedValue({
+      value: STATION_ID,
+      label: "渋谷",
+      lat: 35.658,
+      lon: 139.7016,
+    });
+    venueSearch.locateStation.mockReset();
+  });
+
+  it("finds the station article near the ODPT coordinates", async () => {
+    const fetch = wikipediaFetch();
+    vi.stubGlobal("fetch", fetch);
+    const { getStationImage } = await loadStationImage();
+
+    const result = await getStationImage(STATION_ID);
+
+    const [geo, images] = requestedParams(fetch);
+    expect(geo.get("gscoord")).toBe("35.658|139.7016");
+    expect(images.get("titles")).toBe("渋谷駅");
+    expect(result?.image).toEqual({
+      article_title: "渋谷駅",
+      article_url: `https://ja.wikipedia.org/wiki/${encodeURIComponent("渋谷駅")}`,
+      thumbnail_url: "https://upload.wikimedia.org/shibuya.jpg",
+      width: 500,
+      height: 375,
+      file_page_url:
+        "https://commons.wikimedia.org/wiki/File:Shibuya_Station.jpg",
+      artist: "A & B",
+      license: "CC BY-SA 4.0",
+      license_url: "https://creativecommons.org/licenses/by-sa/4.0",
+    });
+  });
+
+  it("caches the result per station", async () => {
+    const fetch = wikipediaFetch();
+    vi.stubGlobal("fetch", fetch);
+    const { getStationImage } = await loadStationImage();
+
+    const first = await getStationImage(STATION_ID);
+    const second = await getStationImage(STATION_ID);
+
+    expect(second).toEqual(first);
+    expect(odpt.fetchStationById).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("geocodes the ODPT station name when ODPT has no coordinates", async () => {
+    odpt.fetchStationById.mockResolvedValue({
+      value: STATION_ID,
+      label: "渋谷",
+    });
+    venueSearch.locateStation.mockResolvedValue({
+      lat: "35.659",
+      lon: "139.700",
+      displayName: "渋谷駅",
+      source: "nominatim",
+      degraded: [],
+    });
+    const fetch = wikipediaFetch();
+    vi.stubGlobal("fetch", fetch);
+    const { getStationImage } = await loadStationImage();
+
+    await getStationImage(STATION_ID);
+
+    expect(venueSearch.locateStation).toHaveBeenCalledWith({
+      stationName: "渋谷",
+    });
+    expect(requestedParams(fetch)[0].get("gscoord")).toBe("35.659|139.7");
+  });
+
+  it("returns null without asking Wikipedia for an unknown station", async () => {
+    odpt.fetchStationById.mockResolvedValue(null);
+    const fetch = wikipediaFetch();
+    vi.stubGlobal("fetch", fetch);
+    const { getStationImage } = await loadStationImage();
+
+    expect(await getStationImage("odpt.Station:Unknown")).toBeNull();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("gives up on a Wikipedia request that does not answer in time", async () => {
+    vi.stubEnv("WIKIPEDIA_TIMEOUT_MS", "20");
+    // signal が中断されるまで応答しない
+    const fetch = vi.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          );
+        }),
+    );
+    vi.stubGlobal("fetch", fetch);
+    const { getStationImage } = await loadStationImage();
+
+    const error = await getStationImage(STATION_ID).catch((e) => e);
+
+    expect(error).toMatchObject({ name: "UpstreamError", source: "wikipedia" });
+    // 1回だけ再試行する
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,254 @@
+import { fetchUpstreamJson } from "@/lib/httpClient";
+import { fetchStationById } from "@/lib/odpt";
+import { createCacheStore } from "@/lib/predictionCache";
+import { locateStation } from "@/lib/venueSearch";
+
+// 駅の Wikipedia 記事を探し、記事の代表画像とそのクレジットを返す
+
+const WIKIPEDIA_API_URL = "https://ja.wikipedia.org/w/api.php";
+const USER_AGENT = "ImaAiteruKun-App/1.0";
+const GEOSEARCH_RADIUS_METERS = 1000;
+const THUMBNAIL_WIDTH = 500;
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_CACHE_DIR = ".cache/station-images";
+
+export type StationImageQuery = {
+  stationId: string;
+  stationName: string;
+  // 座標が分からない駅は null。周辺の記事を探さずに「<駅名>駅」の記事を使う
+  lat: number | null;
+  lon: number | null;
+};
+
+export type StationImage = {
+  // 画像を取得した Wikipedia 記事
+  article_title: string;
+  article_url: string;
+  thumbnail_url: string;
+  width: number | null;
+  height: number | null;
+  // Wikimedia Commons などのファイルページ。クレジットのリンク先に使う
+  file_page_url: string | null;
+  artist: string | null;
+  license: string | null;
+  license_url: string | null;
+};
+
+type WikipediaFetch = (params: Record<string, string>) => Promise<unknown>;
+
+type GeoSearchResponse = {
+  query?: { geosearch?: { title: string }[] };
+};
+
+type PageImagesResponse = {
+  query?: {
+    pages?: Record<
+      string,
+      {
+        title: string;
+        pageimage?: string;
+        thumbnail?: { source: string; width?: number; height?: number };
+      }
+    >;
+  };
+};
+
+type ImageInfoResponse = {
+  query?: {
+    pages?: Record<
+      string,
+      {
+        imageinfo?: {
+          descriptionurl?: string;
+          extmetadata?: Record<string, { value?: string } | undefined>;
+        }[];
+      }
+    >;
+  };
+};
+
+// タイムアウト・再試行は上流 wikipedia の方針 (WIKIPEDIA_TIMEOUT_MS) に従う
+function fetchWikipedia(params: Record<string, string>) {
+  const search = new URLSearchParams({ ...params, format: "json" });
+  return fetchUpstreamJson<unknown>(
+    "wikipedia",
+    `wikipedia ${params.list ?? params.prop ?? params.action}`,
+    `${WIKIPEDIA_API_URL}?${search.toString()}`,
+    { headers: { "User-Agent": USER_AGENT } },
+  );
+}
+
+/** extmetadata の値は HTML を含むので、タグを除いたテキストにする */
+function stripHtml(value: string | undefined): string | null {
+  if (!value) return null;
+  const text = value
+    .replace(/<[^>]*>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#039;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text || null;
+}
+
+/**
+ * 駅の記事タイトルを決める。座標の周辺にある記事から
+ * 「<駅名>駅」との完全一致、駅名を含む駅の記事、任意の駅の記事の順に選ぶ。
+ * 周辺に見つからなければ「<駅名>駅」をそのまま使う。
+ */
+export function pickStationArticle(
+  stationName: string,
+  nearbyTitles: string[],
+): string {
+  const exactTitle = stationName.endsWith("駅")
+    ? stationName
+    : `${stationName}駅`;
+  return (
+    nearbyTitles.find((title) => title === exactTitle) ??
+    nearbyTitles.find(
+      (title) => title.includes(stationName) && title.includes("駅"),
+    ) ??
+    nearbyTitles.find((title) => title.includes("駅")) ??
+    exactTitle
+  );
+}
+
+/**
+ * Wikipedia から駅の記事の代表画像を探す。画像がなければ null を返す。
+ * fetcher を差し替えると Wikipedia に接続せずに動作を確かめられる。
+ */
+export async function lookupStationImage(
+  query: StationImageQuery,
+  fetcher: WikipediaFetch = fetchWikipedia,
+): Promise<StationImage | null> {
+  let nearbyTitles: string[] = [];
+  if (query.lat !== null && query.lon !== null) {
+    const geo = (await fetcher({
+      action: "query",
+      list: "geosearch",
+      gscoord: `${query.lat}|${query.lon}`,
+      gsradius: String(GEOSEARCH_RADIUS_METERS),
+      gslimit: "30",
+    })) as GeoSearchResponse;
+    nearbyTitles = (geo.query?.geosearch ?? []).map((page) => page.title);
+  }
+  const title = pickStationArticle(query.stationName, nearbyTitles);
+
+  const images = (await fetcher({
+    action: "query",
+    prop: "pageimages",
+    piprop: "thumbnail|name",
+    pithumbsize: String(THUMBNAIL_WIDTH),
+    titles: title,
+    redirects: "1",
+  })) as PageImagesResponse;
+  const page = Object.values(images.query?.pages ?? {})[0];
+  if (!page?.thumbnail) {
+    return null;
+  }
+
+  const image: StationImage = {
+    article_title: page.title,
+    article_url: `https://ja.wikipedia.org/wiki/${encodeURIComponent(page.title)}`,
+    thumbnail_url: page.thumbnail.source,
+    width: page.thumbnail.width ?? null,
+    height: page.thumbnail.height ?? null,
+    file_page_url: null,
+    artist: null,
+    license: null,
+    license_url: null,
+  };
+  if (!page.pageimage) {
+    return image;
+  }
+
+  // 画像ファイルの作者とライセンスを引く。取れなくても画像自体は返す
+  try {
+    const info = (await fetcher({
+      action: "query",
+      prop: "imageinfo",
+      iiprop: "url|extmetadata",
+      titles: `File:${page.pageimage}`,
+    })) as ImageInfoResponse;
+    const imageInfo = Object.values(info.query?.pages ?? {})[0]?.imageinfo?.[0];
+    const metadata = imageInfo?.extmetadata ?? {};
+    return {
+      ...image,
+      file_page_url: imageInfo?.descriptionurl ?? null,
+      artist: stripHtml(metadata.Artist?.value),
+      license: stripHtml(metadata.LicenseShortName?.value),
+      license_url: metadata.LicenseUrl?.value ?? null,
+    };
+  } catch (error) {
+    console.error(`Failed to fetch image info for ${page.pageimage}:`, error);
+    return image;
+  }
+}
+
+// 画像が見つからなかったことも覚えておけるよう、結果を包んで保存する
+export type StationImageResult = { image: StationImage | null };
+
+// 環境変数 STATION_IMAGE_CACHE_STORE (デフォルト memory) と STATION_IMAGE_CACHE_DIR で保存先を選ぶ
+const stationImageCacheStore = createCacheStore<StationImageResult>(
+  process.env.STATION_IMAGE_CACHE_STORE ?? "memory",
+  process.env.STATION_IMAGE_CACHE_DIR ?? DEFAULT_CACHE_DIR,
+);
+
+/**
+ * 駅名と座標を ODPT から引く。ODPT に座標がない駅は駅名でジオコーディングする。
+ * 駅がなければ null。
+ */
+async function resolveStationImageQuery(
+  stationId: string,
+): Promise<StationImageQuery | null> {
+  const station = await fetchStationById(stationId);
+  if (!station) {
+    return null;
+  }
+  if (station.lat !== undefined && station.lon !== undefined) {
+    return {
+      stationId,
+      stationName: station.label,
+      lat: station.lat,
+      lon: station.lon,
+    };
+  }
+  const location = await locateStation({ stationName: station.label });
+  return {
+    stationId,
+    stationName: station.label,
+    lat: location ? Number(location.lat) : null,
+    lon: location ? Number(location.lon) : null,
+  };
+}
+
+/**
+ * 駅ごとにキャッシュしつつ駅の画像を返す。駅が存在しなければ null。
+ * キャッシュは駅 ID ごとなので、駅名や座標はリクエストから受け取らず
+ * サーバー側で ODPT から引く。
+ * 駅の記事や画像はめったに変わらないので、予測より長く保持する。
+ */
+export async function getStationImage(
+  stationId: string,
+): Promise<StationImageResult | null> {
+  const key = `station-image:${stationId}`;
+  const cached = await stationImageCacheStore?.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const query = await resolveStationImageQuery(stationId);
+  if (!query) {
+    return null;
+  }
+  const result = { image: await lookupStationImage(query) };
+  try {
+    await stationImageCacheStore?.set(key, result, DEFAULT_TTL_SECONDS);
+  } catch (error) {
+    console.error(`Failed to store station image cache ${key}:`, error);
+  }
+  return result;
+}
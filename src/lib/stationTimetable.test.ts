@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import type { TimeZone } from "@/lib/congestionScore";
+import {
+  countDeparturesByHour,
+  profileBaseline,
+  timetableBaseline,
+} from "@/lib/stationTimetable";
+
+const WEEKDAY = "2026-11-02";
+const SATURDAY = "2026-11-07";
+// 文化の日 (火曜)
+const HOLIDAY = "2026-11-03";
+
+const timetable = (calendar: string, times: string[]) => ({
+  "odpt:calendar": `odpt.Calendar:${calendar}`,
+  "odpt:stationTimetableObject": times.map((time) => ({
+    "odpt:departureTime": time,
+  })),
+});
+
+// 指定した時間の本数だけを持つ、0〜23時の本数
+function counts(byHour: Record<number, number>): number[] {
+  return Array.from({ length: 24 }, (_, hour) => byHour[hour] ?? 0);
+}
+
+const sumRatio = (zones: TimeZone[]) => zones.reduce((a, z) => a + z.ratio, 0);
+
+describe("countDeparturesByHour", () => {
+  it("adds up the departures of every direction by hour", () => {
+    const frequency = countDeparturesByHour([
+      timetable("Weekday", ["07:05", "07:40", "08:10"]),
+      timetable("Weekday", ["07:20"]),
+    ]);
+
+    expect(frequency.weekday).toEqual(counts({ 7: 3, 8: 1 }));
+  });
+
+  it("counts departures after midnight as the 0 o'clock hour", () => {
+    const frequency = countDeparturesByHour([
+      timetable("Weekday", ["23:50", "24:10", "24:35"]),
+    ]);
+
+    expect(frequency.weekday).toEqual(counts({ 23: 1, 0: 2 }));
+  });
+
+  it("counts arrivals at a terminal station", () => {
+    const frequency = countDeparturesByHour([
+      {
+        "odpt:calendar": "odpt.Calendar:Weekday",
+        "odpt:stationTimetableObject": [
+          { "odpt:arrivalTime": "09:15" },
+          { "odpt:departureTime": "09:30", "odpt:arrivalTime": "09:28" },
+          {},
+        ],
+      },
+    ]);
+
+    expect(frequency.weekday).toEqual(counts({ 9: 2 }));
+  });
+
+  it("uses SaturdayHoliday for both Saturdays and holidays", () => {
+    const frequency = countDeparturesByHour([
+      timetable("Weekday", ["08:00"]),
+      timetable("SaturdayHoliday", ["10:00"]),
+    ]);
+
+    expect(frequency.saturday).toEqual(counts({ 10: 1 }));
+    expect(frequency.holiday).toEqual(counts({ 10: 1 }));
+  });
+
+  it("prefers the more specific calendar", () => {
+    const frequency = countDeparturesByHour([
+      timetable("SaturdayHoliday", ["10:00"]),
+      timetable("Saturday", ["11:00"]),
+      timetable("SundayHoliday", ["12:00"]),
+    ]);
+
+    expect(frequency.saturday).toEqual(counts({ 11: 1 }));
+    // SundayHoliday は SaturdayHoliday より先に使う
+    expect(frequency.holiday).toEqual(counts({ 12: 1 }));
+    expect(frequency.weekday).toBeUndefined();
+  });
+});
+
+describe("timetableBaseline", () => {
+  const profile: TimeZone[] = [
+    { start: 0, end: 7, ratio: 0.05 },
+    { start: 7, end: 10, ratio: 0.3 },
+    { start: 10, end: 24, ratio: 0.25 },
+  ];
+
+  it("spreads the profile's ratio sum over the hours by departures", () => {
+    const baseline = timetableBaseline(
+      { weekday: counts({ 7: 6, 8: 3, 18: 3 }) },
+      WEEKDAY,
+      120_000,
+      profile,
+    );
+
+    expect(baseline?.source).toBe("timetable");
+    expect(baseline?.passengers).toBe(120_000);
+    expect(baseline?.timeZones).toHaveLength(24);
+    expect(baseline?.timeZones[7]).toEqual({ start: 7, end: 8, ratio: 0.3 });
+    expect(baseline?.timeZones[8].ratio).toBeCloseTo(0.15);
+    expect(baseline?.timeZones[12].ratio).toBe(0);
+    expect(sumRatio(baseline?.timeZones ?? [])).toBeCloseTo(0.6);
+  });
+
+  it("scales the passengers by the departures compared to weekdays", () => {
+    const baseline = timetableBaseline(
+      { weekday: counts({ 8: 10 }), saturday: counts({ 10: 6 }) },
+      SATURDAY,
+      100_000,
+      profile,
+    );
+
+    expect(baseline?.dayType).toBe("saturday");
+    expect(baseline?.passengers).toBe(60_000);
+  });
+
+  it("falls back between Saturday and holiday timetables", () => {
+    const saturdayOnly = {
+      weekday: counts({ 8: 10 }),
+      saturday: counts({ 10: 5 }),
+    };
+    const holidayOnly = {
+      weekday: counts({ 8: 10 }),
+      holiday: counts({ 10: 4 }),
+    };
+
+    expect(
+      timetableBaseline(saturdayOnly, HOLIDAY, 100_000, profile)?.passengers,
+    ).toBe(50_000);
+    expect(
+      timetableBaseline(holidayOnly, SATURDAY, 100_000, profile)?.passengers,
+    ).toBe(40_000);
+  });
+
+  it("returns null without a weekday timetable or any departures", () => {
+    expect(
+      timetableBaseline({ holiday: counts({ 10: 4 }) }, HOLIDAY, 1, profile),
+    ).toBeNull();
+    expect(
+      timetableBaseline({ weekday: counts({}) }, WEEKDAY, 1, profile),
+    ).toBeNull();
+  });
+});
+
+describe("profileBaseline", () => {
+  const profile: TimeZone[] = [
+    { start: 0, end: 5, ratio: 0.02 },
+    { start: 5, end: 7, ratio: 0.05 },
+    { start: 7, end: 9, ratio: 0.25 },
+    { start: 9, end: 17, ratio: 0.2 },
+    { start: 17, end: 24, ratio: 0.28 },
+  ];
+
+  it("keeps the weekday profile as it is", () => {
+    expect(profileBaseline(WEEKDAY, 50_000, profile)).toEqual({
+      dayType: "weekday",
+      passengers: 50_000,
+      timeZones: profile,
+      source: "profile",
+    });
+  });
+
+  it("reduces holiday passengers and evens out the daytime", () => {
+    const baseline = profileBaseline(HOLIDAY, 50_000, profile);
+
+    expect(baseline.dayType).toBe("holiday");
+    expect(baseline.passengers).toBeCloseTo(35_000);
+    // 深夜帯はそのまま、5〜24時の 0.78 を19時間に均等に割り振る
+    expect(baseline.timeZones[0]).toEqual(profile[0]);
+    expect(baseline.timeZones[2].ratio).toBeCloseTo((0.78 * 2) / 19);
+    expect(baseline.timeZones[3].ratio).toBeCloseTo((0.78 * 8) / 19);
+    expect(sumRatio(baseline.timeZones)).toBeCloseTo(sumRatio(profile));
+  });
+
+  it("reduces Saturday passengers less than holidays", () => {
+    expect(profileBaseline(SATURDAY, 50_000, profile).passengers).toBeCloseTo(
+      40_000,
+    );
+  });
+});
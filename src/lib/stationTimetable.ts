@@ -0,0 +1,218 @@
+import { type DayType, dayTypeOf } from "@/lib/calendar";
+import { HOURS_PER_DAY } from "@/lib/congestionCurve";
+import type { TimeZone } from "@/lib/congestionScore";
+import { fetchUpstreamJson } from "@/lib/httpClient";
+import { odptApiBaseUrl } from "@/lib/odpt";
+import { type DegradedInput, UpstreamError } from "@/lib/upstream";
+
+// ODPT の駅時刻表 (odpt:StationTimetable) から、1時間ごとの発車本数を求める。
+// 本数は利用者の多い時間帯ほど多いので、平常時の時間帯別の利用割合の目安にする。
+
+interface OdptStationTimetable {
+  "odpt:calendar"?: string;
+  "odpt:stationTimetableObject"?: {
+    "odpt:departureTime"?: string;
+    "odpt:arrivalTime"?: string;
+  }[];
+}
+
+// 曜日の種別ごとの、0〜23時の1時間ごとの発車本数 (全方面の合計)
+export type TimetableFrequency = Partial<Record<DayType, number[]>>;
+
+// ODPT のカレンダーと曜日の種別の対応。先にあるものを優先する
+const CALENDARS_BY_DAY_TYPE: Record<DayType, string[]> = {
+  weekday: ["odpt.Calendar:Weekday"],
+  saturday: ["odpt.Calendar:Saturday", "odpt.Calendar:SaturdayHoliday"],
+  holiday: [
+    "odpt.Calendar:Holiday",
+    "odpt.Calendar:SundayHoliday",
+    "odpt.Calendar:SaturdayHoliday",
+    "odpt.Calendar:Sunday",
+  ],
+};
+
+/** "HH:MM" から時を取り出す。深夜の "24:10" などは0時台として扱う */
+function hourOf(time: string | undefined): number | null {
+  const hour = Number(time?.split(":")[0]);
+  return Number.isInteger(hour) ? hour % HOURS_PER_DAY : null;
+}
+
+/** 時刻表をカレンダーごとに、時間帯別の発車本数に集計する */
+export function countDeparturesByHour(
+  timetables: OdptStationTimetable[],
+): TimetableFrequency {
+  const byCalendar = new Map<string, number[]>();
+  for (const timetable of timetables) {
+    const calendar = timetable["odpt:calendar"];
+    if (!calendar) continue;
+    const counts =
+      byCalendar.get(calendar) ?? new Array<number>(HOURS_PER_DAY).fill(0);
+    for (const train of timetable["odpt:stationTimetableObject"] ?? []) {
+      // 終着駅では到着時刻しか載っていない
+      const hour = hourOf(
+        train["odpt:departureTime"] ?? train["odpt:arrivalTime"],
+      );
+      if (hour !== null) counts[hour] += 1;
+    }
+    byCalendar.set(calendar, counts);
+  }
+
+  const frequency: TimetableFrequency = {};
+  for (const [dayType, calendars] of Object.entries(CALENDARS_BY_DAY_TYPE)) {
+    const calendar = calendars.find((c) => byCalendar.has(c));
+    if (calendar) {
+      frequency[dayType as DayType] = byCalendar.get(calendar);
+    }
+  }
+  return frequency;
+}
+
+export async function fetchStationTimetableFrequency(
+  stationId: string,
+): Promise<TimetableFrequency> {
+  const key = process.env.ODPT_CONSUMER_KEY;
+  if (!key) {
+    throw new Error("ODPT_CONSUMER_KEY is not set");
+  }
+
+  const url = `${odptApiBaseUrl()}/odpt:StationTimetable?odpt:station=${stationId}&acl:consumerKey=${key}`;
+  // ダイヤ改正は年に数回なので1日キャッシュする
+  const timetables = await fetchUpstreamJson<OdptStationTimetable[]>(
+    "odpt",
+    "station timetables",
+    url,
+    { next: { revalidate: 86400 } },
+  );
+  return countDeparturesByHour(timetables);
+}
+
+/**
+ * 駅の時刻表を取得する。時刻表がない駅や ODPT の障害時は null を返し、
+ * 駅種別の既定の割合で代用することを degraded に記録する。
+ */
+export async function resolveTimetableFrequency(stationId: string): Promise<{
+  frequency: TimetableFrequency | null;
+  degraded: DegradedInput[];
+}> {
+  const fallback = "駅の規模ごとの既定の時間帯別割合";
+  try {
+    const frequency = await fetchStationTimetableFrequency(stationId);
+    if (frequency.weekday) {
+      return { frequency, degraded: [] };
+    }
+    return {
+      frequency: null,
+      degraded: [{ input: "hourly_baseline", fallback, upstream: null }],
+    };
+  } catch (error) {
+    if (!(error instanceof UpstreamError)) throw error;
+    console.error(
+      `Failed to fetch station timetables for ${stationId}:`,
+      error,
+    );
+    return {
+      frequency: null,
+      degraded: [
+        { input: "hourly_baseline", fallback, upstream: error.toJSON() },
+      ],
+    };
+  }
+}
+
+// その日の平常時の利用状況
+export type DayBaseline = {
+  dayType: DayType;
+  // その日の総乗降客数
+  passengers: number;
+  // 1時間ごとの利用割合 (時刻表がなければ駅種別の既定の時間帯)
+  timeZones: TimeZone[];
+  source: "timetable" | "profile";
+};
+
+/**
+ * 時刻表の本数から、その日の総乗降客数と1時間ごとの利用割合を求める。
+ * - 総乗降客数: 乗降者数調査の値 (平日相当) を、平日に対する本数の比で増減させる
+ * - 割合: 本数に比例させ、合計は駅種別の既定の割合の合計にそろえる
+ *   (混雑度の基準 scaleLevels は既定の割合で調整してあるため)
+ * その曜日の時刻表がなければ null を返す。
+ */
+export function timetableBaseline(
+  frequency: TimetableFrequency,
+  date: string,
+  weekdayPassengers: number,
+  profileTimeZones: TimeZone[],
+): DayBaseline | null {
+  const dayType = dayTypeOf(date);
+  // 土曜ダイヤのない路線は休日ダイヤ、休日ダイヤのない路線は土曜ダイヤで代用する
+  const departures =
+    frequency[dayType] ??
+    (dayType === "saturday" ? frequency.holiday : undefined) ??
+    (dayType === "holiday" ? frequency.saturday : undefined);
+  const weekdayDepartures = frequency.weekday;
+  if (!departures || !weekdayDepartures) {
+    return null;
+  }
+  const sum = (counts: number[]) => counts.reduce((a, b) => a + b, 0);
+  const total = sum(departures);
+  const weekdayTotal = sum(weekdayDepartures);
+  if (total === 0 || weekdayTotal === 0) {
+    return null;
+  }
+
+  const profileRatio = profileTimeZones.reduce((a, z) => a + z.ratio, 0);
+  return {
+    dayType,
+    passengers: weekdayPassengers * (total / weekdayTotal),
+    timeZones: departures.map((count, hour) => ({
+      start: hour,
+      end: hour + 1,
+      ratio: (profileRatio * count) / total,
+    })),
+    source: "timetable",
+  };
+}
+
+// 時刻表がない駅での、平日に対する土休日の利用者数の目安
+const PROFILE_DAY_TYPE_FACTORS: Record<DayType, number> = {
+  weekday: 1,
+  saturday: 0.8,
+  holiday: 0.7,
+};
+
+/**
+ * 時刻表がない駅の平常時の利用状況を、駅種別の既定の割合 (平日向け) から求める。
+ * 土休日は利用者数を減らし、通勤ラッシュがない分を0時始まりの深夜帯以外に均等にならす。
+ * 割合の合計は既定の割合の合計のまま変えない。
+ */
+export function profileBaseline(
+  date: string,
+  weekdayPassengers: number,
+  profileTimeZones: TimeZone[],
+): DayBaseline {
+  const dayType = dayTypeOf(date);
+  if (dayType === "weekday") {
+    return {
+      dayType,
+      passengers: weekdayPassengers,
+      timeZones: profileTimeZones,
+      source: "profile",
+    };
+  }
+  const isNight = (zone: TimeZone) => zone.start === 0;
+  const daytime = profileTimeZones.filter((zone) => !isNight(zone));
+  const daytimeRatio = daytime.reduce((a, z) => a + z.ratio, 0);
+  const daytimeHours = daytime.reduce((a, z) => a + (z.end - z.start), 0);
+  return {
+    dayType,
+    passengers: weekdayPassengers * PROFILE_DAY_TYPE_FACTORS[dayType],
+    timeZones: profileTimeZones.map((zone) =>
+      isNight(zone) || daytimeHours === 0
+        ? zone
+        : {
+            ...zone,
+            ratio: (daytimeRatio * (zone.end - zone.start)) / daytimeHours,
+          },
+    ),
+    source: "profile",
+  };
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+
+// 外部API (上流) の失敗を表すエラーと、既定値で代用した入力の記録。
+// ルートは UpstreamError を 502 にし、代用した入力はレスポンスの degraded で返す。
+
+export type UpstreamSource =
+  | "odpt"
+  | "yahoo"
+  | "nominatim"
+  | "gemini"
+  | "wikipedia";
+
+export type UpstreamErrorInfo = {
+  source: UpstreamSource;
+  // HTTP ステータス。通信自体に失敗した場合は null
+  status: number | null;
+  // 時間をおいて再試行すれば成功する見込みがあるか
+  retryable: boolean;
+  message: string;
+};
+
+export class UpstreamError extends Error {
+  readonly source: UpstreamSource;
+  readonly status: number | null;
+  readonly retryable: boolean;
+  // Retry-After で指定された、再試行までの待ち時間
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    source: UpstreamSource,
+    message: string,
+    {
+      status = null,
+      retryable,
+      retryAfterMs = null,
+      cause,
+    }: {
+      status?: number | null;
+      retryable?: boolean;
+      retryAfterMs?: number | null;
+      cause?: unknown;
+    } = {},
+  ) {
+    super(message, { cause });
+    this.name = "UpstreamError";
+    this.source = source;
+    this.status = status;
+    // レート制限とサーバー側のエラー、通信の失敗は再試行できるとみなす
+    this.retryable =
+      retryable ?? (status === null || status === 429 || status >= 500);
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  toJSON(): UpstreamErrorInfo {
+    return {
+      source: this.source,
+      status: this.status,
+      retryable: this.retryable,
+      message: this.message,
+    };
+  }
+}
+
+/** 成功しなかったレスポンスを UpstreamError にする。Retry-After (秒) も読み取る */
+export function upstreamErrorFromResponse(
+  source: UpstreamSource,
+  response: Response,
+  what: string,
+): UpstreamError {
+  const retryAfterSeconds = Number(response.headers.get("retry-after"));
+  return new UpstreamError(
+    source,
+    `Failed to fetch ${what}: ${response.status} ${response.statusText}`.trim(),
+    {
+      status: response.status,
+      retryAfterMs: retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : null,
+    },
+  );
+}
+
+/** UpstreamError 以外のエラーも、発生元を付けて UpstreamError にそろえる */
+export function toUpstreamError(
+  source: UpstreamSource,
+  error: unknown,
+): UpstreamError {
+  if (error instanceof UpstreamError) {
+    return error;
+  }
+  return new UpstreamError(
+    source,
+    error instanceof Error ? error.message : String(error),
+    { cause: error },
+  );
+}
+
+// 既定値や代替手段で代用した入力
+export type DegradedInput = {
+  input: "passengers" | "station_identity" | "coordinates" | "hourly_baseline";
+  // 代わりに使った値・手段
+  fallback: string;
+  // 上流の障害が原因ならその内容。データがなかっただけなら null
+  upstream: UpstreamErrorInfo | null;
+};
+
+/** 上流の障害を 502 のエラーレスポンスにする。detail に加えて発生元を返す */
+export function upstreamErrorResponse(error: UpstreamError): NextResponse {
+  return NextResponse.json(
+    { detail: error.message, upstream: error.toJSON() },
+    { status: 502 },
+  );
+}
@@ -0,0 +1,178 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { UpstreamError, type UpstreamSource } from "@/lib/upstream";
+
+// 外部APIの応答を記録・再生する仕組み。環境変数 UPSTREAM_FIXTURE_MODE で切り替える。
+// - record: 実際のAPIを呼び、応答を UPSTREAM_FIXTURE_DIR (デフォルト fixtures/upstream) に保存する
+// - replay: APIを呼ばず、保存した応答を返す。記録のないリクエストは失敗させる
+// - 未設定: 通常どおりAPIを呼ぶ
+//
+// フィクスチャのキーからは ODPT の acl:consumerKey や Yahoo! の appid を取り除くので、
+// replay ではキーの値は何でもよい (未設定だとルート側で設定エラーになるため、ダミーを入れる)。
+// 保存したJSONの status や body を書き換えれば、429 や壊れた応答のようなエラーも再現できる。
+
+const DEFAULT_FIXTURE_DIR = "fixtures/upstream";
+
+// URL から取り除く、APIキーなどのクエリパラメータ
+const SECRET_PARAMS = ["acl:consumerKey", "appid", "key"];
+
+// 保存する応答ヘッダー
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+
+export type UpstreamFixtureMode = "record" | "replay" | "live";
+
+export type UpstreamFixture = {
+  request: {
+    source: UpstreamSource;
+    method: string;
+    // APIキーを取り除いたURL。Gemini のようにURLで区別できないものはモデル名とプロンプト
+    url: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    // JSON でない応答も再現できるよう文字列で持つ
+    body: string;
+  };
+};
+
+export function upstreamFixtureMode(): UpstreamFixtureMode {
+  const mode = process.env.UPSTREAM_FIXTURE_MODE;
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+/** URL からAPIキーを取り除く */
+export function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const name of SECRET_PARAMS) {
+    parsed.searchParams.delete(name);
+  }
+  return parsed.toString();
+}
+
+function fixturePath(source: UpstreamSource, method: string, key: string) {
+  const hash = createHash("sha256")
+    .update(`${method} ${key}`)
+    .digest("hex")
+    .slice(0, 16);
+  return path.resolve(
+    process.cwd(),
+    process.env.UPSTREAM_FIXTURE_DIR ?? DEFAULT_FIXTURE_DIR,
+    source,
+    `${hash}.json`,
+  );
+}
+
+async function readFixture(
+  source: UpstreamSource,
+  method: string,
+  key: string,
+): Promise<UpstreamFixture> {
+  const filePath = fixturePath(source, method, key);
+  try {
+    return JSON.parse(await readFile(filePath, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    throw new UpstreamError(
+      source,
+      `No recorded fixture for ${method} ${key} (${path.relative(process.cwd(), filePath)})`,
+      { retryable: false },
+    );
+  }
+}
+
+async function writeFixture(fixture: UpstreamFixture): Promise<void> {
+  const { source, method, url } = fixture.request;
+  const filePath = fixturePath(source, method, url);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+function toResponse(fixture: UpstreamFixture): Response {
+  const { status, statusText, headers, body } = fixture.response;
+  return new Response(body, { status, statusText, headers });
+}
+
+/**
+ * モードに応じて、fetch の代わりに記録・再生する。
+ * 共通の HTTP クライアントから呼ぶので、再生した 429 なども通常どおり再試行される。
+ */
+export async function fetchWithFixtures(
+  source: UpstreamSource,
+  url: string,
+  init?: RequestInit,
+): Promise<Response> {
+  const mode = upstreamFixtureMode();
+  const method = init?.method ?? "GET";
+  if (mode === "live") {
+    return fetch(url, init);
+  }
+  const key = redactUrl(url);
+  if (mode === "replay") {
+    return toResponse(await readFixture(source, method, key));
+  }
+
+  const response = await fetch(url, init);
+  const fixture: UpstreamFixture = {
+    request: { source, method, url: key },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(
+        RECORDED_HEADERS.flatMap((name) => {
+          const value = response.headers.get(name);
+          return value === null ? [] : [[name, value]];
+        }),
+      ),
+      body: await response.text(),
+    },
+  };
+  await writeFixture(fixture);
+  return toResponse(fixture);
+}
+
+/**
+ * SDK 経由で呼ぶAPI (Gemini) の応答テキストを記録・再生する。
+ * key にはリクエストを区別できる入力 (モデル名とプロンプトなど) を渡す。
+ * 記録した status が 2xx 以外なら、その status の UpstreamError を投げる。
+ */
+export async function callWithTextFixture(
+  source: UpstreamSource,
+  key: string,
+  live: () => Promise<string>,
+): Promise<string> {
+  const mode = upstreamFixtureMode();
+  if (mode === "live") {
+    return live();
+  }
+  if (mode === "replay") {
+    const { response } = await readFixture(source, "POST", key);
+    if (response.status >= 400) {
+      throw new UpstreamError(source, response.body, {
+        status: response.status,
+      });
+    }
+    return response.body;
+  }
+
+  const record = (status: number, body: string) =>
+    writeFixture({
+      request: { source, method: "POST", url: key },
+      response: { status, statusText: "", headers: {}, body },
+    });
+  try {
+    const text = await live();
+    await record(200, text);
+    return text;
+  } catch (error) {
+    // ステータスの分かる失敗だけ記録する。通信の失敗は再現できないので記録しない
+    if (error instanceof UpstreamError && error.status !== null) {
+      await record(error.status, error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  canonicalVenueName,
+  deleteVenue,
+  type EditedVenueCatalogEntry,
+  findVenue,
+  listVenues,
+  upsertVenue,
+  type VenueCatalogEntry,
+} from "@/lib/venueCatalog";
+
+const entry = (
+  id: string | null,
+  name: string,
+  capacity: number,
+): VenueCatalogEntry => ({
+  id,
+  name,
+  capacity,
+  venue_type: "hall",
+  opening_lead_minutes: 60,
+});
+
+const edit = (
+  id: string,
+  name: string,
+  capacity: number,
+): EditedVenueCatalogEntry => ({ ...entry(id, name, capacity), id });
+
+describe("findVenue", () => {
+  const catalog = [
+    entry(null, "東京ドーム", 43500),
+    entry("1234", "後楽園ホール", 2005),
+    entry(null, "ＮＨＫホール", 3601),
+  ];
+
+  it("matches by Yahoo! Id first", () => {
+    expect(findVenue(catalog, { id: "1234", name: "別名" })?.capacity).toBe(
+      2005,
+    );
+  });
+
+  it("matches the exact name after normalizing width, case and spaces", () => {
+    expect(findVenue(catalog, { name: "東京ドーム" })?.capacity).toBe(43500);
+    expect(findVenue(catalog, { name: "nhk ホール" })?.capacity).toBe(3601);
+    expect(findVenue(catalog, { name: "東京ドーム(野球場)" })?.capacity).toBe(
+      43500,
+    );
+  });
+
+  it("does not match a different venue whose name starts with a catalog name", () => {
+    expect(findVenue(catalog, { name: "東京ドームホテル" })).toBeUndefined();
+    expect(
+      findVenue(catalog, { name: "東京ドームシティホール" }),
+    ).toBeUndefined();
+  });
+
+  it("normalizes names for comparison", () => {
+    expect(canonicalVenueName("ＮＨＫ　ホール (渋谷)")).toBe("nhkホール");
+  });
+});
+
+describe("listVenues", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "venue-catalog-"));
+    vi.stubEnv("VENUE_CATALOG_PATH", path.join(dir, "venues.json"));
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("lays admin edits over the seed instead of copying it", async () => {
+    const seed = await listVenues();
+    expect(seed.find((v) => v.name === "東京ドーム")?.id).toBeNull();
+
+    // Id を付けて同名の施設を登録すると、初期データの項目を置き換える
+    await upsertVenue({
+      ...edit("1234", "東京ドーム", 42000),
+      venue_type: "stadium",
+    });
+    await upsertVenue(edit("5678", "後楽園ホール", 2005));
+
+    const edited = await listVenues();
+    expect(edited.filter((v) => v.name === "東京ドーム")).toEqual([
+      { ...entry("1234", "東京ドーム", 42000), venue_type: "stadium" },
+    ]);
+    expect(edited).toHaveLength(seed.length + 1);
+    // 保存するのは差分だけ
+    const saved = JSON.parse(
+      await readFile(path.join(dir, "venues.json"), "utf-8"),
+    );
+    expect(saved.map((v: VenueCatalogEntry) => v.id)).toEqual(["1234", "5678"]);
+  });
+
+  it("reverts to the seed when an edit is deleted", async () => {
+    await upsertVenue(edit("1234", "東京ドーム", 42000));
+
+    expect(await deleteVenue("1234")).toBe(true);
+    expect(await deleteVenue("1234")).toBe(false);
+    expect(
+      (await listVenues()).find((v) => v.name === "東京ドーム")?.capacity,
+    ).toBe(43500);
+  });
+});
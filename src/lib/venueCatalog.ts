@@ -0,0 +1,161 @@
+import { createJsonListStore } from "@/lib/jsonStore";
+
+// 施設の収容人数などをローカルに持つカタログ。
+// Yahoo!ローカルサーチの Id をキーにし、初期データは data/venues.json から読み込む。
+// 初期データのうち Yahoo! の Id を確かめていない施設は id を null にし、名称で照合する。
+// 管理APIでの登録・変更は VENUE_CATALOG_PATH (デフォルト .data/venues.json) に差分として保存し、
+// 読み込むたびに初期データに重ねる。初期データ自体を消すときは data/venues.json を編集する。
+
+const SEED_PATH = "data/venues.json";
+const DEFAULT_CATALOG_PATH = ".data/venues.json";
+
+export const VENUE_TYPES = [
+  "stadium",
+  "arena",
+  "hall",
+  "theater",
+  "exhibition",
+  "other",
+] as const;
+
+export type VenueType = (typeof VENUE_TYPES)[number];
+
+export type VenueCatalogEntry = {
+  // Yahoo!ローカルサーチの Id。初期データで未確認なら null
+  id: string | null;
+  name: string;
+  capacity: number;
+  venue_type: VenueType;
+  // 開演の何分前から来場者が集まり始めるかの目安
+  opening_lead_minutes: number;
+};
+
+// 管理APIで登録した施設。Id は必須
+export type EditedVenueCatalogEntry = VenueCatalogEntry & { id: string };
+
+/** id 以外の項目を検証する。不正な場合はエラーメッセージを返す */
+function parseVenueFields(
+  record: Record<string, unknown>,
+): Omit<VenueCatalogEntry, "id"> | string {
+  const { name, capacity, venue_type, opening_lead_minutes } = record;
+  if (typeof name !== "string" || !name) {
+    return "name is required.";
+  }
+  if (typeof capacity !== "number" || !(capacity > 0)) {
+    return "capacity must be a positive number.";
+  }
+  const venueType = venue_type ?? "other";
+  if (!VENUE_TYPES.includes(venueType as VenueType)) {
+    return `venue_type must be one of ${VENUE_TYPES.join(", ")}.`;
+  }
+  const leadMinutes = opening_lead_minutes ?? 60;
+  if (typeof leadMinutes !== "number" || leadMinutes < 0) {
+    return "opening_lead_minutes must be a non-negative number.";
+  }
+  return {
+    name,
+    capacity: Math.round(capacity),
+    venue_type: venueType as VenueType,
+    opening_lead_minutes: leadMinutes,
+  };
+}
+
+/**
+ * 管理APIの入力を検証してカタログの項目に変換する。不正な場合はエラーメッセージを返す。
+ */
+export function parseVenueCatalogEntry(
+  raw: unknown,
+): EditedVenueCatalogEntry | string {
+  if (typeof raw !== "object" || raw === null) {
+    return "venue must be an object.";
+  }
+  const record = raw as Record<string, unknown>;
+  if (typeof record.id !== "string" || !record.id) {
+    return "id is required.";
+  }
+  const fields = parseVenueFields(record);
+  return typeof fields === "string" ? fields : { id: record.id, ...fields };
+}
+
+const seedStore = createJsonListStore<VenueCatalogEntry>(
+  () => SEED_PATH,
+  (raw) => {
+    if (typeof raw !== "object" || raw === null) return null;
+    const record = raw as Record<string, unknown>;
+    const fields = parseVenueFields(record);
+    if (typeof fields === "string") return null;
+    return { id: typeof record.id === "string" ? record.id : null, ...fields };
+  },
+);
+
+const editStore = createJsonListStore<EditedVenueCatalogEntry>(
+  () => process.env.VENUE_CATALOG_PATH ?? DEFAULT_CATALOG_PATH,
+  (raw) => {
+    const entry = parseVenueCatalogEntry(raw);
+    return typeof entry === "string" ? null : entry;
+  },
+);
+
+/**
+ * 施設名の照合に使う表記。全角・半角、大文字・小文字、空白、括弧書きの違いを無視する。
+ * 前方一致はしないので、「東京ドームホテル」は「東京ドーム」と一致しない。
+ */
+export function canonicalVenueName(name: string): string {
+  return name
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, "")
+    .replace(/\s+/g, "");
+}
+
+/** 同じ施設か。Id が分かっていれば Id で、どちらかが未確認なら名称で比べる */
+function isSameVenue(a: VenueCatalogEntry, b: VenueCatalogEntry): boolean {
+  if (a.id !== null && b.id !== null) {
+    return a.id === b.id;
+  }
+  return canonicalVenueName(a.name) === canonicalVenueName(b.name);
+}
+
+/** 初期データに管理APIでの登録・変更を重ねたカタログ */
+export async function listVenues(): Promise<VenueCatalogEntry[]> {
+  const [seed, edits] = await Promise.all([seedStore.list(), editStore.list()]);
+  return [
+    ...seed.filter((entry) => !edits.some((edit) => isSameVenue(edit, entry))),
+    ...edits,
+  ];
+}
+
+/** 同じ Id の登録を上書きする。同名で Id 未確認の初期データは、この登録で置き換わる */
+export async function upsertVenue(
+  entry: EditedVenueCatalogEntry,
+): Promise<void> {
+  await editStore.update((edits) => ({
+    entries: [...edits.filter((e) => e.id !== entry.id), entry],
+    result: undefined,
+  }));
+}
+
+/**
+ * 管理APIで登録・変更した内容を取り消す。初期データに同じ施設があれば、その値に戻る。
+ * 取り消した場合は true、該当する登録がなければ false を返す。
+ */
+export async function deleteVenue(id: string): Promise<boolean> {
+  return editStore.update((edits) => {
+    const entries = edits.filter((e) => e.id !== id);
+    return { entries, result: entries.length !== edits.length };
+  });
+}
+
+/**
+ * 検索結果の施設をカタログから探す。Id で見つからなければ、正規化した名称の完全一致で照合する。
+ */
+export function findVenue(
+  catalog: VenueCatalogEntry[],
+  facility: { id?: string; name: string },
+): VenueCatalogEntry | undefined {
+  const name = canonicalVenueName(facility.name);
+  return (
+    (facility.id ? catalog.find((e) => e.id === facility.id) : undefined) ??
+    catalog.find((e) => canonicalVenueName(e.name) === name)
+  );
+}
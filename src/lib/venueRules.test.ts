@@ -0,0 +1,218 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import type { UpstreamFixture } from "@/lib/upstreamFixtures";
+import type { VenueCatalogEntry } from "@/lib/venueCatalog";
+import {
+  applyVenueRules,
+  DEFAULT_VENUE_RULES,
+  loadVenueRules,
+  normalizeVenueName,
+  parseVenueRules,
+  searchRadiusKm,
+  type YahooVenueFeature,
+} from "@/lib/venueRules";
+
+// 後楽園駅 (東京メトロ丸ノ内線) 周辺の Yahoo!ローカルサーチの応答を模した合成のフィクスチャ
+const KORAKUEN = { lat: 35.707898, lon: 139.751891 };
+const KORAKUEN_FIXTURE = "fixtures/upstream/yahoo/be3e283cdef86dc0.json";
+
+async function syntheticFeatures(): Promise<YahooVenueFeature[]> {
+  const fixture: UpstreamFixture = JSON.parse(
+    await readFile(KORAKUEN_FIXTURE, "utf-8"),
+  );
+  return JSON.parse(fixture.response.body).Feature;
+}
+
+const feature = (
+  name: string,
+  coordinates?: string,
+  genre = "ホール",
+): YahooVenueFeature => ({
+  Id: name,
+  Name: name,
+  Geometry: coordinates ? { Coordinates: coordinates } : undefined,
+  Property: { Genre: [{ Name: genre }] },
+});
+
+describe("normalizeVenueName", () => {
+  it.each([
+    ["東京ドーム 22ゲート", "東京ドーム"],
+    ["東京ドーム　正面入口", "東京ドーム"],
+    ["後楽園ホール 5F", "後楽園ホール"],
+    ["ＮＨＫホール (渋谷)", "nhkホール"],
+    ["東京 国際 フォーラム", "東京国際フォーラム"],
+  ])("reduces %s to %s", (name, normalized) => {
+    expect(normalizeVenueName(name)).toBe(normalized);
+  });
+
+  it("keeps different venues that share a first word apart", () => {
+    expect(normalizeVenueName("東京ドーム")).not.toBe(
+      normalizeVenueName("東京ドーム シティホール"),
+    );
+    expect(normalizeVenueName("東京ドーム")).not.toBe(
+      normalizeVenueName("東京ドームホテル"),
+    );
+  });
+});
+
+describe("applyVenueRules with a synthetic Yahoo! response", () => {
+  it("drops excluded names and genres and merges entrance listings", async () => {
+    const venues = applyVenueRules(
+      await syntheticFeatures(),
+      KORAKUEN,
+      await loadVenueRules("config/venue-rules.json"),
+    );
+
+    expect(venues.map((v) => v.Name)).toEqual([
+      "東京ドーム",
+      "後楽園ホール",
+      "東京ドームシティホール",
+      "東京ドームホテル",
+      "文京シビックホール",
+    ]);
+    expect(venues[0].Category).toBe("スタジアム、競技場");
+  });
+
+  it("drops catalog venues below minCapacity and keeps unknown ones", async () => {
+    const catalog: VenueCatalogEntry[] = [
+      {
+        id: null,
+        name: "後楽園ホール",
+        capacity: 800,
+        venue_type: "hall",
+        opening_lead_minutes: 30,
+      },
+    ];
+    const venues = applyVenueRules(
+      await syntheticFeatures(),
+      KORAKUEN,
+      await loadVenueRules("config/venue-rules.json"),
+      catalog,
+    );
+
+    expect(venues.map((v) => v.Name)).not.toContain("後楽園ホール");
+    expect(venues.map((v) => v.Name)).toContain("東京ドームシティホール");
+  });
+
+  it("keeps everything but exact duplicates under the default rules", async () => {
+    const venues = applyVenueRules(
+      await syntheticFeatures(),
+      KORAKUEN,
+      DEFAULT_VENUE_RULES,
+    );
+
+    expect(venues).toHaveLength(7);
+    expect(venues.map((v) => v.Name)).not.toContain("東京ドーム 22ゲート");
+  });
+});
+
+describe("applyVenueRules dedup", () => {
+  it("keeps same-name venues that are far apart", () => {
+    const venues = applyVenueRules(
+      [
+        feature("市民会館", "139.7519,35.7079"),
+        feature("市民会館", "139.7700,35.7079"),
+      ],
+      KORAKUEN,
+      DEFAULT_VENUE_RULES,
+    );
+    expect(venues).toHaveLength(2);
+  });
+
+  it("does not merge same-name venues when coordinates are missing", () => {
+    const venues = applyVenueRules(
+      [feature("市民会館", "139.7519,35.7079"), feature("市民会館")],
+      KORAKUEN,
+      DEFAULT_VENUE_RULES,
+    );
+    expect(venues).toHaveLength(2);
+  });
+
+  it("applies the radius of the venue's genre", () => {
+    // 約3.3km 離れた施設
+    const far = "139.7519,35.7379";
+    const rules = {
+      ...DEFAULT_VENUE_RULES,
+      radiusKmByGenre: { "スタジアム、競技場": 5 },
+    };
+    const venues = applyVenueRules(
+      [
+        feature("競技場", far, "スタジアム、競技場"),
+        feature("ホール", far, "ホール"),
+      ],
+      KORAKUEN,
+      rules,
+    );
+    expect(venues.map((v) => v.Name)).toEqual(["競技場"]);
+    expect(searchRadiusKm(rules)).toBe(5);
+  });
+});
+
+describe("parseVenueRules", () => {
+  it("fills in omitted fields with the defaults", () => {
+    expect(parseVenueRules({ minCapacity: 500 })).toEqual({
+      ...DEFAULT_VENUE_RULES,
+      minCapacity: 500,
+    });
+  });
+
+  it.each([
+    [[], "venue rules must be an object."],
+    [
+      { excludedGenres: "ホール" },
+      "excludedGenres must be an array of strings.",
+    ],
+    [{ genreCodes: [] }, "genreCodes must not be empty."],
+    [
+      { excludedNamePatterns: ["教室$", "(チケット"] },
+      "excludedNamePatterns contains an invalid regular expression: (チケット",
+    ],
+    [{ minCapacity: "1000" }, "minCapacity must be a non-negative number."],
+    [{ defaultRadiusKm: 0 }, "defaultRadiusKm must be a positive number."],
+    [
+      { radiusKmByGenre: { 野球場: "5" } },
+      "radiusKmByGenre must map genres to positive numbers.",
+    ],
+    [
+      { dedupDistanceMeters: -1 },
+      "dedupDistanceMeters must be a non-negative number.",
+    ],
+  ])("rejects %j", (raw, message) => {
+    expect(parseVenueRules(raw)).toBe(message);
+  });
+
+  it("accepts the shipped config", async () => {
+    const raw = JSON.parse(await readFile("config/venue-rules.json", "utf-8"));
+    expect(typeof parseVenueRules(raw)).toBe("object");
+  });
+});
+
+describe("loadVenueRules", () => {
+  it("uses the defaults when the file does not exist", async () => {
+    expect(await loadVenueRules("config/missing-venue-rules.json")).toBe(
+      DEFAULT_VENUE_RULES,
+    );
+  });
+
+  it("throws on an invalid rules file instead of silently using the defaults", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "venue-rules-"));
+    try {
+      const rulesPath = path.join(dir, "rules.json");
+      await writeFile(
+        rulesPath,
+        JSON.stringify({ excludedNamePatterns: ["["] }),
+      );
+      await expect(loadVenueRules(rulesPath)).rejects.toThrow(
+        /Invalid venue rules/,
+      );
+      await writeFile(rulesPath, "{");
+      await expect(loadVenueRules(rulesPath)).rejects.toThrow(
+        /Failed to load venue rules/,
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
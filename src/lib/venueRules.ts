@@ -0,0 +1,268 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  canonicalVenueName,
+  findVenue,
+  type VenueCatalogEntry,
+} from "@/lib/venueCatalog";
+
+// Yahoo!ローカルサーチの結果から、イベント会場として扱う施設を選ぶルール。
+// config/venue-rules.json (VENUE_RULES_PATH で変更可) から読み込む。
+
+const DEFAULT_RULES_PATH = "config/venue-rules.json";
+
+// Yahoo!ローカルサーチで指定できる検索半径の上限
+const MAX_SEARCH_RADIUS_KM = 20;
+
+export interface YahooVenueFeature {
+  Id: string;
+  Name: string;
+  Geometry?: {
+    // "経度,緯度"
+    Coordinates?: string;
+  };
+  Property?: {
+    Address?: string;
+    Genre?: {
+      Code?: string;
+      Name: string;
+    }[];
+  };
+}
+
+export interface ProcessedVenueFeature extends YahooVenueFeature {
+  Category: string;
+}
+
+export type VenueRules = {
+  // 検索時に指定する業種コード (gc)
+  genreCodes: string[];
+  // 空なら全業種を許可する
+  allowedGenres: string[];
+  excludedGenres: string[];
+  // 施設名がいずれかに一致したら除外する正規表現
+  excludedNamePatterns: string[];
+  // カタログで収容人数が分かっている施設のうち、これ未満を除外する
+  minCapacity: number;
+  defaultRadiusKm: number;
+  radiusKmByGenre: Record<string, number>;
+  // 名称が同じ施設とみなす距離
+  dedupDistanceMeters: number;
+};
+
+export const DEFAULT_VENUE_RULES: VenueRules = {
+  genreCodes: ["0301002", "0301003", "0301013", "0303001", "0305004"],
+  allowedGenres: [],
+  excludedGenres: [],
+  excludedNamePatterns: [],
+  minCapacity: 0,
+  defaultRadiusKm: 2.5,
+  radiusKmByGenre: {},
+  dedupDistanceMeters: 200,
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * ルールファイルの内容を検証し、省略された項目をデフォルトで補う。
+ * 型の違う項目や、正規表現として不正な excludedNamePatterns があればエラーメッセージを返す。
+ */
+export function parseVenueRules(raw: unknown): VenueRules | string {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return "venue rules must be an object.";
+  }
+  const rules = { ...DEFAULT_VENUE_RULES, ...(raw as Partial<VenueRules>) };
+  for (const key of [
+    "genreCodes",
+    "allowedGenres",
+    "excludedGenres",
+    "excludedNamePatterns",
+  ] as const) {
+    if (!isStringArray(rules[key])) {
+      return `${key} must be an array of strings.`;
+    }
+  }
+  if (rules.genreCodes.length === 0) {
+    return "genreCodes must not be empty.";
+  }
+  for (const pattern of rules.excludedNamePatterns) {
+    try {
+      new RegExp(pattern);
+    } catch (_error) {
+      return `excludedNamePatterns contains an invalid regular expression: ${pattern}`;
+    }
+  }
+  if (typeof rules.minCapacity !== "number" || !(rules.minCapacity >= 0)) {
+    return "minCapacity must be a non-negative number.";
+  }
+  if (!isPositiveNumber(rules.defaultRadiusKm)) {
+    return "defaultRadiusKm must be a positive number.";
+  }
+  if (
+    typeof rules.radiusKmByGenre !== "object" ||
+    rules.radiusKmByGenre === null ||
+    !Object.values(rules.radiusKmByGenre).every(isPositiveNumber)
+  ) {
+    return "radiusKmByGenre must map genres to positive numbers.";
+  }
+  if (
+    typeof rules.dedupDistanceMeters !== "number" ||
+    !(rules.dedupDistanceMeters >= 0)
+  ) {
+    return "dedupDistanceMeters must be a non-negative number.";
+  }
+  return rules;
+}
+
+/**
+ * ルールファイルを読み込む。ファイルがなければデフォルトのルールを使う。
+ * 内容が不正な場合は、設定の誤りに気付けるようデフォルトで代用せずにエラーを投げる。
+ */
+export async function loadVenueRules(
+  rulesPath = process.env.VENUE_RULES_PATH ?? DEFAULT_RULES_PATH,
+): Promise<VenueRules> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(
+      await readFile(path.resolve(process.cwd(), rulesPath), "utf-8"),
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return DEFAULT_VENUE_RULES;
+    }
+    throw new Error(`Failed to load venue rules from ${rulesPath}`, {
+      cause: error,
+    });
+  }
+  const rules = parseVenueRules(raw);
+  if (typeof rules === "string") {
+    throw new Error(`Invalid venue rules in ${rulesPath}: ${rules}`);
+  }
+  return rules;
+}
+
+/** ルール上の最大の検索半径 (km)。個別の業種の半径は検索後に絞り込む */
+export function searchRadiusKm(rules: VenueRules): number {
+  return Math.min(
+    MAX_SEARCH_RADIUS_KM,
+    Math.max(rules.defaultRadiusKm, ...Object.values(rules.radiusKmByGenre)),
+  );
+}
+
+// 施設名の後ろに空白で区切って付く、入口・窓口・階などの表記 (例: "22ゲート", "正面入口", "5F")
+const SUB_LOCATION_PATTERN =
+  /^(?:.{0,4}(?:ゲート|gate|入口|入り口|出入口|出口|口|受付|窓口|エントランス|ロビー)|b?\d+(?:f|階))$/;
+
+/**
+ * 重複判定に使う施設名の主要部分。全角・半角と大文字・小文字、空白と括弧書きの違いを無視し、
+ * 「東京ドーム 22ゲート」のような空白以降の入口・窓口名を取り除く。
+ * 「東京ドームホテル」「東京ドームシティホール」のような別の施設名はそのまま残す。
+ */
+export function normalizeVenueName(name: string): string {
+  const tokens = name
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .trim()
+    .split(/\s+/);
+  while (
+    tokens.length > 1 &&
+    SUB_LOCATION_PATTERN.test(tokens[tokens.length - 1])
+  ) {
+    tokens.pop();
+  }
+  return canonicalVenueName(tokens.join(" "));
+}
+
+export function parseCoordinates(
+  feature: YahooVenueFeature,
+): { lat: number; lon: number } | null {
+  const [lon, lat] = (feature.Geometry?.Coordinates ?? "")
+    .split(",")
+    .map(Number);
+  return Number.isFinite(lat) && Number.isFinite(lon) ? { lat, lon } : null;
+}
+
+/** 2点間の距離 (m)。駅周辺の距離なので球面三角法の近似で十分 */
+export function distanceMeters(
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number },
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * 名称の主要部分が同じで、dedupDistanceMeters 以内にある施設を同一とみなす。
+ * 離れた場所にある同名の別施設や、座標がなく近いか分からない施設はまとめない。
+ */
+function isDuplicate(
+  a: YahooVenueFeature,
+  b: YahooVenueFeature,
+  rules: VenueRules,
+): boolean {
+  if (normalizeVenueName(a.Name) !== normalizeVenueName(b.Name)) {
+    return false;
+  }
+  const coordsA = parseCoordinates(a);
+  const coordsB = parseCoordinates(b);
+  if (!coordsA || !coordsB) {
+    return false;
+  }
+  return distanceMeters(coordsA, coordsB) <= rules.dedupDistanceMeters;
+}
+
+/**
+ * 検索結果にルールを適用し、除外・重複削除した施設一覧を返す。
+ * 結果は検索結果の順 (駅からの距離順) を保つ。
+ */
+export function applyVenueRules(
+  features: YahooVenueFeature[],
+  station: { lat: number; lon: number },
+  rules: VenueRules,
+  catalog: VenueCatalogEntry[] = [],
+): ProcessedVenueFeature[] {
+  const allowedGenres = new Set(rules.allowedGenres);
+  const excludedGenres = new Set(rules.excludedGenres);
+  const excludedNames = rules.excludedNamePatterns.map((p) => new RegExp(p));
+
+  const accepted: ProcessedVenueFeature[] = [];
+  for (const venue of features) {
+    const genre = venue.Property?.Genre?.[0]?.Name ?? "";
+
+    // 1. 業種で絞り込む
+    if (genre && excludedGenres.has(genre)) continue;
+    if (allowedGenres.size > 0 && !allowedGenres.has(genre)) continue;
+
+    // 2. 名称で除外する
+    if (excludedNames.some((pattern) => pattern.test(venue.Name))) continue;
+
+    // 3. 業種ごとの半径で絞り込む
+    const coords = parseCoordinates(venue);
+    const radiusKm = rules.radiusKmByGenre[genre] ?? rules.defaultRadiusKm;
+    if (coords && distanceMeters(station, coords) > radiusKm * 1000) continue;
+
+    // 4. 収容人数が分かっている小規模な施設を除外する
+    const known = findVenue(catalog, { id: venue.Id, name: venue.Name });
+    if (known && known.capacity < rules.minCapacity) continue;
+
+    // 5. 既に採用した施設と重複していれば除外する
+    if (accepted.some((other) => isDuplicate(other, venue, rules))) continue;
+
+    accepted.push({ ...venue, Category: genre });
+  }
+  return accepted;
+}
@@ -0,0 +1,180 @@
+import { fetchUpstreamJson } from "@/lib/httpClient";
+import { fetchStationById } from "@/lib/odpt";
+import { type DegradedInput, UpstreamError } from "@/lib/upstream";
+import { listVenues } from "@/lib/venueCatalog";
+import {
+  applyVenueRules,
+  loadVenueRules,
+  type ProcessedVenueFeature,
+  searchRadiusKm,
+  type VenueRules,
+  type YahooVenueFeature,
+} from "@/lib/venueRules";
+
+// 駅の位置を求め、周辺のイベント会場を検索する
+
+// --- APIのエンドポイント  ---
+// NOMINATIM_URL・YAHOO_LOCAL_SEARCH_URL でスタブサーバーなどに差し替えられる
+const nominatimUrl = () =>
+  process.env.NOMINATIM_URL ?? "https://nominatim.openstreetmap.org/search";
+const localSearchUrl = () =>
+  process.env.YAHOO_LOCAL_SEARCH_URL ??
+  "https://map.yahooapis.jp/search/local/V1/localSearch";
+
+export type StationLocation = {
+  lat: string;
+  lon: string;
+  displayName: string;
+  source: "odpt" | "nominatim";
+  // ODPT の障害で駅名のジオコーディングに切り替えた場合など
+  degraded: DegradedInput[];
+};
+
+type YahooLocalSearchResponse = {
+  ResultInfo: { Count: number; [key: string]: unknown };
+  Feature?: YahooVenueFeature[];
+  [key: string]: unknown;
+};
+
+// Yahoo!ローカルサーチのレスポンスのうち、加工後の Feature を差し替えたもの
+export type VenueSearchResults = {
+  ResultInfo: { Count: number; [key: string]: unknown };
+  Feature: ProcessedVenueFeature[];
+  [key: string]: unknown;
+};
+
+type NominatimPlace = { lat: string; lon: string; display_name: string };
+
+// 駅名でジオコーディングする。該当がなければ null、失敗時は UpstreamError
+async function getStationCoordinates(stationName: string) {
+  const params = new URLSearchParams({
+    q: stationName,
+    countrycodes: "jp",
+    format: "jsonv2",
+    limit: "1",
+  });
+  const url = `${nominatimUrl()}?${params.toString()}`;
+
+  const data = await fetchUpstreamJson<NominatimPlace[]>(
+    "nominatim",
+    "station coordinates",
+    url,
+    { headers: { "User-Agent": "ImaAiteruKun-App/1.0" } },
+  );
+  if (data && data.length > 0) {
+    const result = data[0];
+    return {
+      lat: result.lat,
+      lon: result.lon,
+      displayName: result.display_name,
+    };
+  }
+  return null;
+}
+
+// ODPTに登録された駅の座標を使う。座標がない駅は null、失敗時は UpstreamError
+async function getOdptStationCoordinates(stationId: string) {
+  const station = await fetchStationById(stationId);
+  if (station?.lat === undefined || station.lon === undefined) {
+    return null;
+  }
+  return {
+    lat: String(station.lat),
+    lon: String(station.lon),
+    displayName: station.label,
+  };
+}
+
+/**
+ * 駅の緯度・経度を求める。
+ * ODPTの駅座標を優先し、取れなければ駅名でジオコーディングする。
+ * ODPT の障害でジオコーディングに切り替えた場合は degraded に記録する。
+ * どちらでも見つからなければ null、ジオコーディングも失敗したら UpstreamError を投げる。
+ */
+export async function locateStation({
+  stationId,
+  stationName,
+}: {
+  stationId?: string | null;
+  stationName?: string | null;
+}): Promise<StationLocation | null> {
+  const degraded: DegradedInput[] = [];
+  let odptCoordinates = null;
+  if (stationId) {
+    try {
+      odptCoordinates = await getOdptStationCoordinates(stationId);
+    } catch (error) {
+      if (!(error instanceof UpstreamError)) throw error;
+      console.error(`ODPT APIエラー (駅座標): ${error}`);
+      degraded.push({
+        input: "coordinates",
+        fallback: "駅名によるジオコーディング (Nominatim)",
+        upstream: error.toJSON(),
+      });
+    }
+  }
+  if (odptCoordinates) {
+    return { ...odptCoordinates, source: "odpt", degraded };
+  }
+  const nominatimCoordinates = stationName
+    ? await getStationCoordinates(stationName)
+    : null;
+  return nominatimCoordinates
+    ? { ...nominatimCoordinates, source: "nominatim", degraded }
+    : null;
+}
+
+async function searchEventVenues(
+  clientId: string,
+  lat: string,
+  lon: string,
+  rules: VenueRules,
+) {
+  const params = new URLSearchParams({
+    appid: clientId,
+    lat: lat,
+    lon: lon,
+    gc: rules.genreCodes.join(","),
+    dist: String(searchRadiusKm(rules)),
+    results: "100",
+    sort: "dist",
+    output: "json",
+  });
+  const url = `${localSearchUrl()}?${params.toString()}`;
+
+  return fetchUpstreamJson<YahooLocalSearchResponse>("yahoo", "venues", url);
+}
+
+/**
+ * 駅周辺のイベント会場を検索し、会場の絞り込みルールで加工して返す。
+ * Yahoo! API でエラーが発生した場合は UpstreamError を投げる。
+ */
+export async function findVenuesNearStation(
+  clientId: string,
+  location: StationLocation,
+): Promise<VenueSearchResults> {
+  const rules = await loadVenueRules();
+  const venueData = await searchEventVenues(
+    clientId,
+    location.lat,
+    location.lon,
+    rules,
+  );
+
+  const originalFeatures: YahooVenueFeature[] = venueData.Feature || [];
+  const deduplicatedFeatures = applyVenueRules(
+    originalFeatures,
+    { lat: Number(location.lat), lon: Number(location.lon) },
+    rules,
+    await listVenues(),
+  );
+
+  return {
+    ...venueData,
+    ResultInfo: {
+      ...venueData.ResultInfo,
+      Count: deduplicatedFeatures.length, // 件数を更新
+    },
+    Feature: deduplicatedFeatures,
+  };
+}
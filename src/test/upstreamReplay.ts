@@ -0,0 +1,43 @@
+import { vi } from "vitest";
+
+// ルートのテストで、外部APIを呼ばずに保存済みの応答を再生する。
+// 正常系は fixtures/upstream、429 や壊れた応答は fixtures/upstream-scenarios/<scenario> を使う。
+// どちらも記録と同じ形式で手書きした合成の応答で、IDや件数は本物の API とは一致しない。
+// UPSTREAM_FIXTURE_MODE=record と本物のキーを渡して実行すると、正常系を本物の応答で置き換えられる。
+
+export type UpstreamScenario = "rate-limited" | "malformed";
+
+/**
+ * 環境変数を再生用に差し替え、モジュールを読み込み直す。
+ * サーキットブレーカーの状態や環境変数を読むモジュールを、テストごとに作り直すため、
+ * ルートはこの後に動的 import する。
+ */
+export function replayUpstream(scenario?: UpstreamScenario) {
+  vi.resetModules();
+  const recording = process.env.UPSTREAM_FIXTURE_MODE === "record";
+  if (!recording || scenario) {
+    vi.stubEnv("UPSTREAM_FIXTURE_MODE", "replay");
+    // 記録時にキーは取り除かれるので、値は何でもよい
+    vi.stubEnv("ODPT_CONSUMER_KEY", "test-odpt-key");
+    vi.stubEnv("YAHOO_CLIENT_ID", "test-yahoo-client-id");
+    vi.stubEnv("GEMINI_API_KEY", "test-gemini-key");
+  }
+  vi.stubEnv(
+    "UPSTREAM_FIXTURE_DIR",
+    scenario ? `fixtures/upstream-scenarios/${scenario}` : "fixtures/upstream",
+  );
+  // 記録したときの上流の URL と設定にそろえる
+  for (const name of [
+    "ODPT_API_BASE_URL",
+    "NOMINATIM_URL",
+    "YAHOO_LOCAL_SEARCH_URL",
+    "GEMINI_API_BASE_URL",
+    "VENUE_RULES_PATH",
+  ]) {
+    vi.stubEnv(name, undefined);
+  }
+  // 管理APIでの編集内容は使わず、初期データだけにする
+  vi.stubEnv("VENUE_CATALOG_PATH", ".cache/test/venues.json");
+  vi.stubEnv("EVENT_PREDICTOR", "gemini");
+  vi.stubEnv("PREDICTION_CACHE_STORE", "none");
+}